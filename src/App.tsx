@@ -1,6 +1,20 @@
 // App component: handles file upload and renders PDFViewer
 import React, { useState } from 'react';
 import PDFViewer from './components/PDFViewer/PDFViewer';
+import KeywordProfile from './components/KeywordProfile/KeywordProfile';
+import Requirements from './components/Requirements/Requirements';
+import ImperativeMood from './components/ImperativeMood/ImperativeMood';
+import LintFindings from './components/LintFindings/LintFindings';
+import ContractTerms from './components/ContractTerms/ContractTerms';
+import References from './components/References/References';
+import Organizations from './components/Organizations/Organizations';
+import UfcInfo from './components/UfcInfo/UfcInfo';
+import RunningHeaders from './components/RunningHeaders/RunningHeaders';
+import Disciplines from './components/Disciplines/Disciplines';
+import CitationGraph from './components/CitationGraph/CitationGraph';
+import UnresolvedItems from './components/UnresolvedItems/UnresolvedItems';
+import Submittals from './components/Submittals/Submittals';
+import Findings from './components/Findings/Findings';
 
 const App: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
@@ -38,6 +52,20 @@ const App: React.FC = () => {
             />
           </div>
         )}
+        {file && <UfcInfo />}
+        {file && <RunningHeaders file={file} />}
+        {file && <Disciplines />}
+        {file && <KeywordProfile />}
+        {file && <Findings />}
+        {file && <Requirements />}
+        {file && <ImperativeMood />}
+        {file && <UnresolvedItems />}
+        {file && <Submittals fileName={file.name} />}
+        {file && <LintFindings />}
+        {file && <ContractTerms fileName={file.name} />}
+        {file && <References />}
+        {file && <Organizations />}
+        {file && <CitationGraph fileName={file.name} />}
         {/* TODO: ThumbnailList component */}
       </div>
       <div className="main-content">
@@ -0,0 +1,49 @@
+import React, { useEffect } from 'react';
+import { analysisController, Viewport } from '../../modules';
+import './AnnotationLayer.css';
+
+interface AnnotationLayerProps {
+  pageNum: number;
+  viewport: Viewport;
+  annotationLayerRef: React.RefObject<HTMLDivElement | null>;
+}
+
+/**
+ * Paints analysis annotations (classified requirements) from stored PDF-space rectangles
+ * Measurement is scheduled by TextLayer; this repaints on viewport changes and handles selection
+ */
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  pageNum,
+  viewport,
+  annotationLayerRef
+}) => {
+  // Re-render annotations when viewport changes (zoom/rotation)
+  useEffect(() => {
+    if (annotationLayerRef.current) {
+      analysisController.renderPageAnnotations(
+        pageNum,
+        viewport,
+        annotationLayerRef.current
+      );
+    }
+  }, [pageNum, viewport, annotationLayerRef]);
+
+  // Clicking an annotation with a detail selects it; clicking elsewhere on the page clears the selection
+  useEffect(() => {
+    const layer = annotationLayerRef.current;
+    if (!layer) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const target = (event.target as HTMLElement).closest<HTMLElement>('.annotation-detail');
+      const index = target ? Number(target.dataset.annotationIndex) : -1;
+      analysisController.selectAnnotation(pageNum, index);
+    };
+
+    layer.addEventListener('click', handleClick);
+    return () => layer.removeEventListener('click', handleClick);
+  }, [pageNum, annotationLayerRef]);
+
+  return null; // Annotations are rendered directly into the DOM element
+};
+
+export default AnnotationLayer;
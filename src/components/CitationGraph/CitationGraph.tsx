@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  analysisController,
+  textIndex,
+  viewerNavigation,
+  referenceCatalog,
+  detectDocumentDesignation,
+  buildCitationGraph,
+  getCitingPages,
+  layoutCitationGraph,
+  toGraphCsvRows,
+  toTurtle,
+  toJsonLd,
+  GRAPH_NODE_TYPES,
+  CitationGraph as CitationGraphData,
+  DocumentAnalyzer
+} from '../../modules';
+import exportService from '../../services/exportService';
+import './CitationGraph.css';
+
+interface CitationGraphProps {
+  fileName: string;
+}
+
+// SVG drawing size; layout coordinates in [-1, 1] are scaled to fit with room for node radii
+const GRAPH_SIZE = 280;
+const GRAPH_MARGIN = 12;
+
+const TYPE_COLORS: Record<string, string> = Object.fromEntries(GRAPH_NODE_TYPES.map(({ type, color }) => [type, color]));
+
+/**
+ * Citation graph: the document and every standard, UFC or UFGS it cites, drawn around it
+ * Hovering a node names it, clicking lists the pages that cite it; exports CSV, Turtle and JSON-LD
+ */
+const CitationGraph: React.FC<CitationGraphProps> = ({ fileName }) => {
+  const [graph, setGraph] = useState<CitationGraphData | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Inputs the graph was last built from; rebuilt when the text or the registered analyzers change
+  const builtFrom = useRef<{ pageTexts: string[]; analyzers: DocumentAnalyzer[] } | null>(null);
+
+  useEffect(() => {
+    const rebuild = () => {
+      if (textIndex.getProgress().status !== 'ready') {
+        builtFrom.current = null;
+        setGraph(null);
+        return;
+      }
+
+      const pageTexts = textIndex.getPageTexts();
+      const analyzers = analysisController.getAnalyzers();
+      if (builtFrom.current?.pageTexts === pageTexts && builtFrom.current.analyzers === analyzers) return;
+      builtFrom.current = { pageTexts, analyzers };
+
+      const label = detectDocumentDesignation(pageTexts) || fileName;
+      setGraph(buildCitationGraph({ label }, pageTexts, referenceCatalog));
+      setSelectedId(null);
+    };
+
+    rebuild();
+    const unsubscribeIndex = textIndex.subscribe(rebuild);
+    const unsubscribeAnalysis = analysisController.subscribe(rebuild);
+    return () => {
+      unsubscribeIndex();
+      unsubscribeAnalysis();
+    };
+  }, [fileName]);
+
+  const positions = useMemo(() => graph ? layoutCitationGraph(graph) : {}, [graph]);
+
+  if (!graph) {
+    return (
+      <div className="citation-graph">
+        <h4>Citation graph</h4>
+        <p className="citation-graph-note">Waiting for the document text…</p>
+      </div>
+    );
+  }
+
+  const scale = GRAPH_SIZE / 2 - GRAPH_MARGIN;
+  const point = (id: string) => ({
+    x: GRAPH_SIZE / 2 + (positions[id]?.x ?? 0) * scale,
+    y: GRAPH_SIZE / 2 + (positions[id]?.y ?? 0) * scale
+  });
+
+  const documentNode = graph.nodes[0];
+  const citedNodes = graph.nodes.slice(1);
+  const selectedNode = graph.nodes.find(node => node.id === selectedId) || null;
+  const typeCounts = citedNodes.reduce<Record<string, number>>((counts, node) => {
+    counts[node.type] = (counts[node.type] || 0) + 1;
+    return counts;
+  }, {});
+  const baseName = fileName.replace(/\.pdf$/i, '');
+
+  const exportCsv = () => {
+    exportService.download(`${baseName}-citations.csv`, exportService.toCsv(toGraphCsvRows(graph)), 'text/csv');
+  };
+  const exportTurtle = () => {
+    exportService.download(`${baseName}-citations.ttl`, toTurtle(graph), 'text/turtle');
+  };
+  const exportJsonLd = () => {
+    exportService.download(`${baseName}-citations.jsonld`, JSON.stringify(toJsonLd(graph), null, 2), 'application/ld+json');
+  };
+
+  return (
+    <div className="citation-graph">
+      <h4>Citation graph</h4>
+      <p className="citation-graph-note">
+        {documentNode.label} cites {citedNodes.length} documents on {new Set(graph.edges.map(edge => edge.page)).size} pages
+      </p>
+      {citedNodes.length > 0 && (
+        <svg
+          className="citation-graph-canvas"
+          viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`}
+          role="img"
+          aria-label={`Citation graph of ${documentNode.label}`}
+          onClick={() => setSelectedId(null)}
+        >
+          {citedNodes.map(node => {
+            const from = point(documentNode.id);
+            const to = point(node.id);
+            return (
+              <line
+                key={`edge-${node.id}`}
+                className={node.id === selectedId ? 'citation-graph-edge selected' : 'citation-graph-edge'}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                strokeWidth={Math.min(4, 0.5 + getCitingPages(graph, node.id).length * 0.5)}
+              />
+            );
+          })}
+          {graph.nodes.map(node => {
+            const { x, y } = point(node.id);
+            return (
+              <circle
+                key={node.id}
+                className={node.id === selectedId ? 'citation-graph-node selected' : 'citation-graph-node'}
+                cx={x}
+                cy={y}
+                r={node.type === 'Document' ? 8 : 4}
+                fill={TYPE_COLORS[node.type]}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setSelectedId(node.id === selectedId ? null : node.id);
+                }}
+              >
+                <title>{node.title ? `${node.label}: ${node.title}` : node.label}</title>
+              </circle>
+            );
+          })}
+        </svg>
+      )}
+      <ul className="citation-graph-legend">
+        {GRAPH_NODE_TYPES.filter(({ type }) => typeCounts[type]).map(({ type, color }) => (
+          <li key={type}>
+            <span className="citation-graph-swatch" style={{ background: color }} />
+            {type} <span className="citation-graph-count">{typeCounts[type]}</span>
+          </li>
+        ))}
+      </ul>
+      {selectedNode && selectedNode.type !== 'Document' && (
+        <div className="citation-graph-detail" role="status">
+          <strong>{selectedNode.label}</strong>
+          {selectedNode.title && <p>{selectedNode.title}</p>}
+          <span className="citation-graph-pages">
+            {getCitingPages(graph, selectedNode.id).map(page => (
+              <button key={page} onClick={() => viewerNavigation.goToPage(page)}>p. {page}</button>
+            ))}
+          </span>
+        </div>
+      )}
+      <div className="citation-graph-actions">
+        <button onClick={exportCsv}>Export CSV</button>
+        <button onClick={exportTurtle}>Export Turtle</button>
+        <button onClick={exportJsonLd}>Export JSON-LD</button>
+      </div>
+    </div>
+  );
+};
+
+export default CitationGraph;
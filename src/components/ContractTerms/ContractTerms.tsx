@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  analysisController,
+  textIndex,
+  viewerNavigation,
+  parseContractTerms,
+  findDocumentTermFindings,
+  createContractTermAnalyzer,
+  serializeTermDecisions,
+  parseTermDecisions,
+  CONTRACT_TERM_KIND,
+  CONTRACT_TERM_LABELS,
+  ContractTerm,
+  ContractTermFinding,
+  TermDecision,
+  AnnotationRect
+} from '../../modules';
+import csvService from '../../services/csvService';
+import jsonService from '../../services/jsonService';
+import exportService from '../../services/exportService';
+import './ContractTerms.css';
+
+// Default term dictionary shipped in public/data
+const DEFAULT_TERMS_URL = 'data/contract_terms.csv';
+
+type TriageView = 'pending' | TermDecision;
+
+interface ContractTermsProps {
+  fileName: string;
+}
+
+/**
+ * Contract-term capitalization check (writing standards 5.13): loads a term dictionary, flags
+ * miscapitalized terms and banned variants, and lets each flag be accepted or ignored, in the list
+ * or on the selected flag in the viewer. Decisions export to JSON and import on a later run
+ */
+const ContractTerms: React.FC<ContractTermsProps> = ({ fileName }) => {
+  const [terms, setTerms] = useState<ContractTerm[]>([]);
+  const [termsName, setTermsName] = useState<string | null>(null);
+  const [decisions, setDecisions] = useState<Map<string, TermDecision>>(new Map());
+  const [pageTexts, setPageTexts] = useState<string[] | null>(null);
+  const [view, setView] = useState<TriageView>('pending');
+  const [selected, setSelected] = useState<AnnotationRect | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      const progress = textIndex.getProgress();
+      if (progress.status === 'ready') {
+        setPageTexts(textIndex.getPageTexts());
+      } else if (progress.status === 'indexing') {
+        setPageTexts(null);
+      }
+    };
+    update();
+    return textIndex.subscribe(update);
+  }, []);
+
+  // Decisions belong to one document
+  useEffect(() => {
+    setDecisions(new Map());
+    setNote(null);
+  }, [fileName]);
+
+  useEffect(() => {
+    const unsubscribe = analysisController.subscribe(() => setSelected(analysisController.getSelectedAnnotation()));
+    return unsubscribe;
+  }, []);
+
+  // Flag terms in the viewer, leaving out ignored findings; the analyzer reads the current decisions,
+  // so a decision only relabels its findings instead of analyzing the document again
+  const decisionsRef = useRef(decisions);
+  useEffect(() => {
+    decisionsRef.current = decisions;
+    analysisController.refreshAnalyzer(CONTRACT_TERM_KIND);
+  }, [decisions]);
+
+  useEffect(() => {
+    if (terms.length === 0) return;
+    analysisController.registerAnalyzer(createContractTermAnalyzer(terms, () => decisionsRef.current));
+  }, [terms]);
+
+  useEffect(() => () => analysisController.unregisterAnalyzer(CONTRACT_TERM_KIND), []);
+
+  const findings = useMemo(
+    () => pageTexts && terms.length > 0 ? findDocumentTermFindings(pageTexts, terms) : [],
+    [pageTexts, terms]
+  );
+
+  const applyTerms = (name: string, newTerms: ContractTerm[]) => {
+    if (newTerms.length === 0) {
+      setError(`${name} contains no terms (expected columns: Term, Banned Variants, Exceptions, Reference)`);
+      return;
+    }
+    setError(null);
+    setTermsName(name);
+    setTerms(newTerms);
+  };
+
+  const loadDefaultTerms = async () => {
+    try {
+      const rows = await csvService.load(DEFAULT_TERMS_URL);
+      applyTerms('contract_terms.csv', parseContractTerms(rows));
+    } catch (err) {
+      console.error('Failed to load default contract terms:', err);
+      setError(`Failed to load default terms: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleTermsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      applyTerms(file.name, parseContractTerms(await csvService.loadFile(file)));
+    } catch (err) {
+      console.error('Failed to load contract terms:', err);
+      setError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const clearTerms = () => {
+    setError(null);
+    setTermsName(null);
+    setTerms([]);
+    analysisController.unregisterAnalyzer(CONTRACT_TERM_KIND);
+  };
+
+  const decide = (finding: ContractTermFinding, decision: TermDecision | null) => {
+    setDecisions(previous => {
+      const next = new Map(previous);
+      if (decision) {
+        next.set(finding.key, decision);
+      } else {
+        next.delete(finding.key);
+      }
+      return next;
+    });
+  };
+
+  const exportDecisions = () => {
+    const baseName = fileName.replace(/\.pdf$/i, '');
+    const content = JSON.stringify(serializeTermDecisions(fileName, findings, decisions), null, 2);
+    exportService.download(`${baseName}-term-decisions.json`, content, 'application/json');
+  };
+
+  const handleDecisionsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseTermDecisions(await jsonService.loadFile(file));
+      const keys = new Set(findings.map(finding => finding.key));
+      const applied = Array.from(imported).filter(([key]) => keys.has(key));
+      setDecisions(previous => new Map([...previous, ...applied]));
+      setError(null);
+      setNote(`Applied ${applied.length} of ${imported.size} decisions from ${file.name}`);
+    } catch (err) {
+      console.error('Failed to load term decisions:', err);
+      setError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const counts: Record<TriageView, number> = { pending: 0, accepted: 0, ignored: 0 };
+  findings.forEach(finding => { counts[decisions.get(finding.key) || 'pending']++; });
+  const shown = findings.filter(finding => (decisions.get(finding.key) || 'pending') === view);
+  const selectedFinding = selected?.kind === CONTRACT_TERM_KIND
+    ? findings.find(finding => finding.page === selected.page && finding.startIndex === selected.startIndex)
+    : undefined;
+
+  const triageButtons = (finding: ContractTermFinding) => {
+    const decision = decisions.get(finding.key);
+    return decision ? (
+      <button onClick={() => decide(finding, null)}>Undo</button>
+    ) : (
+      <>
+        <button onClick={() => decide(finding, 'accepted')}>Accept</button>
+        <button onClick={() => decide(finding, 'ignored')}>Ignore</button>
+      </>
+    );
+  };
+
+  return (
+    <div className="contract-terms">
+      <h4>Contract terms</h4>
+      <div className="contract-terms-actions">
+        <button onClick={loadDefaultTerms}>Load default</button>
+        <label className="contract-terms-upload">
+          Upload CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleTermsFile} />
+        </label>
+        {terms.length > 0 && <button onClick={clearTerms}>Clear</button>}
+      </div>
+      {error && <p className="contract-terms-error">{error}</p>}
+      {termsName && (
+        <p className="contract-terms-name">{termsName} · {terms.length} terms · {findings.length} findings</p>
+      )}
+      {selectedFinding && (
+        <div className="contract-terms-detail" role="status">
+          <strong>"{selectedFinding.text}"</strong> on p. {selectedFinding.page}
+          <p>{selectedFinding.message}</p>
+          <div className="contract-terms-triage">{triageButtons(selectedFinding)}</div>
+        </div>
+      )}
+      {terms.length > 0 && (
+        <>
+          <ul className="contract-terms-legend">
+            {CONTRACT_TERM_LABELS.map(({ label, title, color }) => (
+              <li key={label}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={analysisController.isLabelVisible(CONTRACT_TERM_KIND, label)}
+                    onChange={(e) => analysisController.setLabelVisible(CONTRACT_TERM_KIND, label, e.target.checked)}
+                  />
+                  <span className="contract-terms-swatch" style={{ background: color }} />
+                  {title}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="contract-terms-views" role="tablist">
+            {(['pending', 'accepted', 'ignored'] as TriageView[]).map(option => (
+              <button
+                key={option}
+                role="tab"
+                aria-selected={view === option}
+                className={view === option ? 'active' : undefined}
+                onClick={() => setView(option)}
+              >
+                {option[0].toUpperCase() + option.substring(1)} {counts[option]}
+              </button>
+            ))}
+          </div>
+          {shown.length > 0 && (
+            <ul className="contract-terms-list">
+              {shown.map(finding => (
+                <li key={finding.key} title={finding.message}>
+                  <span className={`contract-terms-text contract-terms-${finding.type}`}>{finding.text}</span>
+                  <button onClick={() => viewerNavigation.goToPage(finding.page)}>p. {finding.page}</button>
+                  {triageButtons(finding)}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="contract-terms-actions">
+            <button onClick={exportDecisions} disabled={decisions.size === 0}>Export decisions</button>
+            <label className="contract-terms-upload">
+              Import decisions
+              <input type="file" accept=".json,application/json" onChange={handleDecisionsFile} />
+            </label>
+          </div>
+          {note && <p className="contract-terms-name">{note}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ContractTerms;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { analysisController, parseDisciplineMap, getDisciplineMapType, DisciplineIndex } from '../../modules';
+import csvService, { CsvRow } from '../../services/csvService';
+import './Disciplines.css';
+
+// Discipline maps shipped in public/data
+const DEFAULT_UFC_MAP_URL = 'data/UFC_DisciplineMap.csv';
+const DEFAULT_UFGS_MAP_URL = 'data/UFGS_DisciplineMap.csv';
+
+/**
+ * Discipline filter: loads the UFC and UFGS discipline maps, tags annotations with disciplines
+ * and narrows highlights and findings to the discipline a reviewer picks
+ */
+const Disciplines: React.FC = () => {
+  const [ufcMap, setUfcMap] = useState<Record<string, string>>({});
+  const [ufgsMap, setUfgsMap] = useState<Record<string, string>>({});
+  const [disciplines, setDisciplines] = useState<string[]>([]);
+  const [filter, setFilter] = useState<string | null>(() => analysisController.getDisciplineFilter());
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = analysisController.subscribe(() => {
+      setCounts(analysisController.getDisciplineCounts());
+      setFilter(analysisController.getDisciplineFilter());
+    });
+    return unsubscribe;
+  }, []);
+
+  const applyMaps = (ufc: Record<string, string>, ufgs: Record<string, string>) => {
+    const index = new DisciplineIndex(ufc, ufgs);
+    setUfcMap(ufc);
+    setUfgsMap(ufgs);
+    setDisciplines(index.getDisciplines());
+    analysisController.setDisciplineIndex(index.size > 0 ? index : null);
+  };
+
+  const addMap = (name: string, rows: CsvRow[], ufc: Record<string, string>, ufgs: Record<string, string>) => {
+    const type = getDisciplineMapType(rows);
+    const map = parseDisciplineMap(rows);
+    if (!type || Object.keys(map).length === 0) {
+      throw new Error(`${name} contains no disciplines (expected columns: UFC or UFGS, Discipline)`);
+    }
+    return type === 'ufc' ? { ufc: { ...ufc, ...map }, ufgs } : { ufc, ufgs: { ...ufgs, ...map } };
+  };
+
+  const loadDefaultMaps = async () => {
+    try {
+      const [ufcRows, ufgsRows] = await Promise.all([csvService.load(DEFAULT_UFC_MAP_URL), csvService.load(DEFAULT_UFGS_MAP_URL)]);
+      const withUfc = addMap('UFC_DisciplineMap.csv', ufcRows, ufcMap, ufgsMap);
+      const maps = addMap('UFGS_DisciplineMap.csv', ufgsRows, withUfc.ufc, withUfc.ufgs);
+      setError(null);
+      applyMaps(maps.ufc, maps.ufgs);
+    } catch (err) {
+      console.error('Failed to load discipline maps:', err);
+      setError(`Failed to load discipline maps: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const maps = addMap(file.name, await csvService.loadFile(file), ufcMap, ufgsMap);
+      setError(null);
+      applyMaps(maps.ufc, maps.ufgs);
+    } catch (err) {
+      console.error('Failed to load discipline map:', err);
+      setError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const clearMaps = () => {
+    setError(null);
+    applyMaps({}, {});
+    analysisController.setDisciplineFilter(null);
+  };
+
+  const mapSize = Object.keys(ufcMap).length + Object.keys(ufgsMap).length;
+
+  return (
+    <div className="disciplines">
+      <h4>Disciplines</h4>
+      <div className="disciplines-actions">
+        <button onClick={loadDefaultMaps}>Load discipline maps</button>
+        <label className="disciplines-upload">
+          Upload CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+        </label>
+        {mapSize > 0 && <button onClick={clearMaps}>Clear</button>}
+      </div>
+      {error && <p className="disciplines-error">{error}</p>}
+      {mapSize > 0 && (
+        <>
+          <p className="disciplines-name">
+            {Object.keys(ufcMap).length} UFC · {Object.keys(ufgsMap).length} UFGS numbers mapped
+          </p>
+          <label className="disciplines-filter">
+            Show
+            <select
+              value={filter ?? ''}
+              onChange={(e) => analysisController.setDisciplineFilter(e.target.value || null)}
+            >
+              <option value="">All disciplines ({Object.values(counts).reduce((total, count) => total + count, 0)})</option>
+              {disciplines.map(discipline => (
+                <option key={discipline} value={discipline}>
+                  {discipline} ({counts[discipline] || 0})
+                </option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Disciplines;
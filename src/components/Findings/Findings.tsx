@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import {
+  analysisController,
+  viewerNavigation,
+  ruleRegistry,
+  createRuleAnalyzer,
+  RULE_KIND,
+  RULE_SEVERITIES,
+  RuleSeverity
+} from '../../modules';
+import './Findings.css';
+
+/**
+ * Findings of the compliance rule engine (writing standards Chapter 5 checks)
+ * Rules can be enabled or disabled; the severity filter hides findings in the viewer and the list
+ */
+const Findings: React.FC = () => {
+  const [hiddenSeverities, setHiddenSeverities] = useState<Set<RuleSeverity>>(new Set());
+  const [, setVersion] = useState(0);
+
+  // Run the enabled rules as an analyzer while the panel is shown; a rule change re-runs only the rules
+  useEffect(() => {
+    analysisController.registerAnalyzer(createRuleAnalyzer(() => ruleRegistry.getEnabledRules()));
+    const unsubscribe = ruleRegistry.subscribe(() => {
+      analysisController.refreshAnalyzer(RULE_KIND);
+      setVersion(version => version + 1);
+    });
+
+    return () => {
+      unsubscribe();
+      analysisController.unregisterAnalyzer(RULE_KIND);
+    };
+  }, []);
+
+  // Re-render when findings change or a rule is shown or hidden
+  useEffect(() => analysisController.subscribe(() => setVersion(version => version + 1)), []);
+
+  // Hide findings of the filtered severities, including rules registered after the filter was set
+  useEffect(() => {
+    const applySeverities = () => ruleRegistry.getRules()
+      .forEach(rule => analysisController.setLabelVisible(RULE_KIND, rule.id, !hiddenSeverities.has(rule.severity)));
+    applySeverities();
+    return ruleRegistry.subscribe(applySeverities);
+  }, [hiddenSeverities]);
+
+  const toggleSeverity = (severity: RuleSeverity, visible: boolean) => {
+    setHiddenSeverities(previous => {
+      const next = new Set(previous);
+      if (visible) {
+        next.delete(severity);
+      } else {
+        next.add(severity);
+      }
+      return next;
+    });
+  };
+
+  const rules = ruleRegistry.getRules();
+  const counts = analysisController.getLabelCounts(RULE_KIND);
+  const colors = Object.fromEntries(RULE_SEVERITIES.map(({ severity, color }) => [severity, color]));
+  const severityCounts = rules.reduce<Record<string, number>>((total, rule) => {
+    total[rule.severity] = (total[rule.severity] || 0) + (counts[rule.id] || 0);
+    return total;
+  }, {});
+
+  const shownRules = new Map(
+    rules.filter(rule => ruleRegistry.isRuleEnabled(rule.id) && !hiddenSeverities.has(rule.severity)).map(rule => [rule.id, rule])
+  );
+  const findings = analysisController.getAnnotations(RULE_KIND).filter(finding => shownRules.has(finding.label));
+
+  return (
+    <div className="findings">
+      <h4>Findings</h4>
+      <ul className="findings-severities">
+        {RULE_SEVERITIES.map(({ severity, title, color }) => (
+          <li key={severity}>
+            <label>
+              <input
+                type="checkbox"
+                checked={!hiddenSeverities.has(severity)}
+                onChange={(e) => toggleSeverity(severity, e.target.checked)}
+              />
+              <span className="findings-swatch" style={{ background: color }} />
+              {title}
+              <span className="findings-count">{severityCounts[severity] || 0}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <ul className="findings-rules">
+        {rules.map(rule => (
+          <li key={rule.id}>
+            <label title={`Writing standards ${rule.reference} · ${rule.severity}`}>
+              <input
+                type="checkbox"
+                checked={ruleRegistry.isRuleEnabled(rule.id)}
+                onChange={(e) => ruleRegistry.setRuleEnabled(rule.id, e.target.checked)}
+              />
+              <span className="findings-swatch" style={{ background: colors[rule.severity] }} />
+              <span className="findings-reference">{rule.reference}</span>
+              <span className="findings-title">{rule.title}</span>
+              <span className="findings-count">{ruleRegistry.isRuleEnabled(rule.id) ? counts[rule.id] || 0 : '–'}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {findings.length > 0 && (
+        <ul className="findings-list">
+          {findings.map((finding, index) => (
+            <li key={index} title={finding.detail}>
+              <span className="findings-swatch" style={{ background: colors[shownRules.get(finding.label)!.severity] }} />
+              <span className="findings-message">
+                {finding.detail?.split('\n').slice(1).join(' ') || finding.text}
+              </span>
+              <button onClick={() => viewerNavigation.goToPage(finding.page)}>p. {finding.page}</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Findings;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import {
+  textIndex,
+  viewerNavigation,
+  joinPageTexts,
+  getSectionMoods,
+  isLowImperativeRatio,
+  IMPERATIVE_RATIO_THRESHOLD,
+  SectionMood
+} from '../../modules';
+import './ImperativeMood.css';
+
+interface SectionRow extends SectionMood {
+  page: number;
+}
+
+/**
+ * Share of imperative requirements against "shall" requirements per top-level paragraph
+ * (writing standards 5.12), so writers can see where a section drifts into "shall"
+ */
+const ImperativeMood: React.FC = () => {
+  const [sections, setSections] = useState<SectionRow[] | null>(null);
+
+  useEffect(() => {
+    let analyzedTexts: string[] | null = null;
+    const update = () => {
+      const pageTexts = textIndex.getProgress().status === 'ready' ? textIndex.getPageTexts() : null;
+      if (pageTexts === analyzedTexts) return;
+
+      analyzedTexts = pageTexts;
+      if (!pageTexts) {
+        setSections(null);
+        return;
+      }
+
+      const { text, pageStarts } = joinPageTexts(pageTexts);
+      setSections(getSectionMoods(text)
+        .filter(mood => mood.ratio !== null)
+        .map(mood => ({ ...mood, page: pageStarts.filter(start => start <= mood.startIndex).length })));
+    };
+
+    update();
+    return textIndex.subscribe(update);
+  }, []);
+
+  if (!sections || sections.length === 0) return null;
+
+  const imperative = sections.reduce((total, section) => total + section.imperative, 0);
+  const shall = sections.reduce((total, section) => total + section.shall, 0);
+
+  return (
+    <div className="imperative-mood">
+      <h4>Imperative mood</h4>
+      <p className="imperative-mood-note">
+        {imperative} of {imperative + shall} requirements are imperative ({Math.round(imperative / (imperative + shall) * 100)}%);
+        sections under {Math.round(IMPERATIVE_RATIO_THRESHOLD * 100)}% are marked
+      </p>
+      <ul className="imperative-mood-sections">
+        {sections.map(section => (
+          <li
+            key={section.startIndex}
+            className={isLowImperativeRatio(section) ? 'low' : undefined}
+            title={`${section.imperative} imperative, ${section.shall} "shall"`}
+          >
+            <span className="imperative-mood-title">
+              {section.number ? `${section.number} ${section.title}` : 'Before the first paragraph'}
+            </span>
+            <span className="imperative-mood-bar">
+              <span style={{ width: `${Math.round(section.ratio! * 100)}%` }} />
+            </span>
+            <span className="imperative-mood-count">{section.imperative}/{section.imperative + section.shall}</span>
+            <button onClick={() => viewerNavigation.goToPage(section.page)}>p. {section.page}</button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ImperativeMood;
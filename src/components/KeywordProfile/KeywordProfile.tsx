@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { searchController, parseKeywordProfile, getProfileCategories, SearchTerm } from '../../modules';
+import csvService from '../../services/csvService';
+import './KeywordProfile.css';
+
+// Default profile shipped in public/data (same shape as the Streamlit keywords.csv)
+const DEFAULT_PROFILE_URL = 'data/keywords.csv';
+
+/**
+ * Keyword profile loader and legend
+ * Loads keyword,category,color CSV profiles into searchController
+ */
+const KeywordProfile: React.FC = () => {
+  const [terms, setTerms] = useState<SearchTerm[]>(() => searchController.getKeywordProfile());
+  const [profileName, setProfileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyProfile = (name: string, newTerms: SearchTerm[]) => {
+    if (newTerms.length === 0) {
+      setError(`${name} contains no keywords (expected columns: keyword, category, color)`);
+      return;
+    }
+    setError(null);
+    setProfileName(name);
+    setTerms(newTerms);
+    searchController.setKeywordProfile(newTerms);
+  };
+
+  const loadDefaultProfile = async () => {
+    try {
+      const rows = await csvService.load(DEFAULT_PROFILE_URL);
+      applyProfile('keywords.csv', parseKeywordProfile(rows));
+    } catch (err) {
+      console.error('Failed to load default keyword profile:', err);
+      setError(`Failed to load default profile: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = await csvService.loadFile(file);
+      applyProfile(file.name, parseKeywordProfile(rows));
+    } catch (err) {
+      console.error('Failed to load keyword profile:', err);
+      setError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const clearProfile = () => {
+    setError(null);
+    setProfileName(null);
+    setTerms([]);
+    searchController.setKeywordProfile([]);
+  };
+
+  const categories = getProfileCategories(terms);
+
+  return (
+    <div className="keyword-profile">
+      <h4>Keyword profile</h4>
+      <div className="keyword-profile-actions">
+        <button onClick={loadDefaultProfile}>Load default</button>
+        <label className="keyword-profile-upload">
+          Upload CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+        </label>
+        {terms.length > 0 && <button onClick={clearProfile}>Clear</button>}
+      </div>
+      {error && <p className="keyword-profile-error">{error}</p>}
+      {profileName && (
+        <p className="keyword-profile-name">{profileName} · {terms.length} terms</p>
+      )}
+      {categories.length > 0 && (
+        <ul className="keyword-profile-legend">
+          {categories.map(({ category, color, keywords }) => (
+            <li key={category} title={keywords.join(', ')}>
+              <span className="keyword-profile-swatch" style={{ background: color || undefined }} />
+              {category}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default KeywordProfile;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { analysisController, parseLintRules, createLintAnalyzer, LINT_KIND, LintRule, AnnotationRect } from '../../modules';
+import csvService from '../../services/csvService';
+import './LintFindings.css';
+
+// Default rule set shipped in public/data (UFGS indefinite and banned terms)
+const DEFAULT_RULES_URL = 'data/UFGS_KeywordList.csv';
+
+/**
+ * Indefinite-term linter: loads a keyword list CSV as lint rules and summarizes findings per rule
+ * Selecting a flag in the viewer shows its replacement, reason and citation here
+ */
+const LintFindings: React.FC = () => {
+  const [rules, setRules] = useState<LintRule[]>([]);
+  const [rulesName, setRulesName] = useState<string | null>(null);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [selected, setSelected] = useState<AnnotationRect | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = analysisController.subscribe(() => {
+      setCounts(analysisController.getLabelCounts(LINT_KIND));
+      setSelected(analysisController.getSelectedAnnotation());
+    });
+    return unsubscribe;
+  }, []);
+
+  const applyRules = (name: string, newRules: LintRule[]) => {
+    if (newRules.length === 0) {
+      setError(`${name} contains no rules (expected columns: ID, Keyword, Recommended Replacement, Reason, Reference)`);
+      return;
+    }
+    setError(null);
+    setRulesName(name);
+    setRules(newRules);
+    analysisController.registerAnalyzer(createLintAnalyzer(newRules));
+  };
+
+  const loadDefaultRules = async () => {
+    try {
+      const rows = await csvService.load(DEFAULT_RULES_URL);
+      applyRules('UFGS_KeywordList.csv', parseLintRules(rows));
+    } catch (err) {
+      console.error('Failed to load default lint rules:', err);
+      setError(`Failed to load default rules: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = await csvService.loadFile(file);
+      applyRules(file.name, parseLintRules(rows));
+    } catch (err) {
+      console.error('Failed to load lint rules:', err);
+      setError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const clearRules = () => {
+    setError(null);
+    setRulesName(null);
+    setRules([]);
+    analysisController.unregisterAnalyzer(LINT_KIND);
+  };
+
+  // Rules with findings, most frequent first
+  const findings = rules
+    .filter(rule => counts[rule.id] > 0)
+    .sort((a, b) => counts[b.id] - counts[a.id]);
+  const totalFindings = findings.reduce((total, rule) => total + counts[rule.id], 0);
+  const selectedRule = selected?.kind === LINT_KIND ? rules.find(rule => rule.id === selected.label) : undefined;
+
+  return (
+    <div className="lint-findings">
+      <h4>Indefinite terms</h4>
+      <div className="lint-findings-actions">
+        <button onClick={loadDefaultRules}>Load UFGS list</button>
+        <label className="lint-findings-upload">
+          Upload CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+        </label>
+        {rules.length > 0 && <button onClick={clearRules}>Clear</button>}
+      </div>
+      {error && <p className="lint-findings-error">{error}</p>}
+      {rulesName && (
+        <p className="lint-findings-name">{rulesName} · {rules.length} rules · {totalFindings} findings</p>
+      )}
+      {selectedRule && (
+        <div className="lint-findings-detail" role="status">
+          <strong>"{selectedRule.keyword}"</strong> on p. {selected!.page}
+          {selectedRule.replacement && <p>Replace with: {selectedRule.replacement}</p>}
+          {selectedRule.reason && <p>Reason: {selectedRule.reason}</p>}
+          {selectedRule.reference && <p className="lint-findings-reference">{selectedRule.reference}</p>}
+        </div>
+      )}
+      {findings.length > 0 && (
+        <ul className="lint-findings-list">
+          {findings.map(rule => (
+            <li key={rule.id} title={[rule.replacement, rule.reason, rule.reference].filter(Boolean).join(' · ')}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={analysisController.isLabelVisible(LINT_KIND, rule.id)}
+                  onChange={(e) => analysisController.setLabelVisible(LINT_KIND, rule.id, e.target.checked)}
+                />
+                <span className="lint-findings-keyword">{rule.keyword}</span>
+                <span className="lint-findings-count">{counts[rule.id]}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LintFindings;
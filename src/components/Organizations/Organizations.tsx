@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import {
+  analysisController,
+  viewerNavigation,
+  parseOrganizationList,
+  createOrganizationAnalyzer,
+  groupByAcronym,
+  ORGANIZATION_KIND,
+  Organization
+} from '../../modules';
+import csvService from '../../services/csvService';
+import './Organizations.css';
+
+// Organization list shipped in public/data
+const DEFAULT_ORGANIZATIONS_URL = 'data/URML-orgs.csv';
+
+interface CitedOrganization {
+  acronym: string;
+  count: number;
+  pages: number[];
+}
+
+/**
+ * Organizations cited: loads the organization list, shows full names on hover over acronyms in the viewer
+ * and summarizes each organization mentioned in the document with the pages where it appears
+ */
+const Organizations: React.FC = () => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [listName, setListName] = useState<string | null>(null);
+  const [cited, setCited] = useState<CitedOrganization[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = analysisController.subscribe(() => {
+      setCited(groupMentions());
+    });
+    return unsubscribe;
+  }, []);
+
+  const applyOrganizations = (name: string, newOrganizations: Organization[]) => {
+    if (newOrganizations.length === 0) {
+      setError(`${name} contains no organizations (expected columns: Org_ID, Org_Acronym, Org_Name, Org_Full_Name)`);
+      return;
+    }
+    setError(null);
+    setListName(name);
+    setOrganizations(newOrganizations);
+    analysisController.registerAnalyzer(createOrganizationAnalyzer(newOrganizations));
+  };
+
+  const loadDefaultOrganizations = async () => {
+    try {
+      const rows = await csvService.load(DEFAULT_ORGANIZATIONS_URL);
+      applyOrganizations('URML-orgs.csv', parseOrganizationList(rows));
+    } catch (err) {
+      console.error('Failed to load organization list:', err);
+      setError(`Failed to load organization list: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = await csvService.loadFile(file);
+      applyOrganizations(file.name, parseOrganizationList(rows));
+    } catch (err) {
+      console.error('Failed to load organization list:', err);
+      setError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const clearOrganizations = () => {
+    setError(null);
+    setListName(null);
+    setOrganizations([]);
+    analysisController.unregisterAnalyzer(ORGANIZATION_KIND);
+  };
+
+  const namesByAcronym = groupByAcronym(organizations);
+
+  return (
+    <div className="organizations">
+      <h4>Organizations cited</h4>
+      <div className="organizations-actions">
+        <button onClick={loadDefaultOrganizations}>Load URML orgs</button>
+        <label className="organizations-upload">
+          Upload CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+        </label>
+        {listName && <button onClick={clearOrganizations}>Clear</button>}
+      </div>
+      {error && <p className="organizations-error">{error}</p>}
+      {listName && (
+        <p className="organizations-name">{listName} · {organizations.length} organizations · {cited.length} cited</p>
+      )}
+      {cited.length > 0 && (
+        <ul className="organizations-list">
+          {cited.map(({ acronym, count, pages }) => {
+            const names = (namesByAcronym.get(acronym) || []).map(organization => organization.name || organization.fullName);
+            return (
+              <li key={acronym} title={names.join('\n')}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={analysisController.isLabelVisible(ORGANIZATION_KIND, acronym)}
+                    onChange={(e) => analysisController.setLabelVisible(ORGANIZATION_KIND, acronym, e.target.checked)}
+                  />
+                  <span className="organizations-acronym">{acronym}</span>
+                  <span className="organizations-full">{names.join(' / ')}</span>
+                  <span className="organizations-count">{count}</span>
+                </label>
+                <span className="organizations-pages">
+                  {pages.map(page => (
+                    <button key={page} onClick={() => viewerNavigation.goToPage(page)}>p. {page}</button>
+                  ))}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Group organization mentions by acronym with their count and pages, alphabetically
+ */
+function groupMentions(): CitedOrganization[] {
+  const groups = new Map<string, CitedOrganization>();
+
+  for (const annotation of analysisController.getAnnotations(ORGANIZATION_KIND)) {
+    const group = groups.get(annotation.label) || { acronym: annotation.label, count: 0, pages: [] };
+    group.count++;
+    if (!group.pages.includes(annotation.page)) {
+      group.pages.push(annotation.page);
+    }
+    groups.set(annotation.label, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.acronym.localeCompare(b.acronym));
+}
+
+export default Organizations;
@@ -5,7 +5,8 @@ import './PDFViewer.css';
 
 import SearchBar from '../SearchBar/SearchBar';
 import TextLayer from '../TextLayer/TextLayer';
-import { calculateFitWidth, calculateFitPage, Viewport } from '../../modules';
+import ResultsPanel from '../ResultsPanel/ResultsPanel';
+import { calculateFitWidth, calculateFitPage, searchController, viewerNavigation, Viewport } from '../../modules';
 
 interface PDFViewerProps {
   file: File;
@@ -17,8 +18,11 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const textLayerRef = useRef<HTMLDivElement>(null);
   const hlLayerRef = useRef<HTMLDivElement>(null);
+  const annotationLayerRef = useRef<HTMLDivElement>(null);
+  const viewerContainerRef = useRef<HTMLDivElement>(null);
   const [pageCount, setPageCount] = useState(0);
-  const [currentPage, setCurrentPage] = useState(1);
+  // The current page lives in viewerNavigation so the search controller can change pages
+  const [currentPage, setCurrentPageState] = useState(() => viewerNavigation.getCurrentPage());
   const [scale, setScale] = useState(1.0);
   const [currentViewport, setCurrentViewport] = useState<Viewport | null>(null);
   const [isDocumentLoaded, setIsDocumentLoaded] = useState(false);
@@ -26,14 +30,17 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
   const [error, setError] = useState<string | null>(null); // 🔥 ERROR HANDLING: Add error state
   const [isLoading, setIsLoading] = useState(false); // 🔥 LOADING STATES: Add loading indicator
   const [isRendering, setIsRendering] = useState(false); // 🔥 LOADING STATES: Add rendering indicator
+  const [pageMatchCounts, setPageMatchCounts] = useState<Record<number, number>>({});
 
   const loadDocument = useCallback(async () => {
     try {
       const pdf = await pdfService.loadDocument(file);
       setPdfDoc(pdf);
       setPageCount(pdf.numPages);
-      setCurrentPage(1);
+      viewerNavigation.setDocument(pdf.numPages);
       setIsDocumentLoaded(true);
+      // Index every page's text for document-wide search counts (in the search worker)
+      void searchController.setDocument(pdf, file);
     } catch (err) {
       console.error('Failed to load PDF:', err);
       setError(`Failed to load PDF: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -60,6 +67,30 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
     initiateLoad();
   };
 
+  // Follow page changes from the thumbnails, controls and search navigation
+  useEffect(() => {
+    const unsubscribe = viewerNavigation.subscribe((state) => {
+      setCurrentPageState(state.currentPage);
+    });
+    return unsubscribe;
+  }, []);
+
+  // Let the navigation state scroll the viewer (e.g. to center the active match)
+  useEffect(() => {
+    viewerNavigation.attach(viewerContainerRef.current, pageElRef.current);
+    return () => viewerNavigation.attach(null, null);
+  }, [isDocumentLoaded]);
+
+  const setCurrentPage = (page: number) => viewerNavigation.goToPage(page);
+
+  // Track document-wide match counts per page for the thumbnail list
+  useEffect(() => {
+    const unsubscribe = searchController.subscribe((stats) => {
+      setPageMatchCounts(stats.pageCounts);
+    });
+    return unsubscribe;
+  }, []);
+
   // Render page when currentPage or scale changes - only after document is loaded
   useEffect(() => {
     if (!isDocumentLoaded || !pdfDoc) return;
@@ -81,8 +112,9 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
         const canvas = canvasRef.current;
         const textLayerEl = textLayerRef.current;
         const hlLayerEl = hlLayerRef.current;
+        const annotationLayerEl = annotationLayerRef.current;
         
-        if (!pageEl || !canvas || !textLayerEl || !hlLayerEl) return;
+        if (!pageEl || !canvas || !textLayerEl || !hlLayerEl || !annotationLayerEl) return;
         
         // Set page wrapper dimensions to match viewport
         pageEl.style.position = 'relative';
@@ -118,12 +150,13 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
         if (cancelled) return;
         
         // Store the current viewport for use by child components
-        setCurrentViewport({
+        const renderedViewport: Viewport = {
           width: viewport.width,
           height: viewport.height,
           scale: viewport.scale,
           rotation: (rotation as 0 | 90 | 180 | 270) || 0
-        });
+        };
+        setCurrentViewport(renderedViewport);
         
         // Set up text layer positioning
         textLayerEl.style.position = 'absolute';
@@ -138,6 +171,15 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
         hlLayerEl.style.top = '0';
         hlLayerEl.style.width = `${viewport.width}px`;
         hlLayerEl.style.height = `${viewport.height}px`;
+
+        // Set up annotation layer positioning
+        annotationLayerEl.style.position = 'absolute';
+        annotationLayerEl.style.left = '0';
+        annotationLayerEl.style.top = '0';
+        annotationLayerEl.style.width = `${viewport.width}px`;
+        annotationLayerEl.style.height = `${viewport.height}px`;
+
+        viewerNavigation.setPageRendered(currentPage, renderedViewport);
         
       } catch (err: any) {
         if (cancelled) return;
@@ -166,6 +208,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
   useEffect(() => {
     const textLayerEl = textLayerRef.current;
     const hlLayerEl = hlLayerRef.current;
+    const annotationLayerEl = annotationLayerRef.current;
     const opacityValue = overlayOpacity / 100;
 
     if (textLayerEl) {
@@ -175,6 +218,10 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
     if (hlLayerEl) {
       hlLayerEl.style.opacity = `${opacityValue}`;
     }
+
+    if (annotationLayerEl) {
+      annotationLayerEl.style.opacity = `${opacityValue}`;
+    }
   }, [overlayOpacity, currentPage, isDocumentLoaded]);
 
   const goPrev = () => { if (currentPage > 1) setCurrentPage(currentPage - 1); };
@@ -266,6 +313,11 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
                   onClick={() => setCurrentPage(page)}
                 >
                   {page}
+                  {pageMatchCounts[page] > 0 && (
+                    <span className="page-match-count" title={`${pageMatchCounts[page]} matches`}>
+                      {pageMatchCounts[page]}
+                    </span>
+                  )}
                 </button>
               </li>
             ))
@@ -276,7 +328,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
       </nav>
       <div className="pdf-main">
         {/* Search bar for text */}
-        <SearchBar />
+        <SearchBar currentPage={currentPage} />
         <div className="controls">
           <button onClick={goPrev} disabled={currentPage <= 1}>Previous</button>
           <span>{currentPage} / {pageCount}</span>
@@ -286,7 +338,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
           <button onClick={fitToWidth}>Fit Width</button>
           <button onClick={fitToPage}>Fit Page</button>
         </div>
-        <div className="viewer-container">
+        <div className="viewer-container" ref={viewerContainerRef}>
           {isRendering && (
             <div className="rendering-overlay"><p>Rendering page...</p></div>
           )}
@@ -294,6 +346,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
             <canvas ref={canvasRef} className="pdf-canvas"></canvas>
             <div className="textLayer" data-page={currentPage} ref={textLayerRef}></div>
             <div className="highlightLayer" data-page={currentPage} ref={hlLayerRef}></div>
+            <div className="annotation-layer" data-page={currentPage} ref={annotationLayerRef}></div>
             {pdfDoc && currentViewport && (
               <>
                 <TextLayer 
@@ -302,12 +355,14 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, overlayOpacity }) => {
                   viewport={currentViewport}
                   textLayerRef={textLayerRef}
                   highlightLayerRef={hlLayerRef}
+                  annotationLayerRef={annotationLayerRef}
                 />
               </>
             )}
           </div>
         </div>
       </div>
+      {isDocumentLoaded && <ResultsPanel />}
     </div>
   );
 };
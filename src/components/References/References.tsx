@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import {
+  analysisController,
+  viewerNavigation,
+  parseReferenceList,
+  parseMasterReferenceXml,
+  normalizeRid,
+  referenceCatalog,
+  createReferenceAnalyzer,
+  REFERENCE_KIND,
+  REFERENCE_LABELS,
+  ReferenceEntry
+} from '../../modules';
+import csvService, { CsvRow } from '../../services/csvService';
+import xmlService from '../../services/xmlService';
+import './References.css';
+
+// Unified Master Reference List and SpecsIntact master reference list shipped in public/data
+const DEFAULT_CATALOG_URL = 'data/URML.csv';
+const DEFAULT_EDITIONS_URL = 'data/MASTER.REF.XML';
+
+interface CitationGroup {
+  text: string;
+  label: string;
+  pages: number[];
+}
+
+/**
+ * Reference citations: loads the master reference lists, highlights resolved, outdated, withdrawn and
+ * unresolved citations and lists the problem ones (typos, unknown standards, old editions) with links to their pages
+ * Lists loaded one after another are merged, so URML.csv can be combined with the editions of MASTER.REF.XML
+ */
+const References: React.FC = () => {
+  const [sourceNames, setSourceNames] = useState<string[]>([]);
+  const [catalogSize, setCatalogSize] = useState(referenceCatalog.size);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [problems, setProblems] = useState<CitationGroup[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = analysisController.subscribe(() => {
+      setCounts(analysisController.getLabelCounts(REFERENCE_KIND));
+      setProblems(groupProblemCitations());
+    });
+    return unsubscribe;
+  }, []);
+
+  const addToCatalog = (name: string, entries: ReferenceEntry[], expected: string) => {
+    if (entries.length === 0) {
+      setError(`${name} contains no references (expected ${expected})`);
+      return;
+    }
+    referenceCatalog.addEntries(entries);
+
+    setError(null);
+    setSourceNames(names => names.includes(name) ? names : [...names, name]);
+    setCatalogSize(referenceCatalog.size);
+    analysisController.registerAnalyzer(createReferenceAnalyzer(referenceCatalog));
+  };
+
+  const addReferenceList = (name: string, rows: CsvRow[]) => {
+    addToCatalog(name, parseReferenceList(rows), 'columns: RID, Title, Org_Acronym, Org_Name, Org_ID, Spec_References');
+  };
+
+  const addMasterReferenceXml = (name: string, doc: Document) => {
+    addToCatalog(name, parseMasterReferenceXml(doc), '<REF> elements with <RID> and <RTL>');
+  };
+
+  const loadDefaultCatalog = async () => {
+    try {
+      addReferenceList('URML.csv', await csvService.load(DEFAULT_CATALOG_URL));
+    } catch (err) {
+      console.error('Failed to load master reference list:', err);
+      setError(`Failed to load master reference list: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const loadDefaultEditions = async () => {
+    try {
+      addMasterReferenceXml('MASTER.REF.XML', await xmlService.load(DEFAULT_EDITIONS_URL));
+    } catch (err) {
+      console.error('Failed to load reference editions:', err);
+      setError(`Failed to load reference editions: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      if (/\.xml$/i.test(file.name)) {
+        addMasterReferenceXml(file.name, await xmlService.loadFile(file));
+      } else {
+        addReferenceList(file.name, await csvService.loadFile(file));
+      }
+    } catch (err) {
+      console.error('Failed to load reference list:', err);
+      setError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const clearCatalog = () => {
+    referenceCatalog.clear();
+    setError(null);
+    setSourceNames([]);
+    setCatalogSize(0);
+    analysisController.unregisterAnalyzer(REFERENCE_KIND);
+  };
+
+  return (
+    <div className="references">
+      <h4>References</h4>
+      <div className="references-actions">
+        <button onClick={loadDefaultCatalog}>Load URML</button>
+        <button onClick={loadDefaultEditions}>Load MASTER.REF</button>
+        <label className="references-upload">
+          Upload CSV/XML
+          <input type="file" accept=".csv,text/csv,.xml,text/xml,application/xml" onChange={handleFileChange} />
+        </label>
+        {sourceNames.length > 0 && <button onClick={clearCatalog}>Clear</button>}
+      </div>
+      {error && <p className="references-error">{error}</p>}
+      {sourceNames.length > 0 && (
+        <>
+          <p className="references-name">{sourceNames.join(' + ')} · {catalogSize} references</p>
+          <ul className="references-legend">
+            {REFERENCE_LABELS.map(({ label, title, color }) => (
+              <li key={label}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={analysisController.isLabelVisible(REFERENCE_KIND, label)}
+                    onChange={(e) => analysisController.setLabelVisible(REFERENCE_KIND, label, e.target.checked)}
+                  />
+                  <span className="references-swatch" style={{ background: color }} />
+                  <span className="references-title">{title}</span>
+                  <span className="references-count">{counts[label] || 0}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {problems.length > 0 && (
+        <>
+          <h5>Citations to check</h5>
+          <ul className="references-unresolved">
+            {problems.map(({ text, label, pages }) => (
+              <li key={`${label}:${text}`}>
+                <span
+                  className="references-swatch"
+                  style={{ background: REFERENCE_LABELS.find(info => info.label === label)?.color }}
+                  title={REFERENCE_LABELS.find(info => info.label === label)?.title}
+                />
+                <span className="references-citation">{text}</span>
+                <span className="references-pages">
+                  {pages.map(page => (
+                    <button key={page} onClick={() => viewerNavigation.goToPage(page)}>p. {page}</button>
+                  ))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Group unresolved, withdrawn and outdated citations by label and normalized text, with the pages each appears on
+ */
+function groupProblemCitations(): CitationGroup[] {
+  const groups = new Map<string, CitationGroup>();
+
+  for (const annotation of analysisController.getAnnotations(REFERENCE_KIND)) {
+    if (annotation.label === 'resolved') continue;
+
+    const text = normalizeRid(annotation.text);
+    const key = `${annotation.label}:${text}`;
+    const group = groups.get(key) || { text, label: annotation.label, pages: [] };
+    if (!group.pages.includes(annotation.page)) {
+      group.pages.push(annotation.page);
+    }
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.text.localeCompare(b.text));
+}
+
+export default References;
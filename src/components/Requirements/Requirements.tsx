@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { analysisController, DEONTIC_LABELS, REQUIREMENT_KIND } from '../../modules';
+import './Requirements.css';
+
+/**
+ * Legend of classified requirement sentences with document-wide counts
+ * Each label can be shown or hidden in the viewer
+ */
+const Requirements: React.FC = () => {
+  const [counts, setCounts] = useState<Record<string, number>>(() => analysisController.getLabelCounts(REQUIREMENT_KIND));
+  const [, setVersion] = useState(0);
+
+  // Counts change when a document is analyzed; visibility when a label is toggled
+  useEffect(() => {
+    const unsubscribe = analysisController.subscribe(() => {
+      setCounts(analysisController.getLabelCounts(REQUIREMENT_KIND));
+      setVersion(version => version + 1);
+    });
+    return unsubscribe;
+  }, []);
+
+  return (
+    <div className="requirements">
+      <h4>Requirements</h4>
+      <ul className="requirements-legend">
+        {DEONTIC_LABELS.map(({ label, title, color }) => (
+          <li key={label}>
+            <label>
+              <input
+                type="checkbox"
+                checked={analysisController.isLabelVisible(REQUIREMENT_KIND, label)}
+                onChange={(e) => analysisController.setLabelVisible(REQUIREMENT_KIND, label, e.target.checked)}
+              />
+              <span className="requirements-swatch" style={{ background: color }} />
+              <span className="requirements-title">{title}</span>
+              <span className="requirements-count">{counts[label] || 0}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default Requirements;
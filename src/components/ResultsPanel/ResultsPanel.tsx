@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  searchController,
+  textIndex,
+  buildHitSnippet,
+  groupSearchHits,
+  SearchHit,
+  HitGrouping,
+  SearchStats
+} from '../../modules';
+import './ResultsPanel.css';
+
+// Every row (group header or hit) has the same height so the list can be virtualized
+const ROW_HEIGHT = 48;
+// Rows rendered above and below the visible window
+const OVERSCAN_ROWS = 6;
+
+type ResultRow =
+  | { kind: 'group'; key: string; label: string; count: number }
+  | { kind: 'hit'; key: string; hit: SearchHit };
+
+/**
+ * Results panel listing every document-wide hit with a snippet
+ * Clicking a hit jumps the viewer to its page and makes it the active match
+ */
+const ResultsPanel: React.FC = () => {
+  const [stats, setStats] = useState<SearchStats>(() => searchController.getSearchStats());
+  const [hits, setHits] = useState<SearchHit[]>(() => searchController.getSearchHits());
+  const [grouping, setGrouping] = useState<HitGrouping>('page');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Subscribe to search changes
+  useEffect(() => {
+    const unsubscribe = searchController.subscribe((newStats) => {
+      setStats(newStats);
+      setHits(searchController.getSearchHits());
+    });
+    return unsubscribe;
+  }, []);
+
+  // Track the list height so only visible rows are rendered
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const updateHeight = () => setViewportHeight(list.clientHeight);
+    updateHeight();
+
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(updateHeight);
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  const rows = useMemo<ResultRow[]>(() => {
+    const result: ResultRow[] = [];
+    for (const group of groupSearchHits(hits, grouping)) {
+      result.push({ kind: 'group', key: group.key, label: group.label, count: group.hits.length });
+      for (const hit of group.hits) {
+        result.push({ kind: 'hit', key: `${group.key}_${hit.order}`, hit });
+      }
+    }
+    return result;
+  }, [hits, grouping]);
+
+  // Keep the active hit in view when it changes (e.g. via Next/Prev)
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || stats.activeIndex < 0) return;
+
+    const rowIndex = rows.findIndex(row => row.kind === 'hit' && row.hit.order === stats.activeIndex);
+    if (rowIndex < 0) return;
+
+    const rowTop = rowIndex * ROW_HEIGHT;
+    if (rowTop < list.scrollTop || rowTop + ROW_HEIGHT > list.scrollTop + list.clientHeight) {
+      list.scrollTop = rowTop - (list.clientHeight - ROW_HEIGHT) / 2;
+    }
+  }, [stats.activeIndex, rows]);
+
+  // The controller moves the viewer to the hit's page and centers it
+  const handleSelect = (hit: SearchHit) => {
+    searchController.activateMatch(hit.order);
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleRows = rows.slice(firstRow, lastRow);
+
+  const renderRow = (row: ResultRow, index: number) => {
+    const style: React.CSSProperties = { top: index * ROW_HEIGHT, height: ROW_HEIGHT };
+
+    if (row.kind === 'group') {
+      return (
+        <div key={row.key} className="results-row results-group" style={style}>
+          <span>{row.label}</span>
+          <span className="results-group-count">{row.count}</span>
+        </div>
+      );
+    }
+
+    const { hit } = row;
+    const pageText = textIndex.getPageText(hit.page) || '';
+    const snippet = buildHitSnippet(pageText, hit.startIndex, hit.endIndex);
+    const isActive = hit.order === stats.activeIndex;
+
+    return (
+      <button
+        key={row.key}
+        className={`results-row results-hit${isActive ? ' active' : ''}`}
+        style={style}
+        onClick={() => handleSelect(hit)}
+        title={`${hit.termText} (${hit.category})`}
+      >
+        <span className="results-hit-meta">
+          <span
+            className="results-hit-swatch"
+            style={{ background: hit.color || undefined }}
+          />
+          {grouping === 'page' ? hit.category || hit.termText : `p. ${hit.page}`}
+          {hit.score !== undefined && hit.score < 1 && (
+            <span className="results-hit-score" title="Similarity of an approximate match">
+              ≈{Math.round(hit.score * 100)}%
+            </span>
+          )}
+          <span className="results-hit-term">{hit.termId}</span>
+        </span>
+        <span className="results-hit-snippet">
+          {snippet.before}<mark>{snippet.match}</mark>{snippet.after}
+        </span>
+      </button>
+    );
+  };
+
+  const isIndexing = stats.indexProgress.status === 'indexing';
+
+  return (
+    <aside className="results-panel">
+      <div className="results-header">
+        <h4>Results{hits.length > 0 && ` (${hits.length})`}</h4>
+        <div className="results-grouping" role="group" aria-label="Group results by">
+          <button
+            className={grouping === 'page' ? 'active' : ''}
+            aria-pressed={grouping === 'page'}
+            onClick={() => setGrouping('page')}
+          >
+            Page
+          </button>
+          <button
+            className={grouping === 'term' ? 'active' : ''}
+            aria-pressed={grouping === 'term'}
+            onClick={() => setGrouping('term')}
+          >
+            Term
+          </button>
+        </div>
+      </div>
+      <div
+        className="results-list"
+        ref={listRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        {rows.length === 0 ? (
+          <p className="results-empty">
+            {isIndexing ? 'Searching…' : searchController.hasSearchTerms() ? 'No matches' : 'Enter a search or load a keyword profile'}
+          </p>
+        ) : (
+          <div className="results-spacer" style={{ height: rows.length * ROW_HEIGHT }}>
+            {visibleRows.map((row, i) => renderRow(row, firstRow + i))}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default ResultsPanel;
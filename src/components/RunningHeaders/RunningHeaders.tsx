@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  analysisController,
+  searchController,
+  textIndex,
+  viewerNavigation,
+  detectDocumentDesignation,
+  createPageLayout,
+  findTitlePageInfo,
+  checkRunningHeaders,
+  getExpectedBandRegions,
+  createRunningHeaderAnalyzer,
+  RUNNING_HEADER_KIND,
+  RUNNING_HEADER_LABELS,
+  EXPECTED_BAND_LABEL,
+  PageLayout
+} from '../../modules';
+import pdfService from '../../services/pdfService';
+import './RunningHeaders.css';
+
+interface RunningHeadersProps {
+  file: File;
+}
+
+/**
+ * Running header and footer check (writing standards 5.2) for UFCs: lists pages whose designation,
+ * publication date or page number is missing, differs from the title page or is out of place,
+ * and paints the band where it belongs on those pages
+ */
+const RunningHeaders: React.FC<RunningHeadersProps> = ({ file }) => {
+  const [pageTexts, setPageTexts] = useState<string[] | null>(null);
+  const [loaded, setLoaded] = useState<{ file: File; layouts: PageLayout[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      const progress = textIndex.getProgress();
+      if (progress.status === 'ready') {
+        setPageTexts(textIndex.getPageTexts());
+      } else if (progress.status === 'indexing') {
+        setPageTexts(null);
+      }
+    };
+    update();
+    return textIndex.subscribe(update);
+  }, []);
+
+  // Only UFCs carry the running header
+  const designation = useMemo(() => pageTexts ? detectDocumentDesignation(pageTexts) : null, [pageTexts]);
+
+  // Read text positions and page sizes, which the text index does not keep, from the open document
+  useEffect(() => {
+    setError(null);
+    if (!designation) return;
+
+    const pdfDoc = searchController.getDocument(file);
+    if (!pdfDoc) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const layouts: PageLayout[] = [];
+      for (let page = 1; page <= pdfDoc.numPages; page++) {
+        if (cancelled) return;
+        const [size, items] = await Promise.all([
+          pdfService.getPageSize(pdfDoc, page),
+          pdfService.extractText(pdfDoc, page)
+        ]);
+        layouts.push(createPageLayout(page, size, items));
+      }
+      if (!cancelled) setLoaded({ file, layouts });
+    };
+
+    load().catch(err => {
+      console.error('Failed to read page layout:', err);
+      if (!cancelled) setError(`Failed to read page layout: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    });
+    return () => { cancelled = true; };
+  }, [file, designation]);
+
+  const layouts = designation && loaded?.file === file ? loaded.layouts : null;
+  const titleInfo = useMemo(() => pageTexts ? findTitlePageInfo(pageTexts[0] || '') : null, [pageTexts]);
+  const issues = useMemo(
+    () => layouts && titleInfo ? checkRunningHeaders(layouts, titleInfo) : null,
+    [layouts, titleInfo]
+  );
+
+  // Annotate the offending text and paint the expected bands
+  useEffect(() => {
+    if (!layouts || !issues) return;
+
+    analysisController.registerAnalyzer(createRunningHeaderAnalyzer(issues));
+    analysisController.setRegions(RUNNING_HEADER_KIND, getExpectedBandRegions(layouts, issues));
+    return () => {
+      analysisController.unregisterAnalyzer(RUNNING_HEADER_KIND);
+      analysisController.setRegions(RUNNING_HEADER_KIND, {});
+    };
+  }, [layouts, issues]);
+
+  // Re-render when a label is shown or hidden
+  const [, setVersion] = useState(0);
+  useEffect(() => analysisController.subscribe(() => setVersion(version => version + 1)), []);
+
+  if (!designation) return null;
+
+  const counts: Record<string, number> = {};
+  issues?.forEach(issue => { counts[issue.label] = (counts[issue.label] || 0) + 1; });
+  counts[EXPECTED_BAND_LABEL] = new Set(issues?.map(issue => issue.page)).size;
+
+  const pages = new Map<number, string[]>();
+  issues?.forEach(issue => pages.set(issue.page, [...(pages.get(issue.page) || []), issue.message]));
+
+  return (
+    <div className="running-headers">
+      <h4>Running headers</h4>
+      {error && <div className="running-headers-error">{error}</div>}
+      <p className="running-headers-note">
+        {!issues
+          ? 'Reading page layout…'
+          : `${titleInfo?.designation || designation}${titleInfo?.date ? `, ${titleInfo.date}` : ''} on the title page; ` +
+            (pages.size > 0 ? `${pages.size} of ${layouts!.length - 1} pages need attention` : 'every page carries the running header and footer')}
+      </p>
+      {issues && (
+        <ul className="running-headers-legend">
+          {RUNNING_HEADER_LABELS.map(({ label, title, color }) => (
+            <li key={label}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={analysisController.isLabelVisible(RUNNING_HEADER_KIND, label)}
+                  onChange={(e) => analysisController.setLabelVisible(RUNNING_HEADER_KIND, label, e.target.checked)}
+                />
+                <span className="running-headers-swatch" style={{ background: color }} />
+                <span className="running-headers-title">{title}</span>
+                <span className="running-headers-count">{counts[label] || 0}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+      {pages.size > 0 && (
+        <ul className="running-headers-pages">
+          {Array.from(pages, ([page, messages]) => (
+            <li key={page}>
+              <button onClick={() => viewerNavigation.goToPage(page)}>p. {page}</button>
+              <span>{messages.join('; ')}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RunningHeaders;
@@ -1,18 +1,34 @@
 import React, { useState, useEffect } from 'react';
-import { searchController } from '../../modules';
+import { searchController, SearchOptions, SearchStats } from '../../modules';
 import './SearchBar.css';
 
+// Search options that are on/off toggles
+type ToggleOption = Exclude<keyof SearchOptions, 'maxEdits'>;
+
+// Toggle buttons for the search options, in display order
+const OPTION_TOGGLES: Array<{ key: ToggleOption; label: string; title: string }> = [
+  { key: 'caseSensitive', label: 'Aa', title: 'Match case' },
+  { key: 'wholeWord', label: 'ab', title: 'Match whole word' },
+  { key: 'diacriticInsensitive', label: 'ä=a', title: 'Ignore accents (diacritics)' },
+  { key: 'regex', label: '.*', title: 'Use regular expression' },
+  { key: 'queryLanguage', label: '&|', title: 'Boolean query: AND, OR, NOT, NEAR/n, "phrases", SENTENCE(...), PARAGRAPH(...)' },
+  { key: 'fuzzy', label: '≈', title: 'Approximate match (tolerates broken words and OCR errors)' }
+];
+
+// Edit distances offered for approximate matching
+const MAX_EDIT_CHOICES = [1, 2, 3];
+
+interface SearchBarProps {
+  currentPage?: number;
+}
+
 /**
  * Clean SearchBar component using the refactored modules
  * Uses searchController for all search operations and navigation
  */
-const SearchBar: React.FC = () => {
+const SearchBar: React.FC<SearchBarProps> = ({ currentPage }) => {
   const [inputValue, setInputValue] = useState('');
-  const [stats, setStats] = useState({ 
-    totalMatches: 0, 
-    activeIndex: -1, 
-    query: '' 
-  });
+  const [stats, setStats] = useState<SearchStats>(() => searchController.getSearchStats());
 
   // Subscribe to search controller state changes
   useEffect(() => {
@@ -54,17 +70,52 @@ const SearchBar: React.FC = () => {
     searchController.nextMatch();
   };
 
+  const toggleOption = (key: ToggleOption) => {
+    searchController.setSearchOptions({ ...stats.options, [key]: !stats.options[key] });
+  };
+
   // Debug logging for search state
   console.log(`SearchBar: Query: "${stats.query}", Total: ${stats.totalMatches}, ActiveIndex: ${stats.activeIndex}`);
 
+  const { indexProgress } = stats;
+  const isIndexing = indexProgress.status === 'indexing';
+  const pageMatchCount = currentPage !== undefined ? stats.pageCounts[currentPage] || 0 : null;
+
   return (
     <div className="search-bar">
       <input
         type="text"
-        placeholder="Search text..."
+        placeholder={stats.options.queryLanguage ? 'e.g. "shall not" AND (install OR provide)' : 'Search text...'}
         value={inputValue}
         onChange={handleChange}
+        aria-invalid={stats.error ? true : undefined}
+        className={stats.error ? 'search-input-invalid' : undefined}
       />
+      <div className="search-options" role="group" aria-label="Search options">
+        {OPTION_TOGGLES.map(({ key, label, title }) => (
+          <button
+            key={key}
+            className={stats.options[key] ? 'search-option active' : 'search-option'}
+            title={title}
+            aria-pressed={stats.options[key]}
+            onClick={() => toggleOption(key)}
+          >
+            {label}
+          </button>
+        ))}
+        {stats.options.fuzzy && (
+          <select
+            className="search-option-edits"
+            title="Edits allowed per match"
+            value={stats.options.maxEdits}
+            onChange={(e) => searchController.setSearchOptions({ ...stats.options, maxEdits: Number(e.target.value) })}
+          >
+            {MAX_EDIT_CHOICES.map(edits => (
+              <option key={edits} value={edits}>≤{edits} edit{edits > 1 ? 's' : ''}</option>
+            ))}
+          </select>
+        )}
+      </div>
       <button onClick={handlePrevious} disabled={stats.totalMatches === 0}>
         Previous
       </button>
@@ -76,6 +127,17 @@ const SearchBar: React.FC = () => {
       <button onClick={handleNext} disabled={stats.totalMatches === 0}>
         Next
       </button>
+      {pageMatchCount !== null && stats.totalMatches > 0 && (
+        <span className="search-page-count">{pageMatchCount} on this page</span>
+      )}
+      {isIndexing && (
+        <span className="search-index-status">
+          Indexing {indexProgress.indexedPages}/{indexProgress.pageCount} pages…
+        </span>
+      )}
+      {stats.error && (
+        <span className="search-error" role="alert">{stats.error}</span>
+      )}
     </div>
   );
 };
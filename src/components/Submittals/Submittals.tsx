@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import {
+  analysisController,
+  textIndex,
+  viewerNavigation,
+  extractSubmittalRegister,
+  toSubmittalCsvRows,
+  SUBMITTAL_KIND,
+  SUBMITTAL_LABELS,
+  SubmittalRegister
+} from '../../modules';
+import exportService from '../../services/exportService';
+import './Submittals.css';
+
+interface SubmittalsProps {
+  fileName: string;
+}
+
+/**
+ * Where the items were listed: "1.3 SUBMITTALS", or the number of sections with a SUBMITTALS article
+ */
+function formatArticles(articles: SubmittalRegister['articles']): string {
+  return articles.length === 1 ? `${articles[0].number} SUBMITTALS` : `the SUBMITTALS articles of ${articles.length} sections`;
+}
+
+/**
+ * Submittal register extracted from the SUBMITTALS article, with CSV export, and the
+ * submittals coordination check (writing standards 5.15) between the list and the text
+ */
+const Submittals: React.FC<SubmittalsProps> = ({ fileName }) => {
+  const [register, setRegister] = useState<SubmittalRegister | null>(null);
+
+  useEffect(() => {
+    let analyzedTexts: string[] | null = null;
+    const update = () => {
+      const pageTexts = textIndex.getProgress().status === 'ready' ? textIndex.getPageTexts() : null;
+      if (pageTexts === analyzedTexts) return;
+
+      analyzedTexts = pageTexts;
+      setRegister(pageTexts ? extractSubmittalRegister(pageTexts) : null);
+    };
+
+    update();
+    return textIndex.subscribe(update);
+  }, []);
+
+  // Re-render when a label is shown or hidden
+  const [, setVersion] = useState(0);
+  useEffect(() => analysisController.subscribe(() => setVersion(version => version + 1)), []);
+
+  if (!register) return null;
+
+  const unreferenced = register.items.filter(item => item.referencePage === null);
+  const unlisted = register.tags.filter(tag => !tag.listed);
+  const counts: Record<string, number> = { unreferenced: unreferenced.length, unlisted: unlisted.length };
+
+  const exportCsv = () => {
+    const baseName = fileName.replace(/\.pdf$/i, '');
+    exportService.download(`${baseName}-submittals.csv`, exportService.toCsv(toSubmittalCsvRows(register)), 'text/csv');
+  };
+
+  return (
+    <div className="submittals">
+      <h4>Submittal register</h4>
+      <p className="submittals-note">
+        {register.articles.length > 0
+          ? `${register.items.length} items in ${formatArticles(register.articles)}, ${register.items.filter(item => item.governmentApproval).length} for Government approval`
+          : 'No SUBMITTALS article found'}
+      </p>
+      <ul className="submittals-legend">
+        {SUBMITTAL_LABELS.map(({ label, title, color }) => (
+          <li key={label}>
+            <label>
+              <input
+                type="checkbox"
+                checked={analysisController.isLabelVisible(SUBMITTAL_KIND, label)}
+                onChange={(e) => analysisController.setLabelVisible(SUBMITTAL_KIND, label, e.target.checked)}
+              />
+              <span className="submittals-swatch" style={{ background: color }} />
+              <span className="submittals-title">{title}</span>
+              <span className="submittals-count">{counts[label] || 0}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {register.items.length > 0 && (
+        <table className="submittals-register">
+          <thead>
+            <tr>
+              <th>SD</th>
+              <th>Item</th>
+              <th>Para.</th>
+              <th>Page</th>
+            </tr>
+          </thead>
+          <tbody>
+            {register.items.map((item, index) => (
+              <tr key={index} className={item.referencePage === null ? 'unreferenced' : undefined}>
+                <td title={[item.section && `Section ${item.section}`, item.categoryTitle].filter(Boolean).join(' · ')}>{item.category}</td>
+                <td title={item.reviewer ? `Reviewer: ${item.reviewer}` : undefined}>
+                  {item.name}
+                  {item.classification && <span className="submittals-classification">{item.classification}</span>}
+                </td>
+                <td>
+                  {item.referencePage !== null ? (
+                    <button onClick={() => viewerNavigation.goToPage(item.referencePage!)}>
+                      {item.paragraph || `p. ${item.referencePage}`}
+                    </button>
+                  ) : '—'}
+                </td>
+                <td>
+                  <button onClick={() => viewerNavigation.goToPage(item.page)}>{item.page}</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {unlisted.length > 0 && (
+        <ul className="submittals-unlisted">
+          {unlisted.map((tag, index) => (
+            <li key={index}>
+              <span>{tag.category} in text, not listed</span>
+              <button onClick={() => viewerNavigation.goToPage(tag.page)}>p. {tag.page}</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {register.items.length > 0 && (
+        <div className="submittals-actions">
+          <button onClick={exportCsv}>Export CSV</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Submittals;
@@ -1,7 +1,8 @@
 import React, { useEffect } from 'react';
-import { searchController, Viewport } from '../../modules';
+import { searchController, analysisController, Viewport } from '../../modules';
 import pdfService from '../../services/pdfService';
 import HighlightLayer from '../HighlightLayer/HighlightLayer';
+import AnnotationLayer from '../AnnotationLayer/AnnotationLayer';
 
 interface TextLayerProps {
   pdfDoc: any;
@@ -9,6 +10,7 @@ interface TextLayerProps {
   viewport: Viewport;
   textLayerRef: React.RefObject<HTMLDivElement | null>;
   highlightLayerRef: React.RefObject<HTMLDivElement | null>;
+  annotationLayerRef: React.RefObject<HTMLDivElement | null>;
 }
 
 /**
@@ -20,7 +22,8 @@ const TextLayer: React.FC<TextLayerProps> = ({
   pageNum,
   viewport,
   textLayerRef,
-  highlightLayerRef
+  highlightLayerRef,
+  annotationLayerRef
 }) => {
   // Render text layer with PDF.js
   useEffect(() => {
@@ -62,63 +65,71 @@ const TextLayer: React.FC<TextLayerProps> = ({
     };
   }, [pdfDoc, pageNum, viewport.scale, textLayerRef]);
 
-  // Process search when text layer is ready and search controller has a query
+  // Process search when the text layer is ready, and again whenever the search changes
+  // Scheduling goes through searchController so stale work is cancelled when a newer search starts
   useEffect(() => {
-    if (!textLayerRef.current || !highlightLayerRef.current) return;
-    
-    const stats = searchController.getSearchStats();
-    if (!stats.query.trim()) return;
-    
-    console.log(`TextLayer: Processing search for page ${pageNum}, query: "${stats.query}"`);
-    
-    // Add a small delay to ensure text layer is fully rendered
-    const timeoutId = setTimeout(() => {
-      if (textLayerRef.current && highlightLayerRef.current) {
-        searchController.processPageSearch(
-          pageNum,
-          stats.query,
-          textLayerRef.current,
-          viewport,
-          highlightLayerRef.current
-        );
-      }
-    }, 100);
-    
-    return () => clearTimeout(timeoutId);
-    
-  }, [pageNum, viewport, textLayerRef, highlightLayerRef]);
+    let cancelScheduled: (() => void) | null = null;
 
-  // Subscribe to search controller changes to trigger processing
-  useEffect(() => {
-    const unsubscribe = searchController.subscribe((stats) => {
+    const schedule = () => {
       if (!textLayerRef.current || !highlightLayerRef.current) return;
-      if (!stats.query.trim()) return;
-      
-      console.log(`TextLayer: Search changed for page ${pageNum}, query: "${stats.query}"`);
-      
-      // Process search when query changes
-      setTimeout(() => {
-        if (textLayerRef.current && highlightLayerRef.current) {
-          searchController.processPageSearch(
-            pageNum,
-            stats.query,
-            textLayerRef.current,
-            viewport,
-            highlightLayerRef.current
-          );
-        }
-      }, 100);
-    });
-    
-    return unsubscribe;
+
+      cancelScheduled?.();
+      cancelScheduled = searchController.schedulePageSearch(
+        pageNum,
+        textLayerRef.current,
+        viewport,
+        highlightLayerRef.current
+      );
+    };
+
+    schedule();
+    const unsubscribe = searchController.subscribe(schedule);
+
+    return () => {
+      unsubscribe();
+      cancelScheduled?.();
+    };
   }, [pageNum, viewport, textLayerRef, highlightLayerRef]);
 
+  // Measure analysis annotations (e.g. requirement sentences) once the text layer is ready,
+  // and again when the document's annotations change
+  useEffect(() => {
+    let cancelScheduled: (() => void) | null = null;
+
+    const schedule = () => {
+      if (!textLayerRef.current || !annotationLayerRef.current) return;
+
+      cancelScheduled?.();
+      cancelScheduled = analysisController.schedulePageAnalysis(
+        pageNum,
+        textLayerRef.current,
+        viewport,
+        annotationLayerRef.current
+      );
+    };
+
+    schedule();
+    const unsubscribe = analysisController.subscribe(schedule);
+
+    return () => {
+      unsubscribe();
+      cancelScheduled?.();
+    };
+  }, [pageNum, viewport, textLayerRef, annotationLayerRef]);
+
   return (
-    <HighlightLayer
-      pageNum={pageNum}
-      viewport={viewport}
-      highlightLayerRef={highlightLayerRef}
-    />
+    <>
+      <HighlightLayer
+        pageNum={pageNum}
+        viewport={viewport}
+        highlightLayerRef={highlightLayerRef}
+      />
+      <AnnotationLayer
+        pageNum={pageNum}
+        viewport={viewport}
+        annotationLayerRef={annotationLayerRef}
+      />
+    </>
   );
 };
 
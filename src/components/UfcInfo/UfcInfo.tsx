@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import {
+  analysisController,
+  textIndex,
+  viewerNavigation,
+  parseUfcMetadata,
+  UfcCatalog,
+  detectDocumentDesignation,
+  createUfcAnalyzer,
+  UFC_KIND,
+  UFC_LABELS
+} from '../../modules';
+import jsonService from '../../services/jsonService';
+import './UfcInfo.css';
+
+// UFC publication metadata shipped in public/data
+const DEFAULT_METADATA_URL = 'data/ufc_published_metadata.json';
+
+interface CitedUfcWarning {
+  designation: string;
+  label: string;
+  detail: string;
+  pages: number[];
+}
+
+/**
+ * Document info card: detects which UFC the open PDF is and shows its publication metadata,
+ * and lists cited UFCs that are archived, rescinded or replaced with links to their pages
+ */
+const UfcInfo: React.FC = () => {
+  const [catalog, setCatalog] = useState<UfcCatalog | null>(null);
+  const [designation, setDesignation] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<CitedUfcWarning[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the metadata once; it describes every published UFC
+  useEffect(() => {
+    let cancelled = false;
+    jsonService.load(DEFAULT_METADATA_URL)
+      .then(data => {
+        if (!cancelled) setCatalog(new UfcCatalog(parseUfcMetadata(data)));
+      })
+      .catch(err => {
+        console.error('Failed to load UFC metadata:', err);
+        if (!cancelled) setError(`Failed to load UFC metadata: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Detect the document's designation once its text is indexed
+  useEffect(() => {
+    const update = () => {
+      const progress = textIndex.getProgress();
+      if (progress.status === 'ready') {
+        setDesignation(detectDocumentDesignation(textIndex.getPageTexts()));
+      } else if (progress.status === 'indexing') {
+        setDesignation(null);
+      }
+    };
+    update();
+    return textIndex.subscribe(update);
+  }, []);
+
+  useEffect(() => {
+    if (!catalog) return;
+    analysisController.registerAnalyzer(createUfcAnalyzer(catalog, designation));
+  }, [catalog, designation]);
+
+  useEffect(() => {
+    const unsubscribe = analysisController.subscribe(() => {
+      setWarnings(groupWarnings());
+    });
+    return () => {
+      unsubscribe();
+      analysisController.unregisterAnalyzer(UFC_KIND);
+    };
+  }, []);
+
+  const record = catalog && designation ? catalog.lookup(designation) : null;
+  const successor = catalog && designation ? catalog.getSuccessor(designation) : null;
+
+  return (
+    <div className="ufc-info">
+      <h4>Document info</h4>
+      {error && <p className="ufc-info-error">{error}</p>}
+      {!designation && <p className="ufc-info-note">No UFC designation detected</p>}
+      {designation && !record && catalog && (
+        <p className="ufc-info-note">{designation} is not in the UFC metadata</p>
+      )}
+      {record && (
+        <dl className="ufc-info-card">
+          <dt>UFC</dt>
+          <dd><strong>{record.designation}</strong> {record.title}</dd>
+          <dt>Status</dt>
+          <dd><span className={`ufc-info-status ufc-info-status-${record.status}`}>{record.status}</span></dd>
+          {record.publishDate && (<><dt>Published</dt><dd>{record.publishDate}</dd></>)}
+          {record.retiredDate && (<><dt>Retired</dt><dd>{record.retiredDate}</dd></>)}
+          {record.pages && (<><dt>Pages</dt><dd>{record.pages}</dd></>)}
+          {successor && (<><dt>Replaced by</dt><dd>{successor}</dd></>)}
+          {(record.downloadLink || record.metadataLink) && (
+            <>
+              <dt>Links</dt>
+              <dd className="ufc-info-links">
+                {record.downloadLink && <a href={record.downloadLink} target="_blank" rel="noreferrer">Download</a>}
+                {record.metadataLink && <a href={record.metadataLink} target="_blank" rel="noreferrer">WBDG page</a>}
+              </dd>
+            </>
+          )}
+        </dl>
+      )}
+      {warnings.length > 0 && (
+        <>
+          <h5>Cited UFCs to update</h5>
+          <ul className="ufc-info-warnings">
+            {warnings.map(({ designation: cited, label, detail, pages }) => (
+              <li key={cited} title={detail}>
+                <span
+                  className="ufc-info-swatch"
+                  style={{ background: UFC_LABELS.find(info => info.label === label)?.color }}
+                />
+                <span className="ufc-info-cited">
+                  {cited} · {detail.split('\n')[1] || label}
+                </span>
+                <span className="ufc-info-pages">
+                  {pages.map(page => (
+                    <button key={page} onClick={() => viewerNavigation.goToPage(page)}>p. {page}</button>
+                  ))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Group flagged UFC citations by designation, with the pages each appears on
+ */
+function groupWarnings(): CitedUfcWarning[] {
+  const groups = new Map<string, CitedUfcWarning>();
+
+  for (const annotation of analysisController.getAnnotations(UFC_KIND)) {
+    const designation = annotation.text.replace(/\s+/g, ' ');
+    const group = groups.get(designation) || { designation, label: annotation.label, detail: annotation.detail || '', pages: [] };
+    if (!group.pages.includes(annotation.page)) {
+      group.pages.push(annotation.page);
+    }
+    groups.set(designation, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.designation.localeCompare(b.designation));
+}
+
+export default UfcInfo;
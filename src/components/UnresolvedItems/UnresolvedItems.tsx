@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import {
+  analysisController,
+  textIndex,
+  viewerNavigation,
+  findUnresolvedItems,
+  UNRESOLVED_KIND,
+  UNRESOLVED_LABELS,
+  UnresolvedItem
+} from '../../modules';
+import './UnresolvedItems.css';
+
+/**
+ * Checklist of unresolved [ option ] brackets and designer notes (writing standards 5.16 and 5.8)
+ * Reviewers tick items off as they resolve them; page links jump to where each item starts
+ */
+const UnresolvedItems: React.FC = () => {
+  const [items, setItems] = useState<UnresolvedItem[]>([]);
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    let analyzedTexts: string[] | null = null;
+    const update = () => {
+      const pageTexts = textIndex.getProgress().status === 'ready' ? textIndex.getPageTexts() : null;
+      if (pageTexts === analyzedTexts) return;
+
+      analyzedTexts = pageTexts;
+      const newItems = pageTexts ? findUnresolvedItems(pageTexts) : [];
+      setItems(newItems);
+      setChecked(new Set());
+      setCounts(newItems.reduce<Record<string, number>>((total, item) => {
+        total[item.label] = (total[item.label] || 0) + 1;
+        return total;
+      }, {}));
+    };
+
+    update();
+    return textIndex.subscribe(update);
+  }, []);
+
+  // Re-render when a label is shown or hidden
+  const [, setVersion] = useState(0);
+  useEffect(() => analysisController.subscribe(() => setVersion(version => version + 1)), []);
+
+  const toggleItem = (index: number) => {
+    setChecked(previous => {
+      const next = new Set(previous);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const colors = Object.fromEntries(UNRESOLVED_LABELS.map(({ label, color }) => [label, color]));
+
+  return (
+    <div className="unresolved-items">
+      <h4>Unresolved items</h4>
+      <ul className="unresolved-items-legend">
+        {UNRESOLVED_LABELS.map(({ label, title, color }) => (
+          <li key={label}>
+            <label>
+              <input
+                type="checkbox"
+                checked={analysisController.isLabelVisible(UNRESOLVED_KIND, label)}
+                onChange={(e) => analysisController.setLabelVisible(UNRESOLVED_KIND, label, e.target.checked)}
+              />
+              <span className="unresolved-items-swatch" style={{ background: color }} />
+              <span className="unresolved-items-title">{title}</span>
+              <span className="unresolved-items-count">{counts[label] || 0}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {items.length > 0 && (
+        <>
+          <p className="unresolved-items-progress">{checked.size} of {items.length} checked</p>
+          <ul className="unresolved-items-checklist">
+            {items.map((item, index) => (
+              <li key={index} className={checked.has(index) ? 'checked' : undefined}>
+                <input
+                  type="checkbox"
+                  checked={checked.has(index)}
+                  onChange={() => toggleItem(index)}
+                  aria-label={`Mark "${item.text}" as resolved`}
+                />
+                <span className="unresolved-items-swatch" style={{ background: colors[item.label] }} />
+                <span className="unresolved-items-text" title={item.text}>{item.text}</span>
+                <button onClick={() => viewerNavigation.goToPage(item.startPage)}>
+                  p. {item.startPage}{item.endPage !== item.startPage ? `–${item.endPage}` : ''}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UnresolvedItems;
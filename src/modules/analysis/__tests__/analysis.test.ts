@@ -0,0 +1,179 @@
+// Unit tests for the document analysis controller
+// Tests analysis of the ready text index, analyzer registration, failing analyzers, document-wide
+// analyzers and refreshing the spans of one analyzer
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { analysisController, DocumentAnalyzer } from '../analysis';
+import { annotationStore } from '../../annotations/annotations';
+import { textIndex } from '../../text_index/text_index';
+import { AnnotationRect, AnnotationSpan, PdfRect, Viewport } from '../../../types/viewport';
+
+// PDF.js does not load under jsdom; the index is filled directly
+vi.mock('../../../services/pdfService', () => ({ default: {} }));
+
+const VIEWPORT: Viewport = { width: 612, height: 792, scale: 1, rotation: 0 };
+
+/**
+ * Index a document's page texts as the search worker would, page by page
+ */
+function indexDocument(pages: string[]): object {
+  const key = {};
+  textIndex.begin(key, pages.length);
+  pages.forEach((text, i) => textIndex.addPage(key, i + 1, text));
+  textIndex.complete(key);
+  return key;
+}
+
+/**
+ * Analyzer that labels every occurrence of a word, read when it runs
+ */
+function createWordAnalyzer(kind: string, getWord: () => string): DocumentAnalyzer {
+  return {
+    kind,
+    labels: [{ label: 'word', title: 'Word', color: '#000000' }],
+    analyzePage: (text) => Array.from(text.matchAll(new RegExp(getWord(), 'g')), match => ({
+      startIndex: match.index!,
+      endIndex: match.index! + match[0].length,
+      kind,
+      label: 'word'
+    }))
+  };
+}
+
+function measure(page: number, spans: AnnotationSpan[]): AnnotationRect[] {
+  const rect: PdfRect = [0, 0, 1, 1];
+  return spans.map(span => ({ ...span, page, bboxPdf: rect, bboxesPdf: [rect] }));
+}
+
+function annotated(kind: string): Array<[number, string]> {
+  return analysisController.getAnnotations(kind).map(span => [span.page, span.text]);
+}
+
+describe('Analysis controller', () => {
+  afterEach(() => {
+    ['pipe', 'valve', 'failing', 'document'].forEach(kind => analysisController.unregisterAnalyzer(kind));
+    vi.restoreAllMocks();
+  });
+
+  describe('document analysis', () => {
+    it('should analyze the document once its index is ready and clear it when another is indexed', () => {
+      analysisController.registerAnalyzer(createWordAnalyzer('pipe', () => 'pipe'));
+      const key = {};
+      textIndex.begin(key, 2);
+      textIndex.addPage(key, 1, 'Cap the pipe.');
+
+      expect(annotated('pipe')).toEqual([]);
+
+      textIndex.addPage(key, 2, 'Hang pipe and pipe.');
+      textIndex.complete(key);
+      expect(annotated('pipe')).toEqual([[1, 'pipe'], [2, 'pipe'], [2, 'pipe']]);
+
+      textIndex.begin({}, 1);
+      expect(annotated('pipe')).toEqual([]);
+    });
+
+    it('should add, replace and remove the spans of a registered analyzer', () => {
+      analysisController.registerAnalyzer(createWordAnalyzer('pipe', () => 'pipe'));
+      indexDocument(['Pipe valve.', 'Valve pipe.']);
+
+      analysisController.registerAnalyzer(createWordAnalyzer('valve', () => 'valve'));
+      expect(annotated('valve')).toEqual([[1, 'valve']]);
+      analysisController.registerAnalyzer(createWordAnalyzer('valve', () => 'Valve'));
+      expect(annotated('valve')).toEqual([[2, 'Valve']]);
+      expect(annotated('pipe')).toEqual([[2, 'pipe']]);
+
+      analysisController.unregisterAnalyzer('valve');
+      expect(annotated('valve')).toEqual([]);
+      expect(annotated('pipe')).toEqual([[2, 'pipe']]);
+    });
+
+    it('should keep the spans of other analyzers when one throws', () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      analysisController.registerAnalyzer(createWordAnalyzer('pipe', () => 'pipe'));
+      analysisController.registerAnalyzer({
+        kind: 'failing',
+        labels: [],
+        analyzePage: () => { throw new Error('boom'); }
+      });
+      analysisController.registerAnalyzer({
+        kind: 'document',
+        labels: [],
+        analyzePage: () => [],
+        analyzeDocument: () => { throw new Error('boom'); }
+      });
+      indexDocument(['A pipe.']);
+
+      expect(annotated('pipe')).toEqual([[1, 'pipe']]);
+      expect(annotated('failing')).toEqual([]);
+      expect(annotated('document')).toEqual([]);
+      expect(error).toHaveBeenCalled();
+    });
+
+    it('should use analyzeDocument instead of analyzePage when an analyzer has both', () => {
+      const analyzePage = vi.fn(() => []);
+      analysisController.registerAnalyzer({
+        kind: 'document',
+        labels: [],
+        analyzePage,
+        analyzeDocument: (pageTexts) => ({ [pageTexts.length]: [{ startIndex: 0, endIndex: 4, kind: 'document', label: 'last' }] })
+      });
+      indexDocument(['Valve.', 'Pipe.']);
+
+      expect(annotated('document')).toEqual([[2, 'Pipe']]);
+      expect(analyzePage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processPageAnnotations', () => {
+    it('should re-run only page analyzers on a text layer that differs from the index', () => {
+      const analyzeDocument = vi.fn((pageTexts: string[]) => ({
+        1: [{ startIndex: 0, endIndex: pageTexts[0].length, kind: 'document', label: 'page' }]
+      }));
+      analysisController.registerAnalyzer(createWordAnalyzer('pipe', () => 'pipe'));
+      analysisController.registerAnalyzer({ kind: 'document', labels: [], analyzePage: () => [], analyzeDocument });
+      indexDocument(['Cap the pipe.', 'Valve.']);
+
+      const pipeAnalyzer = analysisController.getAnalyzers().find(analyzer => analyzer.kind === 'pipe')!;
+      const analyzePage = vi.spyOn(pipeAnalyzer, 'analyzePage');
+      analyzeDocument.mockClear();
+      const textElement = document.createElement('div');
+      textElement.textContent = 'Cap  the pipe.';
+      analysisController.processPageAnnotations(1, textElement, VIEWPORT, document.createElement('div'));
+
+      expect(analyzeDocument).not.toHaveBeenCalled();
+      expect(analyzePage).toHaveBeenCalledWith('Cap  the pipe.', 1);
+    });
+  });
+
+  describe('refreshAnalyzer', () => {
+    it('should replace only the spans of its analyzer, leaving the others and their rects', () => {
+      let word = 'pipe';
+      analysisController.registerAnalyzer(createWordAnalyzer('pipe', () => word));
+      const valve = createWordAnalyzer('valve', () => 'valve');
+      analysisController.registerAnalyzer(valve);
+      indexDocument(['pipe valve', 'cap']);
+
+      const spans = annotationStore.getPageSpans(1);
+      annotationStore.setPageRects(1, measure(1, spans));
+      const analyzeValve = vi.spyOn(valve, 'analyzePage');
+
+      word = 'cap';
+      analysisController.refreshAnalyzer('pipe');
+
+      expect(annotated('pipe')).toEqual([[2, 'cap']]);
+      expect(annotated('valve')).toEqual([[1, 'valve']]);
+      expect(annotationStore.getPageRects(1).map(rect => rect.kind)).toEqual(['valve']);
+      expect(analyzeValve).not.toHaveBeenCalled();
+    });
+
+    it('should ignore analyzers that are not registered', () => {
+      const listener = vi.fn();
+      const unsubscribe = analysisController.subscribe(listener);
+
+      analysisController.refreshAnalyzer('pipe');
+      unsubscribe();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,374 @@
+// Document analysis controller
+// Runs analyzers over the indexed page text once per document, then measures their spans
+// on each displayed page and paints them from PDF-space rectangles, like search highlights
+
+import { Viewport, AnnotationSpan, AnnotationRect } from '../../types/viewport';
+import { createTextMap, measureSubstringFragments, unionRects } from '../geometry/geometry';
+import { cssToPdf } from '../projector/projector';
+import { paintAnnotations, updateLayerDimensions } from '../renderer/renderer';
+import { textIndex, IndexProgress } from '../text_index/text_index';
+import { annotationStore, getLabelKey, AnnotationState } from '../annotations/annotations';
+import { requirementAnalyzer } from '../deontic/deontic';
+import { unresolvedAnalyzer } from '../unresolved/unresolved';
+import { submittalAnalyzer } from '../submittals/submittals';
+import { DisciplineIndex, getPageStartSections, tagPageDisciplines } from '../discipline/discipline';
+
+// Delay before measuring a page, so its text layer has finished laying out
+const TEXT_LAYER_SETTLE_MS = 100;
+
+/**
+ * An analyzer labels ranges of a page's text (offsets into the text index page text)
+ * Analyzers whose items cross page breaks also implement analyzeDocument, used instead of
+ * analyzePage when the whole document is analyzed
+ */
+interface DocumentAnalyzer {
+  kind: string;
+  labels: Array<{ label: string; title: string; color: string }>;
+  analyzePage(text: string, page: number): AnnotationSpan[];
+  analyzeDocument?(pageTexts: string[]): Record<number, AnnotationSpan[]>;
+}
+
+class AnalysisController {
+  private analyzers: DocumentAnalyzer[] = [];
+  // Page texts last analyzed, so a ready index is only analyzed once
+  private analyzedTexts: string[] | null = null;
+  // Spans each page was last measured for; measurement is redone only when they change
+  private measuredSpans: Map<number, AnnotationSpan[]> = new Map();
+  // Discipline maps used to tag spans, and the UFGS section in effect at the start of each page
+  private disciplines: DisciplineIndex | null = null;
+  private pageStartSections: Array<string | null> = [];
+
+  constructor(analyzers: DocumentAnalyzer[]) {
+    analyzers.forEach(analyzer => this.registerAnalyzer(analyzer));
+    textIndex.subscribe(progress => this.handleIndexProgress(progress));
+  }
+
+  /**
+   * Add an analyzer; the current document is re-analyzed with it
+   */
+  registerAnalyzer(analyzer: DocumentAnalyzer): void {
+    this.analyzers = [...this.analyzers.filter(a => a.kind !== analyzer.kind), analyzer];
+    this.analyzedTexts = null;
+    this.handleIndexProgress(textIndex.getProgress());
+  }
+
+  /**
+   * Remove an analyzer and its annotations
+   */
+  unregisterAnalyzer(kind: string): void {
+    if (!this.analyzers.some(a => a.kind === kind)) return;
+
+    this.analyzers = this.analyzers.filter(a => a.kind !== kind);
+    this.analyzedTexts = null;
+    this.handleIndexProgress(textIndex.getProgress());
+  }
+
+  /**
+   * Re-run one analyzer over the analyzed document and replace only its spans, e.g. after triage
+   * decisions change how its findings are labeled; the other analyzers are not run again
+   */
+  refreshAnalyzer(kind: string): void {
+    const analyzer = this.analyzers.find(a => a.kind === kind);
+    const pageTexts = this.analyzedTexts;
+    if (!analyzer || !pageTexts) return;
+
+    const documentSpans = this.analyzeDocument(pageTexts, [analyzer]);
+    const spansByPage: Record<number, AnnotationSpan[]> = {};
+    pageTexts.forEach((text, i) => {
+      const spans = this.analyzePage(text, i + 1, documentSpans, [analyzer]);
+      if (spans.length > 0) {
+        spansByPage[i + 1] = spans;
+      }
+    });
+    annotationStore.setKindSpans(kind, spansByPage);
+  }
+
+  /**
+   * Set the discipline maps used to tag spans (null stops tagging); the current document is re-analyzed
+   */
+  setDisciplineIndex(disciplines: DisciplineIndex | null): void {
+    this.disciplines = disciplines;
+    this.analyzedTexts = null;
+    this.handleIndexProgress(textIndex.getProgress());
+  }
+
+  /**
+   * Get the discipline maps used to tag spans
+   */
+  getDisciplineIndex(): DisciplineIndex | null {
+    return this.disciplines;
+  }
+
+  /**
+   * Set the PDF-space regions an analyzer paints apart from its text spans, keyed by page
+   * (e.g. the band where a missing running header belongs); an empty record removes them
+   */
+  setRegions(kind: string, regionsByPage: Record<number, AnnotationRect[]>): void {
+    annotationStore.setKindRegions(kind, regionsByPage);
+  }
+
+  /**
+   * Get the registered analyzers in registration order
+   */
+  getAnalyzers(): DocumentAnalyzer[] {
+    return this.analyzers;
+  }
+
+  /**
+   * Analyze the document once its text index is complete; drop old annotations when a new one starts
+   */
+  private handleIndexProgress(progress: IndexProgress): void {
+    if (progress.status === 'indexing' && this.analyzedTexts !== null) {
+      this.analyzedTexts = null;
+      this.measuredSpans.clear();
+      annotationStore.clear();
+      return;
+    }
+
+    const pageTexts = textIndex.getPageTexts();
+    if (progress.status !== 'ready' || pageTexts === this.analyzedTexts) return;
+
+    this.analyzedTexts = pageTexts;
+    this.measuredSpans.clear();
+    this.pageStartSections = getPageStartSections(pageTexts);
+
+    const documentSpans = this.analyzeDocument(pageTexts);
+    const spansByPage: Record<number, AnnotationSpan[]> = {};
+    pageTexts.forEach((text, i) => {
+      const spans = this.analyzePage(text, i + 1, documentSpans);
+      if (spans.length > 0) {
+        spansByPage[i + 1] = spans;
+      }
+    });
+    annotationStore.setDocumentSpans(spansByPage);
+  }
+
+  /**
+   * Run the document-wide analyzers; their spans by page, keyed by analyzer kind
+   */
+  private analyzeDocument(
+    pageTexts: string[],
+    analyzers: DocumentAnalyzer[] = this.analyzers
+  ): Map<string, Record<number, AnnotationSpan[]>> {
+    const result = new Map<string, Record<number, AnnotationSpan[]>>();
+    for (const analyzer of analyzers) {
+      if (!analyzer.analyzeDocument) continue;
+      try {
+        result.set(analyzer.kind, analyzer.analyzeDocument(pageTexts));
+      } catch (error) {
+        console.error(`Analyzer ${analyzer.kind} failed on the document:`, error);
+        result.set(analyzer.kind, {});
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Run every analyzer over one page's text, in analyzer order, and tag the spans with disciplines
+   * Document-wide analyzers contribute their spans for the page from documentSpans
+   */
+  private analyzePage(
+    text: string,
+    page: number,
+    documentSpans: Map<string, Record<number, AnnotationSpan[]>>,
+    analyzers: DocumentAnalyzer[] = this.analyzers
+  ): AnnotationSpan[] {
+    const spans: AnnotationSpan[] = [];
+    for (const analyzer of analyzers) {
+      const pageSpans = documentSpans.get(analyzer.kind);
+      if (pageSpans) {
+        spans.push(...(pageSpans[page] || []));
+        continue;
+      }
+
+      try {
+        spans.push(...analyzer.analyzePage(text, page));
+      } catch (error) {
+        console.error(`Analyzer ${analyzer.kind} failed on page ${page}:`, error);
+      }
+    }
+
+    if (!this.disciplines) return spans;
+    return tagPageDisciplines(spans, text, this.pageStartSections[page - 1] ?? null, this.disciplines);
+  }
+
+  /**
+   * Schedule measuring a page's annotations once its text layer has settled
+   * Returns a function that cancels the scheduled work
+   */
+  schedulePageAnalysis(
+    page: number,
+    textElement: HTMLElement,
+    viewport: Viewport,
+    annotationLayer: HTMLElement
+  ): () => void {
+    const timeoutId = setTimeout(() => {
+      this.processPageAnnotations(page, textElement, viewport, annotationLayer);
+    }, TEXT_LAYER_SETTLE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }
+
+  /**
+   * Measure a page's annotation spans on its text layer and store them as PDF-space rectangles
+   * Pages already measured for their current spans are only repainted
+   */
+  processPageAnnotations(
+    page: number,
+    textElement: HTMLElement,
+    viewport: Viewport,
+    annotationLayer: HTMLElement
+  ): void {
+    const indexedSpans = annotationStore.getPageSpans(page);
+    if (this.measuredSpans.get(page) === indexedSpans) {
+      this.renderPageAnnotations(page, viewport, annotationLayer);
+      return;
+    }
+
+    try {
+      // Reuse the document-wide spans when the text layer text matches the indexed text
+      const textMap = createTextMap(textElement);
+      const spans = textIndex.getPageText(page) === textMap.text
+        ? indexedSpans
+        : this.reanalyzePage(textMap.text, page);
+
+      const cssFragments = measureSubstringFragments(textElement, spans, textMap);
+      const rects: AnnotationRect[] = [];
+
+      spans.forEach((span, i) => {
+        const fragments = cssFragments[i] || [];
+        if (fragments.length === 0) return; // Unmeasurable span (e.g. hidden text)
+
+        const bboxesPdf = fragments.map(cssRect => cssToPdf(cssRect, viewport));
+        rects.push({ ...span, page, bboxPdf: unionRects(bboxesPdf), bboxesPdf });
+      });
+
+      this.measuredSpans.set(page, indexedSpans);
+      annotationStore.setPageRects(page, rects);
+    } catch (error) {
+      console.error(`Error measuring annotations for page ${page}:`, error);
+    }
+
+    this.renderPageAnnotations(page, viewport, annotationLayer);
+  }
+
+  /**
+   * Analyze a page whose text layer text differs from the indexed text
+   * Page analyzers run on the text layer text; document-wide analyzers keep their indexed spans for
+   * the page, since their items depend on the other pages and re-running them costs a whole document
+   */
+  private reanalyzePage(text: string, page: number): AnnotationSpan[] {
+    const indexedSpans = annotationStore.getPageSpans(page);
+    const documentSpans = new Map<string, Record<number, AnnotationSpan[]>>();
+    for (const analyzer of this.analyzers) {
+      if (analyzer.analyzeDocument) {
+        documentSpans.set(analyzer.kind, { [page]: indexedSpans.filter(span => span.kind === analyzer.kind) });
+      }
+    }
+    return this.analyzePage(text, page, documentSpans);
+  }
+
+  /**
+   * Paint the visible annotations of a page from their stored PDF rectangles
+   */
+  renderPageAnnotations(page: number, viewport: Viewport, annotationLayer: HTMLElement): void {
+    updateLayerDimensions(annotationLayer, viewport);
+
+    const rects = annotationStore.getVisiblePageRects(page);
+    const selected = annotationStore.getSelected();
+    const selectedIndex = selected ? rects.indexOf(selected) : -1;
+    paintAnnotations(viewport, rects, annotationLayer, this.getLabelColors(), selectedIndex);
+  }
+
+  /**
+   * Select a painted annotation by page and paint index (as in data-annotation-index); -1 clears
+   */
+  selectAnnotation(page: number, index: number): void {
+    annotationStore.setSelected(annotationStore.getVisiblePageRects(page)[index] || null);
+  }
+
+  /**
+   * Get the selected annotation
+   */
+  getSelectedAnnotation(): AnnotationRect | null {
+    return annotationStore.getSelected();
+  }
+
+  /**
+   * Map "kind:label" keys to the colors declared by their analyzers
+   */
+  private getLabelColors(): Record<string, string> {
+    const colors: Record<string, string> = {};
+    for (const analyzer of this.analyzers) {
+      for (const { label, color } of analyzer.labels) {
+        colors[getLabelKey(analyzer.kind, label)] = color;
+      }
+    }
+    return colors;
+  }
+
+  /**
+   * List the annotations of one analyzer across the document with their page and text
+   */
+  getAnnotations(kind: string): Array<AnnotationSpan & { page: number; text: string }> {
+    return annotationStore.getKindSpans(kind).map(span => ({
+      ...span,
+      text: (textIndex.getPageText(span.page) || '').substring(span.startIndex, span.endIndex)
+    }));
+  }
+
+  /**
+   * Count annotations per label of one analyzer across the document
+   */
+  getLabelCounts(kind: string): Record<string, number> {
+    return annotationStore.getLabelCounts(kind);
+  }
+
+  /**
+   * Show or hide a label in the viewer
+   */
+  setLabelVisible(kind: string, label: string, visible: boolean): void {
+    annotationStore.setLabelVisible(kind, label, visible);
+  }
+
+  /**
+   * Check whether a label is shown in the viewer
+   */
+  isLabelVisible(kind: string, label: string): boolean {
+    return annotationStore.isLabelVisible(kind, label);
+  }
+
+  /**
+   * Show only annotations of one discipline in the viewer and panels; null shows all
+   */
+  setDisciplineFilter(discipline: string | null): void {
+    annotationStore.setDisciplineFilter(discipline);
+  }
+
+  /**
+   * Get the discipline annotations are filtered to
+   */
+  getDisciplineFilter(): string | null {
+    return annotationStore.getDisciplineFilter();
+  }
+
+  /**
+   * Count annotations per discipline across the document (untagged ones under '')
+   */
+  getDisciplineCounts(): Record<string, number> {
+    return annotationStore.getDisciplineCounts();
+  }
+
+  /**
+   * Subscribe to annotation changes for UI updates
+   */
+  subscribe(callback: (state: AnnotationState) => void): () => void {
+    return annotationStore.subscribe(callback);
+  }
+}
+
+// Export singleton instance with the built-in analyzers
+export const analysisController = new AnalysisController([requirementAnalyzer, unresolvedAnalyzer, submittalAnalyzer]);
+
+// Export types for consumers
+export type { DocumentAnalyzer };
@@ -0,0 +1,3 @@
+// Analysis module exports
+export { analysisController } from './analysis';
+export type { DocumentAnalyzer } from './analysis';
@@ -0,0 +1,45 @@
+// Unit tests for the annotation store
+// Tests replacing the spans of one analyzer without touching the others
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { annotationStore } from '../annotations';
+import { AnnotationRect, AnnotationSpan, PdfRect } from '../../../types/viewport';
+
+const REQUIREMENT: AnnotationSpan = { startIndex: 0, endIndex: 10, kind: 'requirement', label: 'mandatory' };
+const TERM: AnnotationSpan = { startIndex: 4, endIndex: 9, kind: 'contract-term', label: 'banned' };
+
+function measure(page: number, spans: AnnotationSpan[]): AnnotationRect[] {
+  const rect: PdfRect = [0, 0, 1, 1];
+  return spans.map(span => ({ ...span, page, bboxPdf: rect, bboxesPdf: [rect] }));
+}
+
+describe('Annotation store', () => {
+  afterEach(() => {
+    annotationStore.clear();
+  });
+
+  describe('setKindSpans', () => {
+    it('should replace one kind and drop its measurements on changed pages only', () => {
+      annotationStore.setDocumentSpans({ 1: [REQUIREMENT, TERM], 2: [TERM] });
+      annotationStore.setPageRects(1, measure(1, [REQUIREMENT, TERM]));
+      annotationStore.setPageRects(2, measure(2, [TERM]));
+      const page2 = annotationStore.getPageSpans(2);
+
+      annotationStore.setKindSpans('contract-term', { 1: [{ ...TERM, label: 'accepted' }], 2: [{ ...TERM }] });
+
+      expect(annotationStore.getPageSpans(1)).toEqual([REQUIREMENT, { ...TERM, label: 'accepted' }]);
+      expect(annotationStore.getPageRects(1)).toEqual(measure(1, [REQUIREMENT]));
+      expect(annotationStore.getPageSpans(2)).toBe(page2);
+      expect(annotationStore.getPageRects(2)).toHaveLength(1);
+    });
+
+    it('should remove pages left without spans', () => {
+      annotationStore.setDocumentSpans({ 1: [REQUIREMENT], 2: [TERM] });
+      annotationStore.setKindSpans('contract-term', {});
+
+      expect(annotationStore.getPageSpans(1)).toEqual([REQUIREMENT]);
+      expect(annotationStore.getPageSpans(2)).toEqual([]);
+      expect(annotationStore.getKindSpans('contract-term')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,318 @@
+// Store for document analysis annotations (classified requirements and other labeled spans)
+// Keeps text spans per page from the text index and their PDF-space rectangles once measured
+
+import { AnnotationSpan, AnnotationRect } from '../../types/viewport';
+
+interface AnnotationState {
+  spansByPage: Record<number, AnnotationSpan[]>;
+  rectsByPage: Record<number, AnnotationRect[]>;
+  regionsByKind: Record<string, Record<number, AnnotationRect[]>>;   // PDF-space areas not anchored to text, per analyzer
+  hiddenLabels: Set<string>;    // "kind:label" keys not painted in the viewer
+  disciplineFilter: string | null;   // Only spans tagged with this discipline are shown; null shows all
+  selected: AnnotationRect | null;
+}
+
+// Shared empty result, so pages without spans keep a stable identity between calls
+const NO_SPANS: AnnotationSpan[] = [];
+
+/**
+ * Key identifying a label of one analyzer
+ */
+export function getLabelKey(kind: string, label: string): string {
+  return `${kind}:${label}`;
+}
+
+function isSameSpans(a: AnnotationSpan[], b: AnnotationSpan[]): boolean {
+  return a.length === b.length && a.every((span, i) =>
+    span.startIndex === b[i].startIndex &&
+    span.endIndex === b[i].endIndex &&
+    span.label === b[i].label &&
+    span.detail === b[i].detail &&
+    span.discipline === b[i].discipline);
+}
+
+class AnnotationStore {
+  private state: AnnotationState = {
+    spansByPage: {},
+    rectsByPage: {},
+    regionsByKind: {},
+    hiddenLabels: new Set(),
+    disciplineFilter: null,
+    selected: null
+  };
+
+  private listeners: Array<(state: AnnotationState) => void> = [];
+
+  /**
+   * Replace the annotation spans of every page (e.g. after a document was analyzed)
+   * Measured rectangles belong to the previous spans and are dropped
+   */
+  setDocumentSpans(spansByPage: Record<number, AnnotationSpan[]>): void {
+    this.state.spansByPage = spansByPage;
+    this.state.rectsByPage = {};
+    this.state.selected = null;
+    this.notifyListeners();
+  }
+
+  /**
+   * Replace the spans of one analyzer, keeping the spans and measured rectangles of the others
+   * Pages where that analyzer's spans are unchanged keep all their spans and rectangles
+   */
+  setKindSpans(kind: string, spansByPage: Record<number, AnnotationSpan[]>): void {
+    const pages = new Set([...Object.keys(this.state.spansByPage), ...Object.keys(spansByPage)].map(Number));
+    let changed = false;
+
+    for (const page of pages) {
+      const current = this.getPageSpans(page);
+      const next = spansByPage[page] || NO_SPANS;
+      if (isSameSpans(current.filter(span => span.kind === kind), next)) continue;
+
+      const spans = [...current.filter(span => span.kind !== kind), ...next];
+      if (spans.length > 0) {
+        this.state.spansByPage[page] = spans;
+      } else {
+        delete this.state.spansByPage[page];
+      }
+      if (this.state.rectsByPage[page]) {
+        this.state.rectsByPage[page] = this.state.rectsByPage[page].filter(rect => rect.kind !== kind);
+      }
+      if (this.state.selected?.page === page && this.state.selected.kind === kind) {
+        this.state.selected = null;
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * Get the annotation spans of a page
+   * The same array is returned until the page's spans are replaced
+   */
+  getPageSpans(page: number): AnnotationSpan[] {
+    return this.state.spansByPage[page] || NO_SPANS;
+  }
+
+  /**
+   * Set the measured PDF-space rectangles of a page
+   */
+  setPageRects(page: number, rects: AnnotationRect[]): void {
+    this.state.rectsByPage[page] = rects;
+    if (this.state.selected?.page === page) {
+      this.state.selected = null;
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Get the measured rectangles of a page, including hidden labels
+   */
+  getPageRects(page: number): AnnotationRect[] {
+    return this.state.rectsByPage[page] || [];
+  }
+
+  /**
+   * Set the regions of one analyzer, keyed by page (e.g. the band a running header belongs in)
+   * Regions are painted like measured rectangles; an empty record removes them
+   */
+  setKindRegions(kind: string, regionsByPage: Record<number, AnnotationRect[]>): void {
+    const previous = this.state.regionsByKind[kind];
+    if (!previous && Object.keys(regionsByPage).length === 0) return;
+
+    if (Object.keys(regionsByPage).length === 0) {
+      delete this.state.regionsByKind[kind];
+    } else {
+      this.state.regionsByKind[kind] = regionsByPage;
+    }
+    const selected = this.state.selected;
+    if (selected && previous?.[selected.page]?.includes(selected)) {
+      this.state.selected = null;
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Get the regions of a page from every analyzer
+   */
+  getPageRegions(page: number): AnnotationRect[] {
+    return Object.values(this.state.regionsByKind).flatMap(regionsByPage => regionsByPage[page] || []);
+  }
+
+  /**
+   * Get the measured rectangles and regions of a page whose labels are shown and that pass the discipline filter
+   */
+  getVisiblePageRects(page: number): AnnotationRect[] {
+    return [...this.getPageRegions(page), ...this.getPageRects(page)]
+      .filter(rect => this.isLabelVisible(rect.kind, rect.label) && this.matchesDiscipline(rect));
+  }
+
+  /**
+   * Get every span of one analyzer with its page, in page order
+   * With a discipline filter, only spans of that discipline are included
+   */
+  getKindSpans(kind: string): Array<AnnotationSpan & { page: number }> {
+    const result: Array<AnnotationSpan & { page: number }> = [];
+    const pages = Object.keys(this.state.spansByPage)
+      .map(Number)
+      .sort((a, b) => a - b);
+
+    for (const page of pages) {
+      for (const span of this.state.spansByPage[page]) {
+        if (span.kind === kind && this.matchesDiscipline(span)) {
+          result.push({ ...span, page });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Count spans per label of one analyzer across the whole document, within the discipline filter
+   */
+  getLabelCounts(kind: string): Record<string, number> {
+    const counts: Record<string, number> = {};
+
+    for (const spans of Object.values(this.state.spansByPage)) {
+      for (const span of spans) {
+        if (span.kind === kind && this.matchesDiscipline(span)) {
+          counts[span.label] = (counts[span.label] || 0) + 1;
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Count spans per discipline across the whole document; untagged spans count under ''
+   */
+  getDisciplineCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+
+    for (const spans of Object.values(this.state.spansByPage)) {
+      for (const span of spans) {
+        const discipline = span.discipline || '';
+        counts[discipline] = (counts[discipline] || 0) + 1;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Show only spans tagged with one discipline; null shows all
+   */
+  setDisciplineFilter(discipline: string | null): void {
+    if (this.state.disciplineFilter === discipline) return;
+
+    this.state.disciplineFilter = discipline;
+    if (this.state.selected && !this.matchesDiscipline(this.state.selected)) {
+      this.state.selected = null;
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Get the discipline spans are filtered to
+   */
+  getDisciplineFilter(): string | null {
+    return this.state.disciplineFilter;
+  }
+
+  private matchesDiscipline(span: AnnotationSpan): boolean {
+    return this.state.disciplineFilter === null || span.discipline === this.state.disciplineFilter;
+  }
+
+  /**
+   * Show or hide a label in the viewer
+   */
+  setLabelVisible(kind: string, label: string, visible: boolean): void {
+    const key = getLabelKey(kind, label);
+    if (visible === !this.state.hiddenLabels.has(key)) return;
+
+    if (visible) {
+      this.state.hiddenLabels.delete(key);
+    } else {
+      this.state.hiddenLabels.add(key);
+      if (this.state.selected && getLabelKey(this.state.selected.kind, this.state.selected.label) === key) {
+        this.state.selected = null;
+      }
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Check whether a label is shown in the viewer
+   */
+  isLabelVisible(kind: string, label: string): boolean {
+    return !this.state.hiddenLabels.has(getLabelKey(kind, label));
+  }
+
+  /**
+   * Select an annotation (e.g. a clicked lint flag) so its detail can be shown; null clears
+   */
+  setSelected(annotation: AnnotationRect | null): void {
+    if (this.state.selected === annotation) return;
+    this.state.selected = annotation;
+    this.notifyListeners();
+  }
+
+  /**
+   * Get the selected annotation
+   */
+  getSelected(): AnnotationRect | null {
+    return this.state.selected;
+  }
+
+  /**
+   * Drop all spans, rectangles and regions (e.g. when another document is opened)
+   */
+  clear(): void {
+    this.state.spansByPage = {};
+    this.state.rectsByPage = {};
+    this.state.regionsByKind = {};
+    this.state.selected = null;
+    this.notifyListeners();
+  }
+
+  /**
+   * Subscribe to store changes
+   */
+  subscribe(listener: (state: AnnotationState) => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Get current state snapshot
+   */
+  getState(): Readonly<AnnotationState> {
+    return { ...this.state };
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Annotation store listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const annotationStore = new AnnotationStore();
+
+// Export types for consumers
+export type { AnnotationState };
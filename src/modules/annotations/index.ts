@@ -0,0 +1,3 @@
+// Annotations module exports
+export { annotationStore, getLabelKey } from './annotations';
+export type { AnnotationState } from './annotations';
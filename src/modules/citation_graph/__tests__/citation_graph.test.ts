@@ -0,0 +1,79 @@
+// Unit tests for the citation graph
+// Tests graph building from page texts, page-anchored edges and the CSV, Turtle and JSON-LD exports
+
+import { describe, it, expect } from 'vitest';
+import { buildCitationGraph, getCitingPages, layoutCitationGraph, toGraphCsvRows, toTurtle, toJsonLd } from '../citation_graph';
+import { ReferenceCatalog } from '../../references/references';
+
+const catalog = new ReferenceCatalog([
+  { rid: 'ASTM A123/A123M', title: 'Zinc "Hot-Dip" Coatings', orgAcronym: 'ASTM', orgName: 'ASTM INTERNATIONAL', orgId: 'ORG046', specReferences: {} },
+  { rid: 'NFPA 70', title: 'National Electrical Code', orgAcronym: 'NFPA', orgName: 'NATIONAL FIRE PROTECTION ASSOCIATION', orgId: 'ORG201', specReferences: {} }
+]);
+
+const pages = [
+  'UFC 3-501-01\nGalvanize per ASTM A123. Wire per NFPA 70 and NFPA 70.',
+  'UFC 3-501-01\nSee UFC 3-520-01, UFGS 26 20 00 and 29 CFR 1910.',
+  'UFC 3-501-01\nNFPA 70 again.'
+];
+
+const graph = buildCitationGraph({ label: 'UFC 3-501-01' }, pages, catalog);
+
+describe('Citation graph', () => {
+  describe('buildCitationGraph', () => {
+    it('should create the document node and one node per cited document', () => {
+      expect(graph.nodes.map(node => [node.label, node.type])).toEqual([
+        ['UFC 3-501-01', 'Document'],
+        ['UFC 3-520-01', 'UFC'],
+        ['UFGS 26 20 00', 'UFGS'],
+        ['29 CFR 1910', 'CFR'],
+        ['ASTM A123/A123M', 'Standard'],
+        ['NFPA 70', 'Standard']
+      ]);
+      expect(graph.nodes[4]).toMatchObject({ title: 'Zinc "Hot-Dip" Coatings', organization: 'ASTM' });
+    });
+
+    it('should anchor cites edges to pages and count citations per page', () => {
+      expect(graph.edges.filter(edge => edge.target === 'NFPA 70')).toEqual([
+        { source: 'UFC 3-501-01', target: 'NFPA 70', page: 1, count: 2 },
+        { source: 'UFC 3-501-01', target: 'NFPA 70', page: 3, count: 1 }
+      ]);
+      expect(getCitingPages(graph, 'NFPA 70')).toEqual([1, 3]);
+    });
+  });
+
+  describe('layoutCitationGraph', () => {
+    it('should center the document and place cited nodes on rings', () => {
+      const positions = layoutCitationGraph(graph, 2);
+      expect(positions['UFC 3-501-01']).toEqual({ x: 0, y: 0 });
+      expect(Math.hypot(positions['UFC 3-520-01'].x, positions['UFC 3-520-01'].y)).toBeCloseTo(1);
+      expect(Math.hypot(positions['UFGS 26 20 00'].x, positions['UFGS 26 20 00'].y)).toBeLessThan(1);
+    });
+  });
+
+  describe('exports', () => {
+    it('should export subject, predicate, object and page rows', () => {
+      const rows = toGraphCsvRows(graph);
+      expect(rows[0]).toEqual(['subject', 'predicate', 'object', 'page']);
+      expect(rows).toContainEqual(['ASTM A123/A123M', 'organization', 'ASTM', '']);
+      expect(rows).toContainEqual(['UFC 3-501-01', 'cites', 'NFPA 70', 3]);
+    });
+
+    it('should export Turtle with escaped literals and page-anchored citations', () => {
+      const turtle = toTurtle(graph);
+      expect(turtle).toContain('@prefix kg: <urn:criteria-assistant:kg:> .');
+      expect(turtle).toContain('kg:ASTM_A123_A123M a kg:Standard ;\n    rdfs:label "ASTM A123/A123M" ;\n    kg:title "Zinc \\"Hot-Dip\\" Coatings"');
+      expect(turtle.match(/kg:UFC_3_501_01 kg:cites kg:NFPA_70 \./g)).toHaveLength(1);
+      expect(turtle).toContain('kg:UFC_3_501_01-cites-NFPA_70-p3 a kg:Citation ;');
+      expect(turtle).toContain('kg:page "3"^^xsd:integer');
+    });
+
+    it('should export JSON-LD nodes with cites links and citations', () => {
+      const jsonLd = toJsonLd(graph) as { '@graph': Array<Record<string, unknown>> };
+      const documentNode = jsonLd['@graph'][0];
+
+      expect(documentNode).toMatchObject({ '@id': 'kg:UFC_3_501_01', '@type': 'kg:Document', label: 'UFC 3-501-01' });
+      expect(documentNode.cites).toEqual(['kg:ASTM_A123_A123M', 'kg:NFPA_70', 'kg:UFC_3_520_01', 'kg:UFGS_26_20_00', 'kg:29_CFR_1910']);
+      expect(jsonLd['@graph'].filter(item => item['@type'] === 'kg:Citation')).toHaveLength(graph.edges.length);
+    });
+  });
+});
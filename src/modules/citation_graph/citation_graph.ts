@@ -0,0 +1,255 @@
+// Citation graph of the opened document (see data/KG_document_hierarchy.md)
+// Nodes are the document and every standard, UFC, FC, UFGS section or CFR part it cites; "cites"
+// edges are anchored to the pages citing them. Exports as subject-predicate-object CSV, Turtle
+// and JSON-LD for graph databases and SPARQL tooling
+
+import { ReferenceCatalog, createCitationPattern, findCitations, normalizeRid } from '../references/references';
+
+type GraphNodeType = 'Document' | 'UFC' | 'FC' | 'UFGS' | 'CFR' | 'Standard';
+
+interface GraphNode {
+  id: string;              // Normalized RID or document designation, e.g. "ASTM A123/A123M"
+  label: string;
+  type: GraphNodeType;
+  title?: string;
+  organization?: string;   // Organization acronym of a standard from the reference catalog
+}
+
+// One "cites" edge per cited document and page
+interface CitesEdge {
+  source: string;
+  target: string;
+  page: number;
+  count: number;           // Citations on that page
+}
+
+interface CitationGraph {
+  nodes: GraphNode[];      // The document first, then cited nodes by type and label
+  edges: CitesEdge[];      // In page order
+}
+
+// Namespace of graph IRIs; exports use the "kg:" prefix for it
+export const KG_NAMESPACE = 'urn:criteria-assistant:kg:';
+
+export const GRAPH_NODE_TYPES: Array<{ type: GraphNodeType; color: string }> = [
+  { type: 'Document', color: '#263238' },
+  { type: 'UFC', color: '#1565c0' },
+  { type: 'FC', color: '#0277bd' },
+  { type: 'UFGS', color: '#2e7d32' },
+  { type: 'CFR', color: '#6a1b9a' },
+  { type: 'Standard', color: '#ef6c00' }
+];
+
+const RDFS_NAMESPACE = 'http://www.w3.org/2000/01/rdf-schema#';
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema#';
+
+/**
+ * Build the citation graph of a document from its page texts
+ * Citations resolve through the reference catalog; the document's own designation (headers) is not a citation
+ */
+export function buildCitationGraph(
+  document: { label: string; title?: string },
+  pageTexts: string[],
+  catalog: ReferenceCatalog
+): CitationGraph {
+  const documentId = normalizeRid(document.label);
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, CitesEdge>();
+  const pattern = createCitationPattern(catalog);
+
+  nodes.set(documentId, { id: documentId, label: document.label, type: 'Document', ...(document.title && { title: document.title }) });
+
+  pageTexts.forEach((text, i) => {
+    const page = i + 1;
+    for (const citation of findCitations(text, catalog, pattern)) {
+      const label = citation.entry ? citation.entry.rid : citation.text.replace(/\s+/g, ' ');
+      const id = normalizeRid(label);
+      if (id === documentId) continue;
+
+      if (!nodes.has(id)) {
+        nodes.set(id, {
+          id,
+          label,
+          type: getNodeType(id),
+          ...(citation.entry?.title && { title: citation.entry.title }),
+          ...(citation.entry?.orgAcronym && { organization: citation.entry.orgAcronym })
+        });
+      }
+
+      const key = `${id}\u0000${page}`;
+      const edge = edges.get(key) || { source: documentId, target: id, page, count: 0 };
+      edge.count++;
+      edges.set(key, edge);
+    }
+  });
+
+  const typeOrder = GRAPH_NODE_TYPES.map(info => info.type);
+  const sortedNodes = Array.from(nodes.values()).sort((a, b) =>
+    typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) || a.label.localeCompare(b.label, undefined, { numeric: true })
+  );
+
+  return { nodes: sortedNodes, edges: Array.from(edges.values()) };
+}
+
+function getNodeType(id: string): GraphNodeType {
+  if (/^UFC /.test(id)) return 'UFC';
+  if (/^FC /.test(id)) return 'FC';
+  if (/^UFGS /.test(id)) return 'UFGS';
+  if (/^\d+ CFR /.test(id)) return 'CFR';
+  return 'Standard';
+}
+
+/**
+ * Pages citing a node, in page order
+ */
+export function getCitingPages(graph: CitationGraph, nodeId: string): number[] {
+  return graph.edges.filter(edge => edge.target === nodeId).map(edge => edge.page);
+}
+
+/**
+ * Place the document at the center and cited nodes on rings around it, grouped by type
+ * Large graphs use more rings so neighbouring nodes stay apart; coordinates are in [-1, 1]
+ */
+export function layoutCitationGraph(graph: CitationGraph, nodesPerRing = 40): Record<string, { x: number; y: number }> {
+  const positions: Record<string, { x: number; y: number }> = {};
+  const cited = graph.nodes.filter(node => node.type !== 'Document');
+  const rings = Math.max(1, Math.ceil(cited.length / nodesPerRing));
+
+  graph.nodes.filter(node => node.type === 'Document').forEach(node => {
+    positions[node.id] = { x: 0, y: 0 };
+  });
+
+  cited.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / cited.length - Math.PI / 2;
+    const radius = 1 - (i % rings) * (0.5 / rings);
+    positions[node.id] = { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+  });
+
+  return positions;
+}
+
+/**
+ * IRI local name of a node: "ASTM A123/A123M" → "ASTM_A123_A123M"
+ */
+export function getNodeLocalName(id: string): string {
+  return id.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'node';
+}
+
+function getCitationLocalName(edge: CitesEdge): string {
+  return `${getNodeLocalName(edge.source)}-cites-${getNodeLocalName(edge.target)}-p${edge.page}`;
+}
+
+/**
+ * Export as subject,predicate,object,page rows: node types and titles, then page-anchored "cites" triples
+ */
+export function toGraphCsvRows(graph: CitationGraph): Array<Array<string | number>> {
+  const rows: Array<Array<string | number>> = [['subject', 'predicate', 'object', 'page']];
+
+  for (const node of graph.nodes) {
+    rows.push([node.label, 'type', node.type, '']);
+    if (node.title) rows.push([node.label, 'title', node.title, '']);
+    if (node.organization) rows.push([node.label, 'organization', node.organization, '']);
+  }
+
+  const labels = new Map(graph.nodes.map(node => [node.id, node.label]));
+  for (const edge of graph.edges) {
+    rows.push([labels.get(edge.source) || edge.source, 'cites', labels.get(edge.target) || edge.target, edge.page]);
+  }
+
+  return rows;
+}
+
+/**
+ * Export as Turtle: a direct kg:cites triple per cited node, plus a kg:Citation per page for anchoring
+ */
+export function toTurtle(graph: CitationGraph): string {
+  const lines = [
+    `@prefix kg: <${KG_NAMESPACE}> .`,
+    `@prefix rdfs: <${RDFS_NAMESPACE}> .`,
+    `@prefix xsd: <${XSD_NAMESPACE}> .`,
+    ''
+  ];
+
+  for (const node of graph.nodes) {
+    const properties = [`a kg:${node.type}`, `rdfs:label ${turtleString(node.label)}`];
+    if (node.title) properties.push(`kg:title ${turtleString(node.title)}`);
+    if (node.organization) properties.push(`kg:organization ${turtleString(node.organization)}`);
+    lines.push(`kg:${getNodeLocalName(node.id)} ${properties.join(' ;\n    ')} .`);
+  }
+  lines.push('');
+
+  const cited = new Set<string>();
+  for (const edge of graph.edges) {
+    const triple = `kg:${getNodeLocalName(edge.source)} kg:cites kg:${getNodeLocalName(edge.target)} .`;
+    if (!cited.has(triple)) {
+      cited.add(triple);
+      lines.push(triple);
+    }
+  }
+  lines.push('');
+
+  for (const edge of graph.edges) {
+    lines.push([
+      `kg:${getCitationLocalName(edge)} a kg:Citation`,
+      `kg:citingDocument kg:${getNodeLocalName(edge.source)}`,
+      `kg:citedDocument kg:${getNodeLocalName(edge.target)}`,
+      `kg:page "${edge.page}"^^xsd:integer`,
+      `kg:count "${edge.count}"^^xsd:integer`
+    ].join(' ;\n    ') + ' .');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function turtleString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+}
+
+/**
+ * Export as a JSON-LD document with the same vocabulary as the Turtle export
+ */
+export function toJsonLd(graph: CitationGraph): object {
+  const citedBySource = new Map<string, Set<string>>();
+  for (const edge of graph.edges) {
+    const targets = citedBySource.get(edge.source) || new Set<string>();
+    targets.add(`kg:${getNodeLocalName(edge.target)}`);
+    citedBySource.set(edge.source, targets);
+  }
+
+  return {
+    '@context': {
+      kg: KG_NAMESPACE,
+      rdfs: RDFS_NAMESPACE,
+      xsd: XSD_NAMESPACE,
+      label: 'rdfs:label',
+      title: 'kg:title',
+      organization: 'kg:organization',
+      cites: { '@id': 'kg:cites', '@type': '@id' },
+      citingDocument: { '@id': 'kg:citingDocument', '@type': '@id' },
+      citedDocument: { '@id': 'kg:citedDocument', '@type': '@id' },
+      page: { '@id': 'kg:page', '@type': 'xsd:integer' },
+      count: { '@id': 'kg:count', '@type': 'xsd:integer' }
+    },
+    '@graph': [
+      ...graph.nodes.map(node => ({
+        '@id': `kg:${getNodeLocalName(node.id)}`,
+        '@type': `kg:${node.type}`,
+        label: node.label,
+        ...(node.title && { title: node.title }),
+        ...(node.organization && { organization: node.organization }),
+        ...(citedBySource.has(node.id) && { cites: Array.from(citedBySource.get(node.id)!) })
+      })),
+      ...graph.edges.map(edge => ({
+        '@id': `kg:${getCitationLocalName(edge)}`,
+        '@type': 'kg:Citation',
+        citingDocument: `kg:${getNodeLocalName(edge.source)}`,
+        citedDocument: `kg:${getNodeLocalName(edge.target)}`,
+        page: edge.page,
+        count: edge.count
+      }))
+    ]
+  };
+}
+
+// Export types for consumers
+export type { GraphNodeType, GraphNode, CitesEdge, CitationGraph };
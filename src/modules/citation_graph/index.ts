@@ -0,0 +1,13 @@
+// Citation graph module exports
+export {
+  buildCitationGraph,
+  getCitingPages,
+  layoutCitationGraph,
+  getNodeLocalName,
+  toGraphCsvRows,
+  toTurtle,
+  toJsonLd,
+  KG_NAMESPACE,
+  GRAPH_NODE_TYPES
+} from './citation_graph';
+export type { GraphNodeType, GraphNode, CitesEdge, CitationGraph } from './citation_graph';
@@ -0,0 +1,94 @@
+// Unit tests for the contract-term capitalization check
+// Tests dictionary parsing, capitalization and banned-variant flags, triage and decision files
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseContractTerms,
+  findContractTermFindings,
+  getContractTermSpans,
+  createContractTermAnalyzer,
+  serializeTermDecisions,
+  parseTermDecisions,
+  TermDecision
+} from '../contract_terms';
+
+const TERMS = parseContractTerms([
+  { 'Term': 'Contracting Officer', 'Banned Variants': "Owner's Representative; Officer in Charge", 'Exceptions': '', 'Reference': '5.13' },
+  { 'Term': 'Drawings', 'Banned Variants': 'Contract Drawings; Plans', 'Exceptions': 'shop drawings', 'Reference': '' },
+  { 'Term': 'Government', 'Banned Variants': 'Owner', 'Exceptions': '', 'Reference': '' },
+  { 'Term': '', 'Banned Variants': 'ignored', 'Exceptions': '', 'Reference': '' }
+]);
+
+function flagged(text: string): Array<[string, string]> {
+  return findContractTermFindings(text, 1, TERMS).map(finding => [finding.type, finding.text]);
+}
+
+describe('Contract terms', () => {
+  describe('parseContractTerms', () => {
+    it('should split variants and exceptions and skip rows without a term', () => {
+      expect(TERMS.map(term => term.term)).toEqual(['Contracting Officer', 'Drawings', 'Government']);
+      expect(TERMS[0].banned).toEqual(["Owner's Representative", 'Officer in Charge']);
+    });
+  });
+
+  describe('findContractTermFindings', () => {
+    it('should flag miscapitalized terms, including plurals and phrases across lines', () => {
+      expect(flagged('Notify the contracting\nofficer. Comply with the government\'s rules and the Drawings.')).toEqual([
+        ['capitalization', 'contracting\nofficer'],
+        ['capitalization', "government's"]
+      ]);
+    });
+
+    it('should flag banned variants once, even when they contain a term', () => {
+      expect(flagged("Submit to the Owner's Representative as shown on the contract drawings.")).toEqual([
+        ['banned', "Owner's Representative"],
+        ['banned', 'contract drawings']
+      ]);
+    });
+
+    it('should flag single-word variants only as written, leaving generic lowercase use', () => {
+      expect(flagged('The owner of the utility shall review the plans. Submit Plans to the Owner.')).toEqual([
+        ['banned', 'Plans'],
+        ['banned', 'Owner']
+      ]);
+    });
+
+    it('should skip headings in capitals and exception phrases', () => {
+      expect(flagged('GOVERNMENT FURNISHED PROPERTY\nSubmit shop drawings.')).toEqual([]);
+    });
+  });
+
+  describe('triage', () => {
+    const text = 'Notify the Owner and the government.';
+    const findings = findContractTermFindings(text, 2, TERMS);
+
+    it('should drop ignored findings and relabel accepted ones', () => {
+      const decisions = new Map<string, TermDecision>([[findings[0].key, 'ignored'], [findings[1].key, 'accepted']]);
+
+      expect(getContractTermSpans(findings, decisions)).toEqual([
+        expect.objectContaining({ startIndex: 25, endIndex: 35, label: 'accepted' })
+      ]);
+    });
+
+    it('should label analyzer spans with the decisions current when it runs', () => {
+      let decisions = new Map<string, TermDecision>();
+      const analyzer = createContractTermAnalyzer(TERMS, () => decisions);
+
+      expect(analyzer.analyzePage(text, 2).map(span => span.label)).toEqual(['banned', 'capitalization']);
+      decisions = new Map([[findings[0].key, 'ignored'], [findings[1].key, 'accepted']]);
+      expect(analyzer.analyzePage(text, 2).map(span => span.label)).toEqual(['accepted']);
+    });
+
+    it('should round-trip decisions through a decision file', () => {
+      const decisions = new Map<string, TermDecision>([[findings[1].key, 'ignored'], ['3:0:stale', 'accepted']]);
+      const file = serializeTermDecisions('spec.pdf', findings, decisions);
+
+      expect(file).toEqual({
+        document: 'spec.pdf',
+        decisions: [{ key: '2:25:government', page: 2, text: 'government', decision: 'ignored' }]
+      });
+      expect(parseTermDecisions(JSON.parse(JSON.stringify(file)))).toEqual(new Map([['2:25:government', 'ignored']]));
+      expect(parseTermDecisions({ decisions: [{ key: 'x', decision: 'maybe' }] }).size).toBe(0);
+    });
+  });
+});
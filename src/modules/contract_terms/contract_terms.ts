@@ -0,0 +1,253 @@
+// Contract-term capitalization check (writing standards 5.13)
+// A term dictionary (Term, Banned Variants, Exceptions, Reference) gives the capitalization contract
+// entities are written with ("Contractor", "Contracting Officer") and the synonyms that must not be
+// used for them ("Owner's Representative"). Flags can be triaged as accepted or ignored; decisions are
+// keyed by page and offset so they can be exported and applied to later runs on the same document
+
+import { AnnotationSpan } from '../../types/viewport';
+import { CsvRow } from '../../services/csvService';
+import { DocumentAnalyzer } from '../analysis/analysis';
+
+type ContractTermFindingType = 'capitalization' | 'banned';
+
+type TermDecision = 'accepted' | 'ignored';
+
+interface ContractTerm {
+  term: string;           // Required form, e.g. "Contracting Officer"
+  banned: string[];       // Synonyms to replace with the term, e.g. "Officer in Charge"
+  exceptions: string[];   // Phrases where the lowercase form is generic, e.g. "cross section"
+  reference: string;
+}
+
+interface ContractTermFinding {
+  key: string;            // Stable ID of the occurrence: page, offset and text
+  type: ContractTermFindingType;
+  page: number;
+  startIndex: number;     // Range of the page text
+  endIndex: number;
+  text: string;
+  term: ContractTerm;
+  message: string;
+}
+
+// Exported triage decisions of one document
+interface TermDecisionFile {
+  document: string;
+  decisions: Array<{ key: string; page: number; text: string; decision: TermDecision }>;
+}
+
+// Annotation kind of contract-term findings; accepted findings are relabeled 'accepted', ignored ones dropped
+export const CONTRACT_TERM_KIND = 'contract-term';
+
+export const CONTRACT_TERM_LABELS: Array<{ label: ContractTermFindingType | TermDecision; title: string; color: string }> = [
+  { label: 'capitalization', title: 'Capitalization (5.13)', color: '#5e35b1' },
+  { label: 'banned', title: 'Banned variant (5.13)', color: '#c62828' },
+  { label: 'accepted', title: 'Accepted, to fix', color: '#2e7d32' }
+];
+
+// Separator of the variants and exceptions in a dictionary cell
+const LIST_SEPARATOR = ';';
+
+/**
+ * Build the term dictionary from parsed CSV rows
+ * Rows without a term are skipped; a term listed twice keeps its first row
+ */
+export function parseContractTerms(rows: CsvRow[]): ContractTerm[] {
+  const terms: ContractTerm[] = [];
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const term = (row['Term'] || '').trim();
+    if (!term || seen.has(term.toLowerCase())) continue;
+    seen.add(term.toLowerCase());
+
+    terms.push({
+      term,
+      banned: splitList(row['Banned Variants']),
+      exceptions: splitList(row['Exceptions']),
+      reference: (row['Reference'] || '').trim()
+    });
+  }
+
+  return terms;
+}
+
+function splitList(cell: string | undefined): string[] {
+  return (cell || '').split(LIST_SEPARATOR).map(value => value.trim()).filter(Boolean);
+}
+
+/**
+ * Pattern for a term or phrase as whole words, with plural and possessive endings
+ * Spaces match any whitespace, so phrases can wrap lines
+ */
+export function createTermPattern(phrase: string, ignoreCase = true): RegExp {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\w'-])${escaped}(?:s|'s|s')?(?![\\w-])`, ignoreCase ? 'gi' : 'g');
+}
+
+/**
+ * Pattern for a banned variant: phrases in any case, single words only as written, since their
+ * lowercase form is usually generic ("Owner" for the Government, but "the owner of the utility")
+ */
+function createVariantPattern(variant: string): RegExp {
+  return createTermPattern(variant, /\s/.test(variant));
+}
+
+/**
+ * Key identifying a finding across runs on the same document
+ */
+export function getTermFindingKey(page: number, startIndex: number, text: string): string {
+  return `${page}:${startIndex}:${text.replace(/\s+/g, ' ')}`;
+}
+
+/**
+ * Find banned variants and miscapitalized terms on a page, in text order
+ * Text in capitals (headings) and exception phrases are not checked for capitalization, and
+ * overlapping flags are reported once: the longest banned variant wins, and a banned variant
+ * containing a term ("Contract Drawings") is not also a capitalization flag
+ */
+export function findContractTermFindings(text: string, page: number, terms: ContractTerm[]): ContractTermFinding[] {
+  const findings: ContractTermFinding[] = [];
+  const add = (type: ContractTermFindingType, term: ContractTerm, match: RegExpMatchArray, message: string) => {
+    findings.push({
+      key: getTermFindingKey(page, match.index!, match[0]),
+      type,
+      page,
+      startIndex: match.index!,
+      endIndex: match.index! + match[0].length,
+      text: match[0],
+      term,
+      message
+    });
+  };
+
+  // Longest variants first, so "Owner's Representative" is not also reported as "Owner"
+  const variants = terms
+    .flatMap(term => term.banned.map(variant => ({ term, variant })))
+    .sort((a, b) => b.variant.length - a.variant.length);
+  const overlaps = (start: number, end: number) => findings.some(finding => start < finding.endIndex && end > finding.startIndex);
+
+  for (const { term, variant } of variants) {
+    for (const match of text.matchAll(createVariantPattern(variant))) {
+      if (overlaps(match.index!, match.index! + match[0].length)) continue;
+      add('banned', term, match, `Replace "${match[0].replace(/\s+/g, ' ')}" with "${term.term}"`);
+    }
+  }
+
+  for (const term of terms) {
+    const exceptions = term.exceptions.flatMap(exception => Array.from(text.matchAll(createTermPattern(exception)),
+      match => [match.index!, match.index! + match[0].length]));
+
+    for (const match of text.matchAll(createTermPattern(term.term))) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      const written = match[0].replace(/\s+/g, ' ').substring(0, term.term.length);
+
+      if (written === term.term) continue;
+      if (written === written.toUpperCase() && term.term !== term.term.toUpperCase()) continue;
+      if (exceptions.some(([from, to]) => start >= from && end <= to)) continue;
+      if (overlaps(start, end)) continue;
+
+      add('capitalization', term, match, `Write "${term.term}"`);
+    }
+  }
+
+  return findings.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Find the findings of every page
+ */
+export function findDocumentTermFindings(pageTexts: string[], terms: ContractTerm[]): ContractTermFinding[] {
+  return pageTexts.flatMap((text, i) => findContractTermFindings(text, i + 1, terms));
+}
+
+/**
+ * Tooltip text of a finding
+ */
+export function formatContractTermDetail(finding: ContractTermFinding, decision?: TermDecision): string {
+  return [
+    `5.13 Contract terms`,
+    finding.message,
+    finding.term.reference && `Reference: ${finding.term.reference}`,
+    decision === 'accepted' && 'Accepted, to fix'
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Annotation spans of findings; ignored findings are left out and accepted ones relabeled
+ */
+export function getContractTermSpans(findings: ContractTermFinding[], decisions: Map<string, TermDecision>): AnnotationSpan[] {
+  return findings
+    .filter(finding => decisions.get(finding.key) !== 'ignored')
+    .map(finding => {
+      const decision = decisions.get(finding.key);
+      return {
+        startIndex: finding.startIndex,
+        endIndex: finding.endIndex,
+        kind: CONTRACT_TERM_KIND,
+        label: decision === 'accepted' ? 'accepted' : finding.type,
+        detail: formatContractTermDetail(finding, decision)
+      };
+    });
+}
+
+/**
+ * Analyzer that flags contract-term findings, applying the current triage decisions
+ * Findings are kept per page text, so refreshing the analyzer after a decision only relabels them
+ */
+export function createContractTermAnalyzer(terms: ContractTerm[], getDecisions: () => Map<string, TermDecision>): DocumentAnalyzer {
+  const findingsByPage = new Map<number, { text: string; findings: ContractTermFinding[] }>();
+
+  return {
+    kind: CONTRACT_TERM_KIND,
+    labels: CONTRACT_TERM_LABELS,
+    analyzePage: (text, page) => {
+      let cached = findingsByPage.get(page);
+      if (cached?.text !== text) {
+        cached = { text, findings: findContractTermFindings(text, page, terms) };
+        findingsByPage.set(page, cached);
+      }
+      return getContractTermSpans(cached.findings, getDecisions());
+    }
+  };
+}
+
+/**
+ * Build the decision file of a document from its findings and decisions
+ * Only decisions for current findings are written, in page order
+ */
+export function serializeTermDecisions(
+  document: string,
+  findings: ContractTermFinding[],
+  decisions: Map<string, TermDecision>
+): TermDecisionFile {
+  return {
+    document,
+    decisions: findings
+      .filter(finding => decisions.has(finding.key))
+      .map(finding => ({ key: finding.key, page: finding.page, text: finding.text, decision: decisions.get(finding.key)! }))
+  };
+}
+
+/**
+ * Read decisions from a decision file; entries without a key or with an unknown decision are skipped
+ */
+export function parseTermDecisions(data: unknown): Map<string, TermDecision> {
+  const decisions = new Map<string, TermDecision>();
+  const entries = data && typeof data === 'object' ? (data as Record<string, unknown>)['decisions'] : null;
+  if (!Array.isArray(entries)) return decisions;
+
+  for (const entry of entries as Array<Record<string, unknown>>) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { key, decision } = entry;
+    if (typeof key === 'string' && (decision === 'accepted' || decision === 'ignored')) {
+      decisions.set(key, decision);
+    }
+  }
+
+  return decisions;
+}
+
+// Export types for consumers
+export type { ContractTermFindingType, TermDecision, ContractTerm, ContractTermFinding, TermDecisionFile };
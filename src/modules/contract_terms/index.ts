@@ -0,0 +1,16 @@
+// Contract-term capitalization check module exports
+export {
+  parseContractTerms,
+  createTermPattern,
+  getTermFindingKey,
+  findContractTermFindings,
+  findDocumentTermFindings,
+  formatContractTermDetail,
+  getContractTermSpans,
+  createContractTermAnalyzer,
+  serializeTermDecisions,
+  parseTermDecisions,
+  CONTRACT_TERM_KIND,
+  CONTRACT_TERM_LABELS
+} from './contract_terms';
+export type { ContractTermFindingType, TermDecision, ContractTerm, ContractTermFinding, TermDecisionFile } from './contract_terms';
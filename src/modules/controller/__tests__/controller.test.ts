@@ -0,0 +1,188 @@
+// Unit tests for the search controller
+// Tests the main-thread document search used when the search worker is unavailable, and that
+// superseded searches and page work stop without writing results, and that revealing a match settles
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { searchController, createLinkedController } from '../controller';
+import { matchStore } from '../../store/store';
+import { textIndex } from '../../text_index/text_index';
+import { viewerNavigation } from '../../navigation/navigation';
+import { Viewport } from '../../../types/viewport';
+
+// PDF.js does not load under jsdom; fake documents carry their page texts
+vi.mock('../../../services/pdfService', () => ({
+  default: {
+    extractText: (pdfDoc: { pages: string[] }, page: number) =>
+      Promise.resolve([{ str: pdfDoc.pages[page - 1], hasEOL: false }])
+  }
+}));
+
+const VIEWPORT: Viewport = { width: 612, height: 792, scale: 1, rotation: 0 };
+
+function createDocument(pages: string[]) {
+  return { numPages: pages.length, pages, getPage: () => Promise.reject(new Error('not rendered')) };
+}
+
+describe('Search controller', () => {
+  describe('main-thread search', () => {
+    it('should index a document without a file and count hits on every page', async () => {
+      searchController.startNewSearch('pipe');
+      await searchController.setDocument(createDocument(['Pipe and pipe.', 'Valves.', 'Cap the pipe.']));
+
+      expect(textIndex.getPageTexts()).toEqual(['Pipe and pipe.', 'Valves.', 'Cap the pipe.']);
+      expect(matchStore.getPageMatchCounts()).toEqual({ 1: 2, 3: 1 });
+      expect(searchController.getSearchHits().map(hit => [hit.order, hit.page, hit.startIndex])).toEqual([
+        [0, 1, 0],
+        [1, 1, 9],
+        [2, 3, 8]
+      ]);
+    });
+
+    it('should re-search the indexed text when the query changes', () => {
+      searchController.startNewSearch('valves');
+
+      expect(matchStore.getPageMatchCounts()).toEqual({ 2: 1 });
+      expect(searchController.getSearchStats()).toMatchObject({ totalMatches: 1, query: 'valves' });
+    });
+
+    it('should share the open document only for the key it was opened with', async () => {
+      const pdfDoc = createDocument(['Pipe.']);
+      await searchController.setDocument(pdfDoc);
+
+      expect(searchController.getDocument(pdfDoc)).toBe(pdfDoc);
+      expect(searchController.getDocument(createDocument(['Pipe.']))).toBeNull();
+    });
+  });
+
+  describe('createLinkedController', () => {
+    it('should abort with its parent, and start aborted under an aborted parent', () => {
+      const parent = new AbortController();
+      const child = createLinkedController(parent.signal);
+
+      parent.abort();
+      expect(child.signal.aborted).toBe(true);
+      expect(createLinkedController(parent.signal).signal.aborted).toBe(true);
+    });
+
+    it('should not abort its parent', () => {
+      const parent = new AbortController();
+      createLinkedController(parent.signal).abort();
+
+      expect(parent.signal.aborted).toBe(false);
+    });
+  });
+
+  describe('cancellation', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should stop a superseded document search between slices', async () => {
+      // More pages than one slice, so the first search yields before its last pages
+      const pages = Array.from({ length: 30 }, (_, i) => (i < 25 ? 'Valve.' : 'Pipe.'));
+      searchController.startNewSearch('');
+      await searchController.setDocument(createDocument(pages));
+
+      searchController.startNewSearch('pipe');
+      searchController.startNewSearch('valve');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(searchController.getSearchStats()).toMatchObject({ query: 'valve', totalMatches: 25 });
+      expect(searchController.getSearchHits().every(hit => hit.termText === 'valve')).toBe(true);
+    });
+
+    it('should drop scheduled page work that is cancelled or superseded', () => {
+      vi.useFakeTimers();
+      const processPageSearch = vi.spyOn(searchController, 'processPageSearch');
+      const element = document.createElement('div');
+
+      const cancel = searchController.schedulePageSearch(1, element, VIEWPORT, element);
+      cancel();
+      searchController.schedulePageSearch(2, element, VIEWPORT, element);
+      searchController.startNewSearch('pipe');
+      vi.advanceTimersByTime(1000);
+
+      expect(processPageSearch).not.toHaveBeenCalled();
+      processPageSearch.mockRestore();
+    });
+
+    it('should not write page results once its search is aborted', async () => {
+      const element = document.createElement('div');
+      element.textContent = 'Pipe.';
+      const search = new AbortController();
+      search.abort();
+
+      await searchController.processPageSearch(1, 'valve', element, VIEWPORT, element, search.signal);
+
+      expect(matchStore.getMatchRects(1)).toEqual([]);
+      expect(element.innerHTML).toBe('Pipe.');
+    });
+  });
+
+  describe('text layer differing from the index', () => {
+    afterEach(() => {
+      delete (Range.prototype as Partial<Range>).getClientRects;
+    });
+
+    it('should keep re-matched rects within the page\'s document-wide orders', async () => {
+      // jsdom lays out no text; give every range a box so the matches can be measured
+      Object.defineProperty(Range.prototype, 'getClientRects', {
+        value(this: Range) { return [new DOMRect(this.startOffset * 10, 0, (this.endOffset - this.startOffset) * 10, 10)]; },
+        configurable: true
+      });
+      searchController.startNewSearch('pipe');
+      await searchController.setDocument(createDocument(['Valve.', 'Cap the pipe and pipe.']));
+
+      const layer = (text: string) => {
+        const element = document.createElement('div');
+        element.textContent = text;
+        return element;
+      };
+      await searchController.processPageSearch(1, 'pipe', layer('Valve pipe.'), VIEWPORT, document.createElement('div'));
+      await searchController.processPageSearch(2, 'pipe', layer('Cap the pipe, pipe and pipe.'), VIEWPORT, document.createElement('div'));
+
+      expect(matchStore.getMatchRects(1).map(rect => rect.order)).toEqual([-1]);
+      expect(matchStore.getMatchRects(2).map(rect => rect.order)).toEqual([0, 1, 1]);
+
+      matchStore.setActiveIndex(0);
+      expect(matchStore.getActiveMatch()).toBe(matchStore.getMatchRects(2)[0]);
+      searchController.startNewSearch('');
+    });
+  });
+
+  describe('revealing the active match', () => {
+    it('should stop waiting when its page is processed without measuring the match', async () => {
+      searchController.startNewSearch('pipe');
+      await searchController.setDocument(createDocument(['Valve.', 'Cap the pipe.']));
+      viewerNavigation.setDocument(2);
+
+      // Count releases of store subscriptions taken while the match is revealed
+      const released = vi.fn();
+      const subscribe = matchStore.subscribe.bind(matchStore);
+      const subscribeSpy = vi.spyOn(matchStore, 'subscribe').mockImplementation(listener => {
+        const unsubscribe = subscribe(listener);
+        return () => {
+          released();
+          unsubscribe();
+        };
+      });
+      const centerRect = vi.spyOn(viewerNavigation, 'centerRect');
+
+      searchController.activateMatch(0);
+      viewerNavigation.setPageRendered(2, VIEWPORT);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // jsdom lays out no text, so the hit on the page cannot be measured
+      const element = document.createElement('div');
+      element.textContent = 'Cap the pipe.';
+      await searchController.processPageSearch(2, 'pipe', element, VIEWPORT, document.createElement('div'));
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(subscribeSpy).toHaveBeenCalledTimes(1);
+      expect(released).toHaveBeenCalledTimes(1);
+      expect(centerRect).not.toHaveBeenCalled();
+      subscribeSpy.mockRestore();
+      centerRect.mockRestore();
+    });
+  });
+});
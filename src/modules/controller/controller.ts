@@ -1,97 +1,333 @@
 // Main controller that coordinates search, navigation, and rendering
 // Orchestrates the complete pipeline from query to highlights
 
-import { Viewport, MatchRect, MatchSpan } from '../../types/viewport';
+import { Viewport, MatchRect, MatchSpan, SearchTerm, SearchOptions, TermQuery } from '../../types/viewport';
 import { tokenize } from '../tokenizer/tokenizer';
-import { findMatches } from '../matcher/matcher';
-import { measureSubstrings } from '../geometry/geometry';
+import { findTermMatches, generateTermId, validateQuery } from '../matcher/matcher';
+import { createTextMap, measureSubstringFragments, unionRects } from '../geometry/geometry';
 import { cssToPdf } from '../projector/projector';
 import { matchStore } from '../store/store';
 import { paintHighlights, updateLayerDimensions, getMatchScrollRect } from '../renderer/renderer';
+import { textIndex, IndexProgress } from '../text_index/text_index';
+import { searchWorker } from '../search_worker/search_worker';
+import { SearchHit } from '../search_results/search_results';
+import { viewerNavigation } from '../navigation/navigation';
+import { PDFDocumentProxy } from '../../services/pdfService';
+
+// Pages matched between yields to the browser during a document-wide search
+const PAGES_PER_SLICE = 25;
+
+// Delay before measuring a page, so its text layer has finished laying out
+const TEXT_LAYER_SETTLE_MS = 100;
+
+// Longest wait for the active match to be measured once its page is rendered
+const ACTIVE_MATCH_TIMEOUT_MS = 5000;
 
 interface PageProcessingState {
   isProcessing: boolean;
   isProcessed: boolean;
-  lastQuery: string;
+  searchKey: string;
+  abort: AbortController | null;  // cancels in-flight work for this page
+}
+
+interface SearchStats {
+  totalMatches: number;
+  activeIndex: number;
+  query: string;
+  options: SearchOptions;
+  error: string | null;
+  pageCounts: Record<number, number>;
+  indexProgress: IndexProgress;
+}
+
+/**
+ * Create an AbortController that is aborted together with a parent signal
+ * The link to the parent is dropped once the child is aborted, so short-lived children do not pile up
+ */
+export function createLinkedController(parent: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (parent.aborted) {
+    controller.abort();
+    return controller;
+  }
+
+  const onParentAbort = () => controller.abort();
+  parent.addEventListener('abort', onParentAbort, { once: true });
+  controller.signal.addEventListener('abort', () => parent.removeEventListener('abort', onParentAbort), { once: true });
+  return controller;
 }
 
 class SearchController {
   private pageStates: Map<number, PageProcessingState> = new Map();
   private globalMatchOrder = 0;
+  private document: PDFDocumentProxy | null = null;
+  private documentKey: object | null = null;
+  private useWorker = false;
+  // Aborted whenever the query, options, profile or document change; all work for a search carries its signal
+  private searchAbort = new AbortController();
+  private documentSearch: AbortController | null = null;
+  private navigationAbort: AbortController | null = null;
+  // Callbacks run when a page has been processed for the current search, with or without measured matches
+  private processedWaiters: Array<{ page: number; notify: () => void }> = [];
+
+  /**
+   * Set the open document: index the text of every page, then search it
+   * Extraction and matching run in the search worker when the file is available,
+   * otherwise on the main thread. The index is cached per file, so reopening it does not re-extract
+   */
+  async setDocument(pdfDoc: PDFDocumentProxy, file?: File): Promise<void> {
+    const key: object = file || pdfDoc;
+    this.restartSearch();
+    this.document = pdfDoc;
+    this.documentKey = key;
+    this.useWorker = !!file && searchWorker.isSupported();
+
+    if (!this.useWorker) {
+      await this.indexOnMainThread(pdfDoc, key);
+      return;
+    }
+
+    if (!textIndex.begin(key, pdfDoc.numPages)) {
+      searchWorker.loadTexts(textIndex.getPageTexts());
+    } else {
+      const data = await file!.arrayBuffer();
+      if (this.documentKey !== key) return; // Another document was opened meanwhile
+
+      searchWorker.loadDocument(data, {
+        onPageText: (page, _pageCount, text) => textIndex.addPage(key, page, text),
+        onIndexed: () => textIndex.complete(key),
+        onError: (message) => {
+          console.warn('Search worker failed to index document, indexing on main thread:', message);
+          if (this.documentKey !== key) return;
+          this.useWorker = false;
+          void this.indexOnMainThread(pdfDoc, key);
+        }
+      });
+    }
+
+    // Searches stream results while the worker is still extracting
+    this.searchDocument();
+  }
+
+  /**
+   * Get the open document if it was opened for the given file (or document) key, so panels can read
+   * page sizes and text positions without loading the file again
+   */
+  getDocument(key: object): PDFDocumentProxy | null {
+    return this.documentKey === key ? this.document : null;
+  }
+
+  /**
+   * Build the text index on the main thread, then search it
+   */
+  private async indexOnMainThread(pdfDoc: PDFDocumentProxy, key: object): Promise<void> {
+    try {
+      await textIndex.build(pdfDoc, key);
+    } catch (error) {
+      console.error('Failed to index document text:', error);
+      return;
+    }
+
+    if (this.documentKey !== key) return;
+    this.searchDocument();
+  }
+
+  /**
+   * Match all terms against every indexed page to get true document-wide counts
+   * Hits are streamed into the store page by page; starting a new search aborts the previous one.
+   * Geometry is not measured here; pages are measured lazily as they are displayed
+   */
+  private searchDocument(): void {
+    this.documentSearch?.abort();
+    this.documentSearch = null;
+
+    if (!this.document) return;
+    if (!this.useWorker && !textIndex.isReady()) return;
+
+    const queries = this.getTermQueries();
+    if (queries.length === 0) return;
+
+    const documentSearch = createLinkedController(this.searchAbort.signal);
+    const signal = documentSearch.signal;
+    this.documentSearch = documentSearch;
+    matchStore.beginDocumentHits();
+
+    const onPageHits = (page: number, hits: MatchSpan[]) => {
+      if (signal.aborted) return;
+      // A measured page must be re-processed so its order matches the document-wide order
+      this.pageStates.delete(page);
+      matchStore.setPageHits(page, hits);
+    };
+
+    if (this.useWorker) {
+      searchWorker.search(queries, {
+        onPageHits,
+        onDone: () => {},
+        onError: (message) => console.error('Document search failed:', message)
+      }, signal);
+    } else {
+      void this.searchPagesOnMainThread(queries, onPageHits, signal);
+    }
+  }
+
+  /**
+   * Main-thread fallback for the worker search
+   */
+  private async searchPagesOnMainThread(
+    queries: TermQuery[],
+    onPageHits: (page: number, hits: MatchSpan[]) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    const pageTexts = textIndex.getPageTexts();
+
+    for (let i = 0; i < pageTexts.length; i++) {
+      if (signal.aborted) return;
+      onPageHits(i + 1, findTermMatches(tokenize(pageTexts[i]), queries));
+
+      // Yield periodically so typing stays responsive
+      if ((i + 1) % PAGES_PER_SLICE === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  }
+
+  /**
+   * Abort all work of the current search and start a new one
+   * Page states are reset so every page is re-processed for the new search
+   */
+  private restartSearch(): void {
+    this.searchAbort.abort();
+    this.searchAbort = new AbortController();
+    this.globalMatchOrder = 0;
+    this.pageStates.clear();
+  }
+
+  /**
+   * Schedule processing of a page once its text layer has settled
+   * The work is tied to the current search: it is dropped if a newer search starts first.
+   * Returns a function that cancels the scheduled or in-flight work
+   */
+  schedulePageSearch(
+    page: number,
+    textElement: HTMLElement,
+    viewport: Viewport,
+    highlightLayer: HTMLElement
+  ): () => void {
+    const scheduled = createLinkedController(this.searchAbort.signal);
+    const query = matchStore.getQuery();
+
+    const timeoutId = setTimeout(() => {
+      if (scheduled.signal.aborted) return;
+      void this.processPageSearch(page, query, textElement, viewport, highlightLayer, scheduled.signal)
+        .finally(() => scheduled.abort()); // Release the link to the search signal
+    }, TEXT_LAYER_SETTLE_MS);
+
+    scheduled.signal.addEventListener('abort', () => clearTimeout(timeoutId), { once: true });
+    return () => scheduled.abort();
+  }
 
   /**
    * Process a search query for a specific page
    * This is the main pipeline: tokenize → match → measure → cache → render
+   * Nothing is written to the store once the signal is aborted or the query is no longer current
    */
   async processPageSearch(
     page: number,
     query: string,
     textElement: HTMLElement,
     viewport: Viewport,
-    highlightLayer: HTMLElement
+    highlightLayer: HTMLElement,
+    signal: AbortSignal = this.searchAbort.signal
   ): Promise<void> {
-    if (!query.trim()) {
-      this.clearPageResults(page, highlightLayer);
+    // Stale request: a newer search has started since this one was scheduled
+    if (signal.aborted || query !== matchStore.getQuery()) return;
+
+    const terms = this.getSearchTerms(query);
+    const searchKey = this.getSearchKey(terms);
+    if (terms.length === 0) {
+      this.clearPageResults(page, highlightLayer, searchKey);
       return;
     }
 
-    // Check if we're already processing this page
+    // Work for an older term set on this page is superseded; identical work is already in flight
     const pageState = this.getPageState(page);
     if (pageState.isProcessing) {
-      return; // Already processing
+      if (pageState.searchKey === searchKey) return;
+      pageState.abort?.abort();
     }
 
-    // Check if we already processed this query for this page
-    if (pageState.isProcessed && pageState.lastQuery === query) {
+    // Check if we already processed this term set for this page
+    if (pageState.isProcessed && pageState.searchKey === searchKey) {
       // Just re-render with current viewport
       this.renderPageHighlights(page, viewport, highlightLayer);
       return;
     }
 
     // Mark as processing
-    this.setPageState(page, { isProcessing: true, isProcessed: false, lastQuery: query });
+    const pageWork = createLinkedController(signal);
+    const pageSignal = pageWork.signal;
+    this.setPageState(page, { isProcessing: true, isProcessed: false, searchKey, abort: pageWork });
 
     try {
-      // Step 1: Tokenize the text content
-      const textContent = textElement.textContent || '';
-      const tokens = tokenize(textContent);
+      // Step 1: Tokenize the text content (line breaks included, so matches can cross lines)
+      const textMap = createTextMap(textElement);
+      const tokens = tokenize(textMap.text);
 
       if (tokens.length === 0) {
-        this.clearPageResults(page, highlightLayer);
+        this.clearPageResults(page, highlightLayer, searchKey);
         return;
       }
 
-      // Step 2: Find matches in the tokens
-      const matchSpans = findMatches(tokens, query);
+      // Step 2: Find matches for every term in the tokens
+      // Reuse the document-wide hits when the text layer text matches the indexed text
+      const documentHits = matchStore.getPageHits(page);
+      const reuseHits = !!documentHits && textIndex.getPageText(page) === textMap.text;
+      const matchSpans = reuseHits ? documentHits! : findTermMatches(tokens, this.getTermQueries(query));
+      const orderOffset = documentHits ? matchStore.getPageHitOffset(page) : null;
+
+      // Reused hits take their document-wide order. Re-matched spans may differ from the counted hits,
+      // so they take the page's orders by position, clamped to its hit count, and never another page's
+      // orders; on a page without counted hits they stay unordered (-1)
+      const getOrder = (i: number): number => {
+        if (orderOffset === null) return this.globalMatchOrder++;
+        if (reuseHits) return orderOffset + i;
+        return documentHits!.length > 0 ? orderOffset + Math.min(i, documentHits!.length - 1) : -1;
+      };
 
       if (matchSpans.length === 0) {
-        this.clearPageResults(page, highlightLayer);
+        this.clearPageResults(page, highlightLayer, searchKey);
         return;
       }
 
-      // Step 3: Measure CSS rectangles for each match
-      const cssRects = measureSubstrings(textElement, matchSpans);
-
-      if (cssRects.length === 0) {
-        this.clearPageResults(page, highlightLayer);
-        return;
-      }
+      // Step 3: Measure CSS fragment rectangles for each match (one per line or span)
+      const cssFragments = measureSubstringFragments(textElement, matchSpans, textMap);
 
       // Step 4: Convert to PDF-space and create MatchRect objects
       const matchRects: MatchRect[] = [];
       
-      for (let i = 0; i < Math.min(matchSpans.length, cssRects.length); i++) {
-        const span = matchSpans[i];
-        const cssRect = cssRects[i];
-        const pdfRect = cssToPdf(cssRect, viewport);
+      matchSpans.forEach((span, i) => {
+        const fragments = cssFragments[i] || [];
+        if (fragments.length === 0) return; // Unmeasurable span (e.g. hidden text)
+
+        const bboxesPdf = fragments.map(cssRect => cssToPdf(cssRect, viewport));
 
         matchRects.push({
           page,
           termId: span.termId,
-          order: this.globalMatchOrder++,
-          bboxPdf: pdfRect,
-          sourceDivId: textElement.id || undefined
+          order: getOrder(i),
+          bboxPdf: unionRects(bboxesPdf),
+          bboxesPdf,
+          sourceDivId: textElement.id || undefined,
+          ...(span.score !== undefined && { score: span.score })
         });
+      });
+
+      // Never write results of a superseded search
+      if (pageSignal.aborted) return;
+
+      if (matchRects.length === 0) {
+        this.clearPageResults(page, highlightLayer, searchKey);
+        return;
       }
 
       // Step 5: Store the PDF-space rectangles
@@ -101,24 +337,130 @@ class SearchController {
       this.renderPageHighlights(page, viewport, highlightLayer);
 
       // Mark as processed
-      this.setPageState(page, { isProcessing: false, isProcessed: true, lastQuery: query });
+      this.setPageState(page, { isProcessing: false, isProcessed: true, searchKey, abort: null });
 
     } catch (error) {
+      if (pageSignal.aborted) return;
       console.error(`Error processing search for page ${page}:`, error);
       this.clearPageResults(page, highlightLayer);
-      this.setPageState(page, { isProcessing: false, isProcessed: false, lastQuery: '' });
+      this.setPageState(page, { isProcessing: false, isProcessed: false, searchKey: '', abort: null });
+    } finally {
+      // Aborted work leaves the page unprocessed so the current search picks it up again
+      if (this.getPageState(page).abort === pageWork) {
+        this.setPageState(page, { isProcessing: false, isProcessed: false, searchKey: '', abort: null });
+      }
+      pageWork.abort(); // Release the link to the search signal
     }
   }
 
+  /**
+   * Build the queries for all terms with their search options
+   * Profile keywords are literal, so the regex and query language options only apply to the free-text query
+   */
+  getTermQueries(query: string = matchStore.getQuery()): TermQuery[] {
+    const options = matchStore.getSearchOptions();
+    const profileTermIds = new Set(matchStore.getProfileTerms().map(term => term.termId));
+
+    return this.getSearchTerms(query).map(term => ({
+      termId: term.termId,
+      text: term.text,
+      options: profileTermIds.has(term.termId) ? { ...options, regex: false, queryLanguage: false } : options
+    }));
+  }
+
+  /**
+   * Get all terms to match: the keyword profile plus the free-text query
+   */
+  getSearchTerms(query: string = matchStore.getQuery()): SearchTerm[] {
+    const terms = [...matchStore.getProfileTerms()];
+
+    // An invalid query (e.g. broken regex) contributes no term
+    if (query.trim() && !validateQuery(query, matchStore.getSearchOptions())) {
+      terms.push({
+        termId: generateTermId(query),
+        text: query,
+        category: 'Search',
+        color: ''
+      });
+    }
+
+    return terms;
+  }
+
+  /**
+   * Check whether there is anything to match (query or profile terms)
+   */
+  hasSearchTerms(): boolean {
+    return this.getSearchTerms().length > 0;
+  }
+
+  /**
+   * Cache key for a term set and the search options, used to detect stale page results
+   */
+  private getSearchKey(terms: SearchTerm[]): string {
+    const options = JSON.stringify(matchStore.getSearchOptions());
+    return `${options}|` + terms.map(term => `${term.termId}:${term.text}`).join('|');
+  }
+
+  /**
+   * Load a keyword profile whose terms are matched alongside the query
+   * Clears previous results so every page is re-processed with the new terms
+   */
+  setKeywordProfile(terms: SearchTerm[]): void {
+    this.restartSearch();
+    matchStore.setProfileTerms(terms);
+    this.searchDocument();
+  }
+
+  /**
+   * Get the currently loaded keyword profile terms
+   */
+  getKeywordProfile(): SearchTerm[] {
+    return matchStore.getProfileTerms();
+  }
+
+  /**
+   * Map term IDs to their category colors for painting
+   */
+  private getTermColors(): Record<string, string> {
+    const colors: Record<string, string> = {};
+    for (const term of matchStore.getProfileTerms()) {
+      if (term.color) {
+        colors[term.termId] = term.color;
+      }
+    }
+    return colors;
+  }
+
   /**
    * Start a new search across all pages
    * Clears previous results and resets global state
    */
   startNewSearch(query: string): void {
+    // Abort in-flight work first, so page work scheduled by the store updates below belongs to the new search
+    this.restartSearch();
+
     // Clear all previous results
     matchStore.setQuery(query);
-    this.globalMatchOrder = 0;
-    this.pageStates.clear();
+    matchStore.setQueryError(validateQuery(query, matchStore.getSearchOptions()));
+    this.searchDocument();
+  }
+
+  /**
+   * Change the search options and re-run the current query
+   */
+  setSearchOptions(options: SearchOptions): void {
+    this.restartSearch();
+    matchStore.setSearchOptions(options);
+    matchStore.setQueryError(validateQuery(matchStore.getQuery(), options));
+    this.searchDocument();
+  }
+
+  /**
+   * Get the current search options
+   */
+  getSearchOptions(): SearchOptions {
+    return matchStore.getSearchOptions();
   }
 
   /**
@@ -135,11 +477,55 @@ class SearchController {
     // Get active match info
     const activeMatch = matchStore.getActiveMatch();
     const activeIndex = activeMatch && activeMatch.page === page 
-      ? matchStore.getPageMatches(page).findIndex(m => m.rect.order === activeMatch.order)
+      ? matchRects.findIndex(rect => rect.order === activeMatch.order)
       : -1;
 
     // Paint highlights from PDF-space coordinates
-    paintHighlights(page, viewport, matchRects, highlightLayer, activeIndex);
+    paintHighlights(page, viewport, matchRects, highlightLayer, activeIndex, this.getTermColors());
+  }
+
+  /**
+   * List every document-wide hit in match order with its term details
+   * Empty until the document search has produced hits
+   */
+  getSearchHits(): SearchHit[] {
+    const terms = new Map(this.getSearchTerms().map(term => [term.termId, term]));
+    const pages = Object.keys(matchStore.getPageMatchCounts())
+      .map(Number)
+      .sort((a, b) => a - b);
+    const hits: SearchHit[] = [];
+    let offset = 0;
+
+    for (const page of pages) {
+      const spans = matchStore.getPageHits(page);
+      if (!spans) continue;
+
+      spans.forEach((span, i) => {
+        const term = terms.get(span.termId);
+        hits.push({
+          order: offset + i,
+          page,
+          termId: span.termId,
+          termText: term?.text || span.termId,
+          category: term?.category || '',
+          color: term?.color || '',
+          startIndex: span.startIndex,
+          endIndex: span.endIndex,
+          score: span.score
+        });
+      });
+      offset += spans.length;
+    }
+
+    return hits;
+  }
+
+  /**
+   * Make a hit active by its global match index and reveal it in the viewer
+   */
+  activateMatch(index: number): void {
+    matchStore.setActiveIndex(index);
+    void this.revealActiveMatch();
   }
 
   /**
@@ -147,7 +533,7 @@ class SearchController {
    */
   nextMatch(): void {
     matchStore.nextMatch();
-    this.scrollToActiveMatch();
+    void this.revealActiveMatch();
   }
 
   /**
@@ -155,55 +541,111 @@ class SearchController {
    */
   prevMatch(): void {
     matchStore.prevMatch();
-    this.scrollToActiveMatch();
+    void this.revealActiveMatch();
   }
 
   /**
-   * Scroll to the currently active match
+   * Bring the active match into view: go to its page, wait for the page to render
+   * and be measured, then center the hit. A newer navigation or search cancels this one
    */
-  private scrollToActiveMatch(): void {
-    const activeMatch = matchStore.getActiveMatch();
-    if (!activeMatch) return;
-
-    // Find the page element and viewport
-    const pageElement = document.querySelector(`[data-page="${activeMatch.page}"]`);
-    if (!pageElement) return;
-
-    // Get current viewport (this would need to be passed in or stored)
-    // For now, we'll use a basic scroll approach
-    if (activeMatch.sourceDivId) {
-      const sourceElement = document.getElementById(activeMatch.sourceDivId);
-      if (sourceElement) {
-        sourceElement.scrollIntoView({ block: 'center', inline: 'center' });
-      }
+  private async revealActiveMatch(): Promise<void> {
+    this.navigationAbort?.abort();
+    const navigation = createLinkedController(this.searchAbort.signal);
+    this.navigationAbort = navigation;
+    const signal = navigation.signal;
+
+    const activeHit = matchStore.getActiveHit();
+    if (!activeHit) return;
+
+    viewerNavigation.goToPage(activeHit.page);
+
+    const viewport = await viewerNavigation.whenPageRendered(activeHit.page, signal);
+    if (!viewport || signal.aborted) return;
+
+    const activeMatch = await this.whenActiveMatchMeasured(activeHit.page, signal);
+    if (!activeMatch || signal.aborted) return;
+
+    // The viewport may have changed (zoom) while waiting for measurement
+    viewerNavigation.centerRect(getMatchScrollRect(activeMatch, viewerNavigation.getViewport() || viewport));
+  }
+
+  /**
+   * Resolve with the active match rectangle once its page has been measured
+   * Resolves with null if the signal is aborted first, if the page is processed without measuring
+   * the match (hidden or unmeasurable text), or if measurement does not finish in time
+   */
+  private whenActiveMatchMeasured(page: number, signal: AbortSignal): Promise<MatchRect | null> {
+    const getActiveMatch = () => {
+      const activeMatch = matchStore.getActiveMatch();
+      return activeMatch && activeMatch.page === page ? activeMatch : null;
+    };
+
+    const measured = getActiveMatch();
+    if (signal.aborted) {
+      return Promise.resolve(null);
+    }
+    if (measured || this.getPageState(page).isProcessed) {
+      return Promise.resolve(measured);
     }
+
+    return new Promise(resolve => {
+      const finish = (match: MatchRect | null) => {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        this.processedWaiters = this.processedWaiters.filter(waiter => waiter !== processed);
+        signal.removeEventListener('abort', onAbort);
+        resolve(match);
+      };
+      const onAbort = () => finish(null);
+      const processed = { page, notify: () => finish(getActiveMatch()) };
+
+      const timeoutId = setTimeout(() => finish(null), ACTIVE_MATCH_TIMEOUT_MS);
+      const unsubscribe = matchStore.subscribe(() => {
+        const activeMatch = getActiveMatch();
+        if (activeMatch) finish(activeMatch);
+      });
+      this.processedWaiters.push(processed);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
    * Get search statistics
    */
-  getSearchStats(): { totalMatches: number; activeIndex: number; query: string } {
+  getSearchStats(): SearchStats {
     return {
       totalMatches: matchStore.getTotalMatches(),
       activeIndex: matchStore.getActiveIndex(),
-      query: matchStore.getQuery()
+      query: matchStore.getQuery(),
+      options: matchStore.getSearchOptions(),
+      error: matchStore.getQueryError(),
+      pageCounts: matchStore.getPageMatchCounts(),
+      indexProgress: textIndex.getProgress()
     };
   }
 
   /**
    * Clear results for a specific page
+   * With a search key the page counts as processed (no matches), so it is not re-processed
    */
-  private clearPageResults(page: number, highlightLayer: HTMLElement): void {
-    matchStore.clearPageMatches(page);
+  private clearPageResults(page: number, highlightLayer: HTMLElement, searchKey?: string): void {
+    if (matchStore.getMatchRects(page).length > 0) {
+      matchStore.clearPageMatches(page);
+    }
     highlightLayer.innerHTML = '';
-    this.setPageState(page, { isProcessing: false, isProcessed: false, lastQuery: '' });
+    this.setPageState(page, {
+      isProcessing: false,
+      isProcessed: searchKey !== undefined,
+      searchKey: searchKey || '',
+      abort: null
+    });
   }
 
   /**
    * Get page processing state
    */
   private getPageState(page: number): PageProcessingState {
-    return this.pageStates.get(page) || { isProcessing: false, isProcessed: false, lastQuery: '' };
+    return this.pageStates.get(page) || { isProcessing: false, isProcessed: false, searchKey: '', abort: null };
   }
 
   /**
@@ -211,14 +653,21 @@ class SearchController {
    */
   private setPageState(page: number, state: PageProcessingState): void {
     this.pageStates.set(page, state);
+
+    if (state.isProcessed) {
+      this.processedWaiters
+        .filter(waiter => waiter.page === page)
+        .forEach(waiter => waiter.notify());
+    }
   }
 
   /**
-   * Check if a page needs processing for the current query
+   * Check if a page needs processing for the current query and profile terms
    */
   needsProcessing(page: number, query: string): boolean {
     const state = this.getPageState(page);
-    return !state.isProcessing && (!state.isProcessed || state.lastQuery !== query);
+    const searchKey = this.getSearchKey(this.getSearchTerms(query));
+    return !state.isProcessing && (!state.isProcessed || state.searchKey !== searchKey);
   }
 
   /**
@@ -259,12 +708,23 @@ class SearchController {
   /**
    * Subscribe to store changes for UI updates
    */
-  subscribe(callback: (stats: { totalMatches: number; activeIndex: number; query: string }) => void): () => void {
-    return matchStore.subscribe(() => {
+  subscribe(callback: (stats: SearchStats) => void): () => void {
+    const unsubscribeStore = matchStore.subscribe(() => {
       callback(this.getSearchStats());
     });
+    const unsubscribeIndex = textIndex.subscribe(() => {
+      callback(this.getSearchStats());
+    });
+
+    return () => {
+      unsubscribeStore();
+      unsubscribeIndex();
+    };
   }
 }
 
 // Export singleton instance
 export const searchController = new SearchController();
+
+// Export types for consumers
+export type { SearchStats };
@@ -1,2 +1,3 @@
 // Controller module exports
 export { searchController } from './controller';
+export type { SearchStats } from './controller';
@@ -0,0 +1,43 @@
+// Unit tests for the deontic requirement classifier
+// Tests modal precedence and sentence spans over page text with line breaks
+
+import { describe, it, expect } from 'vitest';
+import { classifySentence, classifyRequirements } from '../deontic';
+
+describe('Deontic classifier', () => {
+  describe('classifySentence', () => {
+    it('should label each modal', () => {
+      expect(classifySentence('The Contractor shall submit shop drawings.')).toBe('mandatory');
+      expect(classifySentence('Piping must be tested.')).toBe('mandatory');
+      expect(classifySentence('Splices shall not be used.')).toBe('prohibited');
+      expect(classifySentence('Aluminum conduit is not permitted.')).toBe('prohibited');
+      expect(classifySentence('Designers should verify loads.')).toBe('recommended');
+      expect(classifySentence('The Contractor may use either method.')).toBe('permissive');
+      expect(classifySentence('The Government will furnish the meters.')).toBe('government');
+    });
+
+    it('should prefer the strongest modal in a sentence', () => {
+      expect(classifySentence('The Government will inspect and the Contractor shall repair.')).toBe('mandatory');
+      expect(classifySentence('Valves shall\nnot be buried.')).toBe('prohibited');
+    });
+
+    it('should ignore sentences without a modal and month names', () => {
+      expect(classifySentence('This section covers pumps.')).toBeNull();
+      expect(classifySentence('Revised May 2024.')).toBeNull();
+      expect(classifySentence('The shallow trench drains.')).toBeNull();
+    });
+  });
+
+  describe('classifyRequirements', () => {
+    it('should return labeled sentence spans into the page text', () => {
+      const text = '1.1 The Contractor shall\nsubmit data. Tests may be waived.\n1.2 No modal here.';
+      const spans = classifyRequirements(text);
+
+      expect(spans.map(span => [text.substring(span.startIndex, span.endIndex), span.label])).toEqual([
+        ['1.1 The Contractor shall\nsubmit data.', 'mandatory'],
+        ['Tests may be waived.', 'permissive']
+      ]);
+      expect(spans.every(span => span.kind === 'requirement')).toBe(true);
+    });
+  });
+});
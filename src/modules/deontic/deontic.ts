@@ -0,0 +1,78 @@
+// Deontic requirement classifier
+// Labels each sentence of page text by the modal verb that makes it a requirement
+// (shall/must, shall not, should, may, will), following the UFC/UFGS writing conventions
+
+import { AnnotationSpan } from '../../types/viewport';
+import { splitSentences } from '../segmenter/segmenter';
+import { DocumentAnalyzer } from '../analysis/analysis';
+
+type DeonticLabel = 'mandatory' | 'prohibited' | 'recommended' | 'permissive' | 'government';
+
+interface DeonticLabelInfo {
+  label: DeonticLabel;
+  title: string;
+  color: string;
+}
+
+// Annotation kind of classified requirement sentences
+export const REQUIREMENT_KIND = 'requirement';
+
+// Labels in order of precedence: a sentence with several modals takes the first one listed
+export const DEONTIC_LABELS: DeonticLabelInfo[] = [
+  { label: 'prohibited', title: 'Prohibited (shall not / not permitted)', color: '#d32f2f' },
+  { label: 'mandatory', title: 'Mandatory (shall / must)', color: '#1976d2' },
+  { label: 'recommended', title: 'Recommended (should)', color: '#388e3c' },
+  { label: 'permissive', title: 'Permissive (may)', color: '#7b1fa2' },
+  { label: 'government', title: 'Government action (will)', color: '#f57c00' }
+];
+
+// Modal patterns per label; whitespace may include line breaks of the page text
+const DEONTIC_PATTERNS: Record<DeonticLabel, RegExp> = {
+  prohibited: /\b(?:shall|must)\s+not\b|\b(?:shall|must)\s+never\b|\bnot\s+(?:be\s+)?(?:permitted|allowed)\b|\bprohibited\b/i,
+  mandatory: /\b(?:shall|must)\b|\b(?:is|are)\s+required\s+to\b/i,
+  recommended: /\bshould\b/i,
+  // "May" followed by a number is the month, e.g. "May 2024"
+  permissive: /\bmay\b(?!\s+\d)/i,
+  government: /\bwill\b/i
+};
+
+/**
+ * Classify a sentence by its strongest modal, or null if it states no requirement
+ */
+export function classifySentence(sentence: string): DeonticLabel | null {
+  for (const { label } of DEONTIC_LABELS) {
+    if (DEONTIC_PATTERNS[label].test(sentence)) {
+      return label;
+    }
+  }
+  return null;
+}
+
+/**
+ * Segment page text into sentences and return the classified ones as annotation spans
+ * Offsets index into the given text, so spans can be measured on the page's text layer
+ */
+export function classifyRequirements(text: string): AnnotationSpan[] {
+  const spans: AnnotationSpan[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    const label = classifySentence(text.substring(sentence.startIndex, sentence.endIndex));
+    if (label) {
+      spans.push({ startIndex: sentence.startIndex, endIndex: sentence.endIndex, kind: REQUIREMENT_KIND, label });
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Analyzer that annotates every requirement sentence of a page
+ */
+export const requirementAnalyzer: DocumentAnalyzer = {
+  kind: REQUIREMENT_KIND,
+  labels: DEONTIC_LABELS,
+  analyzePage: (text) => classifyRequirements(text)
+};
+
+// Export types for consumers
+export type { DeonticLabel, DeonticLabelInfo };
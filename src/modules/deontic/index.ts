@@ -0,0 +1,3 @@
+// Deontic classifier module exports
+export { classifySentence, classifyRequirements, requirementAnalyzer, DEONTIC_LABELS, REQUIREMENT_KIND } from './deontic';
+export type { DeonticLabel, DeonticLabelInfo } from './deontic';
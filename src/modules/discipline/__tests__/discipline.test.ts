@@ -0,0 +1,99 @@
+// Unit tests for discipline tagging
+// Tests discipline map parsing, UFGS section fallbacks, section tracking across pages and span tagging
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseDisciplineMap,
+  getDisciplineMapType,
+  DisciplineIndex,
+  findSectionBoundaries,
+  getPageStartSections,
+  tagPageDisciplines
+} from '../discipline';
+import csvService from '../../../services/csvService';
+import { AnnotationSpan } from '../../../types/viewport';
+
+const UFGS_MAP = `# Discipline mapping file for UFGS parsing
+# Format: UFGS,Discipline
+UFGS,Discipline
+26 05 33,Electrical
+26 05 13.00 10,Electrical
+22 11 00,Plumbing
+`;
+
+const UFC_MAP = `UFC,Discipline
+3-501-01,Electrical
+3-420-01,Plumbing
+`;
+
+const ufgsRows = csvService.parse(UFGS_MAP);
+const index = new DisciplineIndex(parseDisciplineMap(csvService.parse(UFC_MAP)), parseDisciplineMap(ufgsRows));
+
+function span(text: string, fragment: string, kind = 'requirement'): AnnotationSpan {
+  const startIndex = text.indexOf(fragment);
+  return { startIndex, endIndex: startIndex + fragment.length, kind, label: 'x' };
+}
+
+describe('Discipline', () => {
+  describe('parseDisciplineMap', () => {
+    it('should skip comment lines before the header and detect the key column', () => {
+      expect(parseDisciplineMap(ufgsRows)).toEqual({
+        '26 05 33': 'Electrical',
+        '26 05 13.00 10': 'Electrical',
+        '22 11 00': 'Plumbing'
+      });
+      expect(getDisciplineMapType(ufgsRows)).toBe('ufgs');
+      expect(getDisciplineMapType(csvService.parse(UFC_MAP))).toBe('ufc');
+    });
+  });
+
+  describe('DisciplineIndex', () => {
+    it('should fall back from subsections to their parent section', () => {
+      expect(index.getUfgsDiscipline('26 05 33.13')).toBe('Electrical');
+      expect(index.getUfgsDiscipline('260513.00 10')).toBe('Electrical');
+      expect(index.getUfgsDiscipline('26 05 13')).toBeNull();
+      expect(index.getUfgsDiscipline('23 00 00')).toBeNull();
+    });
+
+    it('should resolve cited UFCs and UFGS sections', () => {
+      expect(index.getCitationDiscipline('UFC 3-501-01')).toBe('Electrical');
+      expect(index.getCitationDiscipline('UFGS\n22 11 00')).toBe('Plumbing');
+      expect(index.getCitationDiscipline('NFPA 70')).toBeNull();
+      expect(index.getDisciplines()).toEqual(['Electrical', 'Plumbing']);
+    });
+  });
+
+  describe('sections', () => {
+    it('should track the section in effect across pages until END OF SECTION', () => {
+      const pages = [
+        'SECTION 22 11 00\nFACILITY WATER DISTRIBUTION',
+        'Pipe shall be copper.\nEND OF SECTION 22 11 00\nSECTION 26 05 33.13',
+        'Conduit shall be steel.',
+        'END OF SECTION 26 05 33.13'
+      ];
+      expect(findSectionBoundaries(pages[1])).toEqual([
+        { index: 22, section: null },
+        { index: 46, section: '26 05 33.13' }
+      ]);
+      expect(getPageStartSections(pages)).toEqual([null, '22 11 00', '26 05 33.13', '26 05 33.13']);
+    });
+  });
+
+  describe('tagPageDisciplines', () => {
+    it('should tag spans by their section and cited documents by their own number', () => {
+      const text = 'Pipe shall be copper. END OF SECTION 22 11 00\nSECTION 26 05 33\nConduit shall comply with UFC 3-420-01.';
+      const tagged = tagPageDisciplines([
+        span(text, 'Pipe shall be copper.'),
+        span(text, 'Conduit shall comply with UFC 3-420-01.'),
+        span(text, 'UFC 3-420-01', 'reference')
+      ], text, '22 11 00', index);
+
+      expect(tagged.map(item => item.discipline)).toEqual(['Plumbing', 'Electrical', 'Plumbing']);
+    });
+
+    it('should leave spans outside mapped sections untagged', () => {
+      const text = 'The Contractor shall submit data.';
+      expect(tagPageDisciplines([span(text, text)], text, null, index)[0].discipline).toBeUndefined();
+    });
+  });
+});
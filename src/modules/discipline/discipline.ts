@@ -0,0 +1,185 @@
+// Discipline tagging driven by UFC_DisciplineMap.csv and UFGS_DisciplineMap.csv
+// Maps UFC numbers and UFGS section numbers to reviewer disciplines (Electrical, Mechanical, ...)
+// and tags annotation spans: cited UFCs/UFGS by their own number, everything else by the UFGS
+// section the span sits in
+
+import { AnnotationSpan } from '../../types/viewport';
+import { CsvRow } from '../../services/csvService';
+
+// "SECTION 26 20 00" heading or running header; "END OF SECTION 26 20 00" closes it
+const SECTION_PATTERN = /(END OF )?SECTION\s+(\d{2}\s?\d{2}\s?\d{2}(?:\.\d{2}(?:\s\d{2})?)?)(?![\d.])/g;
+
+// Cited documents that carry their own discipline
+const UFC_CITATION = /^U?FC\s+(\d-\d{3}-\d{2}[A-Z]{0,2}(?:\.\d+)?)$/;
+const UFGS_CITATION = /^(?:UFGS|SECTION)\s+(\d{2}\s?\d{2}\s?\d{2}(?:\.\d{2}(?:\s\d{2})?)?)$/i;
+
+interface SectionBoundary {
+  index: number;              // Offset of the heading in page text
+  section: string | null;     // Section in effect after the heading; null after "END OF SECTION"
+}
+
+/**
+ * Build a number → discipline map from parsed discipline map rows
+ * The key column is "UFC" or "UFGS", whichever the file has; rows missing either value are skipped
+ */
+export function parseDisciplineMap(rows: CsvRow[]): Record<string, string> {
+  const map: Record<string, string> = {};
+
+  for (const row of rows) {
+    const number = (row['UFGS'] ?? row['UFC'] ?? '').trim();
+    const discipline = (row['Discipline'] || '').trim();
+    if (!number || !discipline) continue;
+
+    map[number] = discipline;
+  }
+
+  return map;
+}
+
+/**
+ * Check which document family a parsed discipline map describes, from its key column
+ */
+export function getDisciplineMapType(rows: CsvRow[]): 'ufc' | 'ufgs' | null {
+  if (rows.length === 0) return null;
+  if ('UFGS' in rows[0]) return 'ufgs';
+  if ('UFC' in rows[0]) return 'ufc';
+  return null;
+}
+
+/**
+ * Normalize a UFGS section number: digit groups separated by single spaces ("262000" → "26 20 00")
+ */
+export function normalizeSectionNumber(section: string): string {
+  const compact = section.replace(/\s+/g, ' ').trim();
+  return compact.replace(/^(\d{2})\s?(\d{2})\s?(\d{2})/, '$1 $2 $3');
+}
+
+/**
+ * Discipline lookups for UFC numbers and UFGS sections
+ * UFGS sections fall back to their parent: "26 05 33.13" uses the discipline of "26 05 33"
+ */
+export class DisciplineIndex {
+  private ufc = new Map<string, string>();
+  private ufgs = new Map<string, string>();
+
+  constructor(ufcMap: Record<string, string> = {}, ufgsMap: Record<string, string> = {}) {
+    Object.entries(ufcMap).forEach(([number, discipline]) => this.ufc.set(number.toUpperCase().trim(), discipline));
+    Object.entries(ufgsMap).forEach(([section, discipline]) => this.ufgs.set(normalizeSectionNumber(section), discipline));
+  }
+
+  /**
+   * Discipline of a UFC number such as "3-501-01"
+   */
+  getUfcDiscipline(number: string): string | null {
+    return this.ufc.get(number.toUpperCase().trim()) || null;
+  }
+
+  /**
+   * Discipline of a UFGS section such as "26 20 00" or "26 05 13.00 10"
+   */
+  getUfgsDiscipline(section: string): string | null {
+    let key = normalizeSectionNumber(section);
+    while (key) {
+      const discipline = this.ufgs.get(key);
+      if (discipline) return discipline;
+
+      // Drop the last suffix: "26 05 13.00 10" → "26 05 13.00" → "26 05 13"
+      const shorter = key.replace(/(?:\s\d{2}|\.\d{2})$/, '');
+      if (shorter === key || shorter.length < 8) break;
+      key = shorter;
+    }
+    return null;
+  }
+
+  /**
+   * Discipline of a cited document ("UFC 3-501-01", "UFGS 26 20 00"), or null if it is not one
+   */
+  getCitationDiscipline(citation: string): string | null {
+    const text = citation.replace(/\s+/g, ' ').trim();
+    const ufc = text.match(UFC_CITATION);
+    if (ufc) return this.getUfcDiscipline(ufc[1]);
+
+    const ufgs = text.match(UFGS_CITATION);
+    return ufgs ? this.getUfgsDiscipline(ufgs[1]) : null;
+  }
+
+  /**
+   * Every discipline in the maps, alphabetically
+   */
+  getDisciplines(): string[] {
+    return Array.from(new Set([...this.ufc.values(), ...this.ufgs.values()])).sort();
+  }
+
+  get size(): number {
+    return this.ufc.size + this.ufgs.size;
+  }
+}
+
+/**
+ * Find UFGS section headings in page text, in order
+ */
+export function findSectionBoundaries(text: string): SectionBoundary[] {
+  const boundaries: SectionBoundary[] = [];
+  SECTION_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = SECTION_PATTERN.exec(text)) !== null) {
+    boundaries.push({ index: match.index, section: match[1] ? null : normalizeSectionNumber(match[2]) });
+  }
+
+  return boundaries;
+}
+
+/**
+ * Section in effect at the start of each page, carried over from the headings of earlier pages
+ */
+export function getPageStartSections(pageTexts: string[]): Array<string | null> {
+  const starts: Array<string | null> = [];
+  let current: string | null = null;
+
+  for (const text of pageTexts) {
+    starts.push(current);
+    const boundaries = findSectionBoundaries(text);
+    if (boundaries.length > 0) {
+      current = boundaries[boundaries.length - 1].section;
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Tag the spans of one page with a discipline
+ * Cited UFCs and UFGS sections take their own discipline; other spans take their section's
+ */
+export function tagPageDisciplines(
+  spans: AnnotationSpan[],
+  text: string,
+  startSection: string | null,
+  index: DisciplineIndex
+): AnnotationSpan[] {
+  const boundaries = findSectionBoundaries(text);
+
+  return spans.map(span => {
+    const discipline = index.getCitationDiscipline(text.substring(span.startIndex, span.endIndex))
+      || sectionDiscipline(span.startIndex, boundaries, startSection, index);
+    return discipline ? { ...span, discipline } : span;
+  });
+}
+
+function sectionDiscipline(
+  offset: number,
+  boundaries: SectionBoundary[],
+  startSection: string | null,
+  index: DisciplineIndex
+): string | null {
+  let section = startSection;
+  for (const boundary of boundaries) {
+    if (boundary.index > offset) break;
+    section = boundary.section;
+  }
+  return section ? index.getUfgsDiscipline(section) : null;
+}
+
+// Export types for consumers
+export type { SectionBoundary };
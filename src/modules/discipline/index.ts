@@ -0,0 +1,11 @@
+// Discipline module exports
+export {
+  parseDisciplineMap,
+  getDisciplineMapType,
+  normalizeSectionNumber,
+  DisciplineIndex,
+  findSectionBoundaries,
+  getPageStartSections,
+  tagPageDisciplines
+} from './discipline';
+export type { SectionBoundary } from './discipline';
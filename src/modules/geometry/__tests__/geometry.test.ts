@@ -0,0 +1,99 @@
+// Unit tests for text layer geometry
+// Tests the text map of a text layer and fragment measurement of ranges across spans and lines
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTextMap, measureSubstringFragments } from '../geometry';
+
+// Width of every glyph in the fake layout (CSS px); lines are 10 px high
+const CHAR_WIDTH = 10;
+
+/**
+ * Text layer of absolutely placed spans, like PDF.js lays them out; null is a line break
+ */
+function createLayer(spans: Array<{ text: string; left: number; top: number } | null>): HTMLElement {
+  const layer = document.createElement('div');
+  for (const span of spans) {
+    if (!span) {
+      layer.appendChild(document.createElement('br'));
+      continue;
+    }
+    const element = document.createElement('span');
+    element.textContent = span.text;
+    element.dataset.left = String(span.left);
+    element.dataset.top = String(span.top);
+    layer.appendChild(element);
+  }
+  document.body.appendChild(layer);
+  return layer;
+}
+
+/**
+ * jsdom does not lay out text; place each glyph of a span at a fixed width from the span's position
+ */
+function getFakeClientRects(this: Range): DOMRect[] {
+  const span = this.startContainer.parentElement!;
+  const left = Number(span.dataset.left) + this.startOffset * CHAR_WIDTH;
+  return [new DOMRect(left, Number(span.dataset.top), (this.endOffset - this.startOffset) * CHAR_WIDTH, 10)];
+}
+
+describe('Geometry', () => {
+  beforeEach(() => {
+    Object.defineProperty(Range.prototype, 'getClientRects', { value: getFakeClientRects, configurable: true });
+  });
+
+  afterEach(() => {
+    delete (Range.prototype as Partial<Range>).getClientRects;
+    document.body.innerHTML = '';
+  });
+
+  describe('createTextMap', () => {
+    it('should join text nodes and turn line breaks into "\\n" without a node', () => {
+      const layer = createLayer([{ text: 'Install ', left: 0, top: 0 }, { text: 'pipe', left: 80, top: 0 }, null, { text: 'hangers', left: 0, top: 20 }]);
+      const textMap = createTextMap(layer);
+
+      expect(textMap.text).toBe('Install pipe\nhangers');
+      expect(textMap.segments.map(segment => [segment.node.data, segment.start, segment.end])).toEqual([
+        ['Install ', 0, 8],
+        ['pipe', 8, 12],
+        ['hangers', 13, 20]
+      ]);
+    });
+  });
+
+  describe('measureSubstringFragments', () => {
+    it('should give one fragment per line for a match crossing two spans and a line break', () => {
+      const layer = createLayer([
+        { text: 'Install cop', left: 0, top: 0 },
+        { text: 'per pipe', left: 110, top: 0 },
+        null,
+        { text: 'hangers now', left: 0, top: 20 }
+      ]);
+      const text = createTextMap(layer).text;
+      const start = text.indexOf('copper');
+      const end = text.indexOf(' now');
+
+      expect(measureSubstringFragments(layer, [{ startIndex: start, endIndex: end }])).toEqual([[
+        [80, 0, 110, 10],
+        [0, 20, 70, 10]
+      ]]);
+    });
+
+    it('should keep fragments on the same line apart when there is a gap between them', () => {
+      const layer = createLayer([{ text: 'pipe', left: 0, top: 0 }, { text: 'hangers', left: 60, top: 0 }]);
+
+      expect(measureSubstringFragments(layer, [{ startIndex: 0, endIndex: 11 }])).toEqual([[
+        [0, 0, 40, 10],
+        [60, 0, 70, 10]
+      ]]);
+    });
+
+    it('should skip whitespace-only fragments and measure each span in order', () => {
+      const layer = createLayer([{ text: 'pipe', left: 0, top: 0 }, { text: ' ', left: 40, top: 0 }, { text: 'cap', left: 100, top: 0 }]);
+
+      expect(measureSubstringFragments(layer, [{ startIndex: 0, endIndex: 8 }, { startIndex: 5, endIndex: 8 }])).toEqual([
+        [[0, 0, 40, 10], [100, 0, 30, 10]],
+        [[100, 0, 30, 10]]
+      ]);
+    });
+  });
+});
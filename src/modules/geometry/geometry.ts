@@ -4,236 +4,214 @@
 import { MatchSpan, CssRect } from '../../types/viewport';
 
 /**
- * Measure tight rectangles for matched substrings within a text element
- * Uses Range API for precise glyph-level measurements
+ * Page text assembled from a text layer, with the text node behind each character range
+ * Line breaks (<br>) contribute a "\n" that has no text node, so matches can cross lines
  */
-export function measureSubstrings(element: HTMLElement, spans: MatchSpan[]): CssRect[] {
+export interface TextMap {
+  text: string;
+  segments: Array<{ node: Text; start: number; end: number }>;
+}
+
+// Rectangles on the same line closer than this (CSS px) are merged into one fragment
+const FRAGMENT_MERGE_GAP = 2;
+
+/**
+ * Build the text map for a text layer element
+ * This is the text the pipeline tokenizes, so match offsets can be mapped back to DOM nodes
+ */
+export function createTextMap(element: HTMLElement): TextMap {
+  let text = '';
+  const segments: TextMap['segments'] = [];
+
+  function traverse(node: Node): void {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const value = node.textContent || '';
+      if (value.length > 0) {
+        segments.push({ node: node as Text, start: text.length, end: text.length + value.length });
+        text += value;
+      }
+    } else if (node.nodeName === 'BR') {
+      text += '\n';
+    } else {
+      for (let i = 0; i < node.childNodes.length; i++) {
+        traverse(node.childNodes[i]);
+      }
+    }
+  }
+
+  traverse(element);
+  return { text, segments };
+}
+
+/**
+ * Measure fragment rectangles for each matched span within a text element
+ * Returns one array per span (same order); a span spread over several spans or lines yields several rects
+ * Spans that cannot be measured yield an empty array; any character range (match or annotation) works
+ */
+export function measureSubstringFragments(
+  element: HTMLElement,
+  spans: Array<Pick<MatchSpan, 'startIndex' | 'endIndex'>>,
+  textMap: TextMap = createTextMap(element)
+): CssRect[][] {
   if (!element || spans.length === 0) {
     return [];
   }
 
+  const elementRect = element.getBoundingClientRect();
+  return spans.map(span => measureTextRange(textMap, span.startIndex, span.endIndex, elementRect));
+}
+
+/**
+ * Measure tight rectangles for matched substrings within a text element
+ * Returns the bounding rectangle of each measurable span's fragments
+ */
+export function measureSubstrings(element: HTMLElement, spans: MatchSpan[]): CssRect[] {
+  return measureSubstringFragments(element, spans)
+    .filter(fragments => fragments.length > 0)
+    .map(fragments => unionRects(fragments));
+}
+
+/**
+ * Measure multiple rectangles for a span that crosses text nodes or line breaks
+ * Returns an array of rectangles, one for each line or span fragment
+ */
+export function measureMultiLineSubstring(
+  element: HTMLElement,
+  startIndex: number,
+  endIndex: number
+): CssRect[] {
+  return measureTextRange(createTextMap(element), startIndex, endIndex, element.getBoundingClientRect());
+}
+
+/**
+ * Measure a character range of the text map, one Range per text node it touches
+ * Uses the Range API for glyph-level measurement, falling back to proportional
+ * estimates from the containing element when the Range API is unavailable
+ */
+function measureTextRange(
+  textMap: TextMap,
+  startIndex: number,
+  endIndex: number,
+  elementRect: DOMRect
+): CssRect[] {
   const rects: CssRect[] = [];
-  const textContent = element.textContent || '';
-  
-  for (const span of spans) {
-    const rect = measureSingleSubstring(element, textContent, span.startIndex, span.endIndex);
-    if (rect) {
-      rects.push(rect);
-    }
+
+  for (const segment of textMap.segments) {
+    if (segment.end <= startIndex) continue;
+    if (segment.start >= endIndex) break;
+
+    const relativeStart = Math.max(startIndex, segment.start) - segment.start;
+    const relativeEnd = Math.min(endIndex, segment.end) - segment.start;
+    const fragment = segment.node.data.substring(relativeStart, relativeEnd);
+
+    // Whitespace between words on different spans is not highlighted on its own
+    if (fragment.trim() === '') continue;
+
+    const nodeRects = measureNodeRange(segment.node, relativeStart, relativeEnd, elementRect);
+    rects.push(...nodeRects);
   }
-  
-  return rects;
+
+  return mergeLineFragments(rects);
 }
 
 /**
- * Measure a single substring using the Range API
- * Returns the tightest possible rectangle around the text
+ * Measure part of a single text node relative to the layer element
  */
-function measureSingleSubstring(
-  element: HTMLElement, 
-  textContent: string, 
-  startIndex: number, 
-  endIndex: number
-): CssRect | null {
+function measureNodeRange(node: Text, start: number, end: number, elementRect: DOMRect): CssRect[] {
   try {
-    // Try Range API first (most accurate)
     const range = document.createRange();
-    const textNode = findTextNodeContaining(element, startIndex);
-    
-    if (textNode) {
-      const nodeStartIndex = getTextNodeStartIndex(element, textNode);
-      const relativeStart = startIndex - nodeStartIndex;
-      const relativeEnd = endIndex - nodeStartIndex;
-      
-      // Ensure indices are within the text node
-      if (relativeStart >= 0 && relativeEnd <= textNode.textContent!.length) {
-        range.setStart(textNode, relativeStart);
-        range.setEnd(textNode, relativeEnd);
-        
-        const domRect = range.getBoundingClientRect();
-        const elementRect = element.getBoundingClientRect();
-        
-        // Convert to element-relative coordinates
-        const cssRect: CssRect = [
-          domRect.left - elementRect.left,
-          domRect.top - elementRect.top,
-          domRect.width,
-          domRect.height
-        ];
-        
-        range.detach();
-        return cssRect;
+    range.setStart(node, start);
+    range.setEnd(node, end);
+
+    if (typeof range.getClientRects === 'function') {
+      const clientRects = Array.from(range.getClientRects());
+      const rects = clientRects
+        .map(domRect => toElementRect(domRect, elementRect))
+        .filter(isValidRect);
+
+      range.detach();
+      if (rects.length > 0) {
+        return rects;
       }
     }
-    
-    // Fallback to element-based measurement
-    return measureWithElementFallback(element, textContent, startIndex, endIndex);
-    
   } catch (error) {
     console.warn('Range measurement failed, using fallback:', error);
-    return measureWithElementFallback(element, textContent, startIndex, endIndex);
   }
+
+  const fallbackRect = measureWithElementFallback(node, start, end, elementRect);
+  return fallbackRect ? [fallbackRect] : [];
 }
 
 /**
- * Fallback measurement using element positioning and font metrics
- * Less accurate but more compatible
+ * Fallback measurement from the containing element's box
+ * Assumes evenly spaced glyphs; less accurate but independent of the Range API
  */
 function measureWithElementFallback(
-  element: HTMLElement,
-  textContent: string,
-  startIndex: number,
-  endIndex: number
+  node: Text,
+  start: number,
+  end: number,
+  elementRect: DOMRect
 ): CssRect | null {
-  try {
-    const computedStyle = window.getComputedStyle(element);
-    const fontSize = parseFloat(computedStyle.fontSize);
-    const fontFamily = computedStyle.fontFamily;
-    
-    // Create a temporary canvas for text measurement
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    
-    ctx.font = `${fontSize}px ${fontFamily}`;
-    
-    // Measure the substring
-    const substring = textContent.substring(startIndex, endIndex);
-    const metrics = ctx.measureText(substring);
-    
-    // Estimate position based on preceding text
-    const precedingText = textContent.substring(0, startIndex);
-    const precedingWidth = ctx.measureText(precedingText).width;
-    
-    // Get element positioning
-    const elementRect = element.getBoundingClientRect();
-    const paddingLeft = parseFloat(computedStyle.paddingLeft) || 0;
-    const paddingTop = parseFloat(computedStyle.paddingTop) || 0;
-    
-    // Estimate rectangle (this is approximate)
-    const cssRect: CssRect = [
-      paddingLeft + precedingWidth,
-      paddingTop,
-      metrics.width,
-      fontSize * 1.2 // Approximate line height
-    ];
-    
-    return cssRect;
-    
-  } catch (error) {
-    console.warn('Fallback measurement failed:', error);
-    return null;
-  }
+  const parent = node.parentElement;
+  const length = node.data.length;
+  if (!parent || length === 0) return null;
+
+  const [left, top, width, height] = toElementRect(parent.getBoundingClientRect(), elementRect);
+  const charWidth = width / length;
+  const cssRect: CssRect = [left + start * charWidth, top, (end - start) * charWidth, height];
+
+  return isValidRect(cssRect) ? cssRect : null;
 }
 
 /**
- * Find the text node that contains the given character index
+ * Convert a viewport-relative DOMRect to coordinates relative to the layer element
  */
-function findTextNodeContaining(element: HTMLElement, charIndex: number): Text | null {
-  let currentIndex = 0;
-  
-  function traverse(node: Node): Text | null {
-    if (node.nodeType === Node.TEXT_NODE) {
-      const textNode = node as Text;
-      const textLength = textNode.textContent?.length || 0;
-      
-      if (charIndex >= currentIndex && charIndex < currentIndex + textLength) {
-        return textNode;
-      }
-      
-      currentIndex += textLength;
-    } else {
-      for (let i = 0; i < node.childNodes.length; i++) {
-        const result = traverse(node.childNodes[i]);
-        if (result) return result;
-      }
-    }
-    
-    return null;
-  }
-  
-  return traverse(element);
+function toElementRect(domRect: DOMRect, elementRect: DOMRect): CssRect {
+  return [
+    domRect.left - elementRect.left,
+    domRect.top - elementRect.top,
+    domRect.width,
+    domRect.height
+  ];
 }
 
 /**
- * Get the starting character index of a text node within its parent element
+ * Merge fragments that sit next to each other on the same line
+ * PDF.js often splits one line into several spans; a match across them should paint as one box
  */
-function getTextNodeStartIndex(element: HTMLElement, targetTextNode: Text): number {
-  let index = 0;
-  
-  function traverse(node: Node): boolean {
-    if (node === targetTextNode) {
-      return true; // Found it
-    }
-    
-    if (node.nodeType === Node.TEXT_NODE) {
-      index += (node as Text).textContent?.length || 0;
+function mergeLineFragments(rects: CssRect[]): CssRect[] {
+  const merged: CssRect[] = [];
+
+  for (const rect of rects) {
+    const previous = merged[merged.length - 1];
+    if (previous && isSameLine(previous, rect) && rect[0] - (previous[0] + previous[2]) <= FRAGMENT_MERGE_GAP) {
+      merged[merged.length - 1] = unionRects([previous, rect]);
     } else {
-      for (let i = 0; i < node.childNodes.length; i++) {
-        if (traverse(node.childNodes[i])) {
-          return true;
-        }
-      }
+      merged.push(rect);
     }
-    
-    return false;
   }
-  
-  traverse(element);
-  return index;
+
+  return merged;
 }
 
 /**
- * Measure multiple rectangles for a span that crosses line breaks
- * Returns an array of rectangles, one for each line segment
+ * Two rectangles are on the same line when their vertical extents mostly overlap
  */
-export function measureMultiLineSubstring(
-  element: HTMLElement,
-  startIndex: number,
-  endIndex: number
-): CssRect[] {
-  const rects: CssRect[] = [];
-  
-  try {
-    const range = document.createRange();
-    const textNode = findTextNodeContaining(element, startIndex);
-    
-    if (!textNode) return rects;
-    
-    const nodeStartIndex = getTextNodeStartIndex(element, textNode);
-    const relativeStart = startIndex - nodeStartIndex;
-    const relativeEnd = Math.min(endIndex - nodeStartIndex, textNode.textContent!.length);
-    
-    range.setStart(textNode, relativeStart);
-    range.setEnd(textNode, relativeEnd);
-    
-    // Get all client rectangles (one per line)
-    const clientRects = range.getClientRects();
-    const elementRect = element.getBoundingClientRect();
-    
-    for (let i = 0; i < clientRects.length; i++) {
-      const domRect = clientRects[i];
-      const cssRect: CssRect = [
-        domRect.left - elementRect.left,
-        domRect.top - elementRect.top,
-        domRect.width,
-        domRect.height
-      ];
-      rects.push(cssRect);
-    }
-    
-    range.detach();
-    
-  } catch (error) {
-    console.warn('Multi-line measurement failed:', error);
-    // Fallback to single rectangle
-    const singleRect = measureSingleSubstring(element, element.textContent || '', startIndex, endIndex);
-    if (singleRect) {
-      rects.push(singleRect);
-    }
-  }
-  
-  return rects;
+function isSameLine(a: CssRect, b: CssRect): boolean {
+  const overlap = Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1]);
+  return overlap > Math.min(a[3], b[3]) / 2;
+}
+
+/**
+ * Bounding rectangle of a set of [x, y, w, h] rectangles
+ * Works for both CSS and PDF rectangles since both store positive extents
+ */
+export function unionRects<T extends CssRect>(rects: T[]): T {
+  const left = Math.min(...rects.map(r => r[0]));
+  const top = Math.min(...rects.map(r => r[1]));
+  const right = Math.max(...rects.map(r => r[0] + r[2]));
+  const bottom = Math.max(...rects.map(r => r[1] + r[3]));
+  return [left, top, right - left, bottom - top] as T;
 }
 
 /**
@@ -1,2 +1,3 @@
 // Geometry module exports
-export { measureSubstrings, measureMultiLineSubstring, extractElementRect, isValidRect } from './geometry';
+export { measureSubstrings, measureSubstringFragments, measureMultiLineSubstring, createTextMap, unionRects, extractElementRect, isValidRect } from './geometry';
+export type { TextMap } from './geometry';
@@ -1,15 +1,36 @@
 // Main module exports - unified API for the refactored architecture
 
 // Core types
-export type { Viewport, PdfRect, CssRect, MatchRect, Token, MatchSpan } from '../types/viewport';
+export type { Viewport, PdfRect, CssRect, MatchRect, Token, MatchSpan, SearchTerm, SearchOptions, TermQuery, AnnotationSpan, AnnotationRect } from '../types/viewport';
 
 // Projector - single source of truth for coordinate conversion
 export { pdfToCss, cssToPdf, createValidationCrosshairs } from './projector';
 
 // Text processing pipeline
-export { tokenize, normalizeText } from './tokenizer';
-export { findMatches, findPartialMatches, findWholeWordMatches, mergeMatches } from './matcher';
-export { measureSubstrings, measureMultiLineSubstring, extractElementRect, isValidRect } from './geometry';
+export { tokenize, normalizeText, normalizeWithOffsets } from './tokenizer';
+export { findMatches, findTermMatches, findQueryMatches, findPartialMatches, findWholeWordMatches, mergeMatches, generateTermId, validateQuery, DEFAULT_SEARCH_OPTIONS } from './matcher';
+export { measureSubstrings, measureSubstringFragments, measureMultiLineSubstring, createTextMap, unionRects, extractElementRect, isValidRect } from './geometry';
+
+// Query language and text segmentation
+export { parseQuery, formatQueryError, getQueryTerms } from './query';
+export type { QueryNode, QueryScope, QueryError, ParseResult } from './query';
+export { splitParagraphs, splitSentences, findSegmentAt, joinPageTexts, splitRangeByPage } from './segmenter';
+export type { TextSegment, PageRange } from './segmenter';
+
+// Keyword profiles (keyword,category,color CSV)
+export { parseKeywordProfile, createProfileTermId, getProfileCategories } from './keyword_profile';
+
+// Document-level text index
+export { textIndex, buildPageText } from './text_index';
+export type { IndexProgress, IndexStatus } from './text_index';
+
+// Search worker - text extraction and matching off the main thread
+export { searchWorker } from './search_worker';
+export type { SearchWorkerRequest, SearchWorkerResponse } from './search_worker';
+
+// Search result listing (snippets and grouping)
+export { buildHitSnippet, groupSearchHits } from './search_results';
+export type { SearchHit, HitSnippet, HitGrouping, HitGroup } from './search_results';
 
 // Storage and state management
 export { matchStore } from './store';
@@ -18,6 +39,7 @@ export type { StoreState } from './store';
 // Rendering system
 export { 
   paintHighlights, 
+  paintAnnotations,
   clearHighlights, 
   updateLayerDimensions, 
   paintDebugCrosshairs,
@@ -27,8 +49,180 @@ export {
   getMatchScrollRect
 } from './renderer';
 
+// Viewer navigation - shared page state the controller can drive
+export { viewerNavigation } from './navigation';
+export type { NavigationState } from './navigation';
+
 // Main controller - orchestrates the complete pipeline
 export { searchController } from './controller';
+export type { SearchStats } from './controller';
+
+// Document analysis - requirement classification and other labeled spans painted on their own layer
+export { classifySentence, classifyRequirements, requirementAnalyzer, DEONTIC_LABELS, REQUIREMENT_KIND } from './deontic';
+export type { DeonticLabel, DeonticLabelInfo } from './deontic';
+export { parseLintRules, createLintQuery, findLintFindings, formatLintDetail, createLintAnalyzer, LINT_KIND } from './lint';
+export type { LintRule } from './lint';
+export {
+  parseReferenceList,
+  parseMasterReferenceXml,
+  parseDatedTitle,
+  normalizeRid,
+  ReferenceCatalog,
+  referenceCatalog,
+  createCitationPattern,
+  findCitations,
+  getCitationStatus,
+  formatCitationDetail,
+  createReferenceAnalyzer,
+  REFERENCE_KIND,
+  REFERENCE_LABELS
+} from './references';
+export type { ReferenceEntry, Citation, ReferenceLabel } from './references';
+export {
+  parseOrganizationList,
+  groupByAcronym,
+  createAcronymPattern,
+  findOrganizationMentions,
+  createOrganizationAnalyzer,
+  ORGANIZATION_KIND
+} from './organizations';
+export type { Organization } from './organizations';
+export {
+  parseUfcMetadata,
+  UfcCatalog,
+  findUfcDesignations,
+  detectDocumentDesignation,
+  findUfcCitations,
+  getUfcCitationLabel,
+  formatUfcCitationDetail,
+  createUfcAnalyzer,
+  UFC_KIND,
+  UFC_LABELS
+} from './ufc_metadata';
+export type { UfcStatus, UfcRecord, UfcCitationLabel, UfcCitation } from './ufc_metadata';
+export {
+  parseDisciplineMap,
+  getDisciplineMapType,
+  normalizeSectionNumber,
+  DisciplineIndex,
+  findSectionBoundaries,
+  getPageStartSections,
+  tagPageDisciplines
+} from './discipline';
+export type { SectionBoundary } from './discipline';
+export {
+  buildCitationGraph,
+  getCitingPages,
+  layoutCitationGraph,
+  getNodeLocalName,
+  toGraphCsvRows,
+  toTurtle,
+  toJsonLd,
+  KG_NAMESPACE,
+  GRAPH_NODE_TYPES
+} from './citation_graph';
+export type { GraphNodeType, GraphNode, CitesEdge, CitationGraph } from './citation_graph';
+export {
+  findUnresolvedItems,
+  formatUnresolvedDetail,
+  getUnresolvedSpans,
+  unresolvedAnalyzer,
+  UNRESOLVED_KIND,
+  UNRESOLVED_LABELS
+} from './unresolved';
+export type { UnresolvedLabel, UnresolvedItem } from './unresolved';
+export {
+  extractSubmittalRegister,
+  findSubmittalArticle,
+  splitSections,
+  parseSubmittalItem,
+  toSubmittalCsvRows,
+  getSubmittalSpans,
+  submittalAnalyzer,
+  SUBMITTAL_KIND,
+  SUBMITTAL_LABELS,
+  SUBMITTAL_DESCRIPTIONS
+} from './submittals';
+export type { SubmittalLabel, SubmittalItem, SubmittalTag, SpecSection, SubmittalRegister } from './submittals';
+export {
+  findPatternFindings,
+  runRules,
+  formatFindingDetail,
+  createRuleAnalyzer,
+  ruleRegistry,
+  RULE_KIND,
+  RULE_SEVERITIES,
+  BUILTIN_RULES
+} from './rules';
+export type { RuleSeverity, RuleFinding, Rule, RuleRegistry } from './rules';
+export {
+  parseHeadings,
+  detectNumberingScheme,
+  buildNumberingTree,
+  validatePartStructure,
+  validateParagraphNumbering,
+  partStructureRule,
+  paragraphNumberingRule,
+  UFGS_PARTS
+} from './numbering';
+export type { NumberingScheme, NumberingIssueType, Heading, NumberingNode, NumberingRoot, NumberingIssue } from './numbering';
+export {
+  getSentenceBody,
+  isImperative,
+  suggestImperative,
+  analyzeStyle,
+  getSectionMoods,
+  isLowImperativeRatio,
+  passiveVoiceRule,
+  imperativeRatioRule,
+  pronounRule,
+  IMPERATIVE_RATIO_THRESHOLD
+} from './style';
+export type { StyleFindingType, StyleFinding, SectionMood } from './style';
+export {
+  parseContractTerms,
+  createTermPattern,
+  getTermFindingKey,
+  findContractTermFindings,
+  findDocumentTermFindings,
+  formatContractTermDetail,
+  getContractTermSpans,
+  createContractTermAnalyzer,
+  serializeTermDecisions,
+  parseTermDecisions,
+  CONTRACT_TERM_KIND,
+  CONTRACT_TERM_LABELS
+} from './contract_terms';
+export type { ContractTermFindingType, TermDecision, ContractTerm, ContractTermFinding, TermDecisionFile } from './contract_terms';
+export {
+  createPageLayout,
+  getBandRect,
+  getExpectedBand,
+  getBandLines,
+  findTitlePageInfo,
+  checkRunningHeaders,
+  formatRunningHeaderDetail,
+  getRunningHeaderSpans,
+  getExpectedBandRegions,
+  createRunningHeaderAnalyzer,
+  RUNNING_HEADER_KIND,
+  RUNNING_HEADER_LABELS,
+  EXPECTED_BAND_LABEL
+} from './running_header';
+export type {
+  RunningHeaderLabel,
+  RunningHeaderField,
+  PageBand,
+  LayoutItem,
+  PageLayout,
+  BandLine,
+  TitlePageInfo,
+  RunningHeaderIssue
+} from './running_header';
+export { annotationStore, getLabelKey } from './annotations';
+export type { AnnotationState } from './annotations';
+export { analysisController } from './analysis';
+export type { DocumentAnalyzer } from './analysis';
 
 // Fallback text layer for PDFs without official text layers
 export { 
@@ -0,0 +1,48 @@
+// Unit tests for keyword profiles
+// Tests term building from profile rows, term IDs and category grouping
+
+import { describe, it, expect } from 'vitest';
+import { parseKeywordProfile, createProfileTermId, getProfileCategories } from '../keyword_profile';
+import csvService from '../../../services/csvService';
+
+const PROFILE = `keyword,category,color
+shall,Requirement,#1e88e5
+must,Requirement,#43a047
+Shall,Duplicate,#000000
+,Empty,#ffffff
+as required,,#fb8c00
+`;
+
+const terms = parseKeywordProfile(csvService.parse(PROFILE));
+
+describe('Keyword profile', () => {
+  describe('parseKeywordProfile', () => {
+    it('should build a term per keyword with its category and color', () => {
+      expect(terms[0]).toEqual({ termId: 'kw_shall', text: 'shall', category: 'Requirement', color: '#1e88e5' });
+    });
+
+    it('should skip empty and duplicate keywords and default the category', () => {
+      expect(terms.map(term => [term.text, term.category])).toEqual([
+        ['shall', 'Requirement'],
+        ['must', 'Requirement'],
+        ['as required', 'Uncategorized']
+      ]);
+    });
+  });
+
+  describe('createProfileTermId', () => {
+    it('should slug keywords, ignoring case and punctuation', () => {
+      expect(createProfileTermId(' As Required ')).toBe('kw_as_required');
+      expect(createProfileTermId('and/or')).toBe('kw_and_or');
+    });
+  });
+
+  describe('getProfileCategories', () => {
+    it('should group keywords by category, keeping the first color', () => {
+      expect(getProfileCategories(terms)).toEqual([
+        { category: 'Requirement', color: '#1e88e5', keywords: ['shall', 'must'] },
+        { category: 'Uncategorized', color: '#fb8c00', keywords: ['as required'] }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,2 @@
+// Keyword profile module exports
+export { parseKeywordProfile, createProfileTermId, getProfileCategories } from './keyword_profile';
@@ -0,0 +1,63 @@
+// Keyword profiles: sets of search terms with per-category highlight colors
+// Mirrors the keywords.csv shape used by the original Streamlit tool (keyword,category,color)
+
+import { SearchTerm } from '../../types/viewport';
+import { CsvRow } from '../../services/csvService';
+
+/**
+ * Build search terms from parsed keyword profile rows
+ * Rows without a keyword are skipped; duplicate keywords keep the first entry
+ */
+export function parseKeywordProfile(rows: CsvRow[]): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const keyword = (row.keyword || '').trim();
+    if (!keyword) continue;
+
+    const termId = createProfileTermId(keyword);
+    if (seen.has(termId)) continue;
+    seen.add(termId);
+
+    terms.push({
+      termId,
+      text: keyword,
+      category: (row.category || '').trim() || 'Uncategorized',
+      color: (row.color || '').trim()
+    });
+  }
+
+  return terms;
+}
+
+/**
+ * Create a stable term ID for a profile keyword
+ * Keywords differing only in case share an ID
+ */
+export function createProfileTermId(keyword: string): string {
+  const slug = keyword
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `kw_${slug}`;
+}
+
+/**
+ * Group terms by category for legends, keeping the first color seen per category
+ */
+export function getProfileCategories(terms: SearchTerm[]): Array<{ category: string; color: string; keywords: string[] }> {
+  const categories = new Map<string, { category: string; color: string; keywords: string[] }>();
+
+  for (const term of terms) {
+    const entry = categories.get(term.category);
+    if (entry) {
+      entry.keywords.push(term.text);
+    } else {
+      categories.set(term.category, { category: term.category, color: term.color, keywords: [term.text] });
+    }
+  }
+
+  return Array.from(categories.values());
+}
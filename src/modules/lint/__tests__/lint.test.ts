@@ -0,0 +1,65 @@
+// Unit tests for the indefinite-term linter
+// Tests rule parsing from the keyword list columns and how keywords match page text
+
+import { describe, it, expect } from 'vitest';
+import { parseLintRules, findLintFindings } from '../lint';
+import csvService from '../../../services/csvService';
+
+const KEYWORD_LIST = `ID,Keyword,Recommended Replacement,Reason,Reference
+1,etc.,"such as","Indefinite item","§2-3.4"
+2,and/or,"Clarify logic","Indefinite item","§2-3.4"
+6,"as necessary","Remove","Escape clause","§2-3.4"
+30,US,"U.S.","Style compliance","§2-2.2.2"
+31,"*(","Add space before '('","Style warning","Format"
+`;
+
+const rules = parseLintRules(csvService.parse(KEYWORD_LIST));
+
+function flagged(text: string): Array<[string, string]> {
+  return findLintFindings(text, rules).map(span => [text.substring(span.startIndex, span.endIndex), span.label]);
+}
+
+describe('Lint', () => {
+  describe('parseLintRules', () => {
+    it('should read every keyword list column', () => {
+      expect(rules[0]).toEqual({
+        id: '1',
+        keyword: 'etc.',
+        replacement: 'such as',
+        reason: 'Indefinite item',
+        reference: '§2-3.4'
+      });
+      expect(rules.map(rule => rule.id)).toEqual(['1', '2', '6', '30', '31']);
+    });
+
+    it('should skip rows without a keyword', () => {
+      expect(parseLintRules([{ ID: '1', Keyword: ' ' }])).toEqual([]);
+    });
+  });
+
+  describe('findLintFindings', () => {
+    it('should flag keywords with punctuation as whole words', () => {
+      expect(flagged('Pipes, valves, etc. and/or fittings; etcetera')).toEqual([
+        ['etc.', '1'],
+        ['and/or', '2']
+      ]);
+    });
+
+    it('should match phrases across line breaks, ignoring case', () => {
+      expect(flagged('Adjust As\nnecessary.')).toEqual([['As\nnecessary', '6']]);
+    });
+
+    it('should match capitalized abbreviations case-sensitively', () => {
+      expect(flagged('Made in the US for us.')).toEqual([['US', '30']]);
+    });
+
+    it('should treat a leading * as any character directly before the rest', () => {
+      expect(flagged('See Table(1) and Figure (2).')).toEqual([['(', '31']]);
+    });
+
+    it('should attach the replacement, reason and citation as detail', () => {
+      expect(findLintFindings('etc.', rules)[0].detail)
+        .toBe('"etc."\nReplace with: such as\nReason: Indefinite item\nReference: §2-3.4');
+    });
+  });
+});
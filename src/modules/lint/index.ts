@@ -0,0 +1,3 @@
+// Lint module exports
+export { parseLintRules, createLintQuery, findLintFindings, formatLintDetail, createLintAnalyzer, LINT_KIND } from './lint';
+export type { LintRule } from './lint';
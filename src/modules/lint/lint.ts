@@ -0,0 +1,121 @@
+// Indefinite-term linter driven by UFGS_KeywordList.csv
+// Each row (ID, Keyword, Recommended Replacement, Reason, Reference) is a rule; every occurrence
+// of its keyword in the page text becomes a lint annotation
+
+import { AnnotationSpan, TermQuery } from '../../types/viewport';
+import { CsvRow } from '../../services/csvService';
+import { tokenize } from '../tokenizer/tokenizer';
+import { findTermMatches, DEFAULT_SEARCH_OPTIONS } from '../matcher/matcher';
+import { DocumentAnalyzer } from '../analysis/analysis';
+
+interface LintRule {
+  id: string;
+  keyword: string;
+  replacement: string;
+  reason: string;
+  reference: string;
+}
+
+// Annotation kind of lint findings; the annotation label is the rule ID
+export const LINT_KIND = 'lint';
+
+// Highlight color shared by all lint rules
+const LINT_COLOR = '#e65100';
+
+// Leading wildcard in a keyword: any non-space character directly before the rest, e.g. "*(" for "word("
+const WILDCARD_PREFIX = '*';
+
+/**
+ * Build lint rules from parsed keyword list rows
+ * Rows without a keyword are skipped; rows without an ID are numbered by position
+ */
+export function parseLintRules(rows: CsvRow[]): LintRule[] {
+  const rules: LintRule[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const keyword = (row['Keyword'] || '').trim();
+    if (!keyword) return;
+
+    const id = (row['ID'] || '').trim() || String(index + 1);
+    if (seen.has(id)) return;
+    seen.add(id);
+
+    rules.push({
+      id,
+      keyword,
+      replacement: (row['Recommended Replacement'] || '').trim(),
+      reason: (row['Reason'] || '').trim(),
+      reference: (row['Reference'] || '').trim()
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * Build the matcher query for a rule
+ * Keywords match as whole words, ignoring case unless written in capitals (abbreviations such as "US")
+ */
+export function createLintQuery(rule: LintRule): TermQuery {
+  const termId = getLintTermId(rule);
+
+  if (rule.keyword.startsWith(WILDCARD_PREFIX)) {
+    const rest = rule.keyword.substring(WILDCARD_PREFIX.length).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return { termId, text: `(?<=\\S)${rest}`, options: { ...DEFAULT_SEARCH_OPTIONS, regex: true } };
+  }
+
+  const caseSensitive = /\p{L}/u.test(rule.keyword) && rule.keyword === rule.keyword.toUpperCase();
+  return { termId, text: rule.keyword, options: { ...DEFAULT_SEARCH_OPTIONS, wholeWord: true, caseSensitive } };
+}
+
+/**
+ * Find every rule occurrence in page text as lint annotations labeled with the rule ID
+ */
+export function findLintFindings(text: string, rules: LintRule[]): AnnotationSpan[] {
+  if (rules.length === 0) return [];
+
+  const rulesByTerm = new Map(rules.map(rule => [getLintTermId(rule), rule]));
+  const spans = findTermMatches(tokenize(text), rules.map(createLintQuery));
+
+  return spans.map(span => {
+    const rule = rulesByTerm.get(span.termId)!;
+    return {
+      startIndex: span.startIndex,
+      endIndex: span.endIndex,
+      kind: LINT_KIND,
+      label: rule.id,
+      detail: formatLintDetail(rule)
+    };
+  });
+}
+
+/**
+ * Tooltip text for a rule: replacement, reason and citation
+ */
+export function formatLintDetail(rule: LintRule): string {
+  return [
+    `"${rule.keyword}"`,
+    rule.replacement && `Replace with: ${rule.replacement}`,
+    rule.reason && `Reason: ${rule.reason}`,
+    rule.reference && `Reference: ${rule.reference}`
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Analyzer that flags every occurrence of the given rules
+ */
+export function createLintAnalyzer(rules: LintRule[]): DocumentAnalyzer {
+  return {
+    kind: LINT_KIND,
+    labels: rules.map(rule => ({ label: rule.id, title: rule.keyword, color: LINT_COLOR })),
+    analyzePage: (text) => findLintFindings(text, rules)
+  };
+}
+
+function getLintTermId(rule: LintRule): string {
+  return `lint_${rule.id}`;
+}
+
+// Export types for consumers
+export type { LintRule };
@@ -0,0 +1,153 @@
+// Unit tests for the matcher module
+// Tests search option modes and mapping of matches back to original text offsets
+
+import { describe, it, expect } from 'vitest';
+import { findMatches, validateQuery, DEFAULT_SEARCH_OPTIONS } from '../matcher';
+import { tokenize } from '../../tokenizer/tokenizer';
+import { SearchOptions } from '../../../types/viewport';
+
+function matchedText(text: string, query: string, options: Partial<SearchOptions> = {}): string[] {
+  const spans = findMatches(tokenize(text), query, { ...DEFAULT_SEARCH_OPTIONS, ...options });
+  return spans.map(span => text.substring(span.startIndex, span.endIndex));
+}
+
+describe('Matcher', () => {
+  describe('Default options', () => {
+    it('should match case-insensitive substrings', () => {
+      expect(matchedText('Shall install. The shallow trench shall drain.', 'shall'))
+        .toEqual(['Shall', 'shall', 'shall']);
+    });
+
+    it('should match phrases across line breaks and repeated spaces', () => {
+      expect(matchedText('notify the Contracting\nOfficer and the Contracting  Officer', 'contracting officer'))
+        .toEqual(['Contracting\nOfficer', 'Contracting  Officer']);
+    });
+
+    it('should return no matches for an empty query', () => {
+      expect(matchedText('Some text', '   ')).toEqual([]);
+    });
+  });
+
+  describe('Whole word', () => {
+    it('should skip matches inside longer words', () => {
+      expect(matchedText('Shall install. The shallow trench shall drain.', 'shall', { wholeWord: true }))
+        .toEqual(['Shall', 'shall']);
+    });
+
+    it('should only require boundaries on word characters at the query edges', () => {
+      expect(matchedText('Paint, patch, etc. as needed', 'etc.', { wholeWord: true }))
+        .toEqual(['etc.']);
+    });
+  });
+
+  describe('Case sensitive', () => {
+    it('should only match identical casing', () => {
+      expect(matchedText('Contractor and contractor', 'Contractor', { caseSensitive: true }))
+        .toEqual(['Contractor']);
+    });
+  });
+
+  describe('Diacritic insensitive', () => {
+    it('should match accented text with an unaccented query', () => {
+      expect(matchedText('Café façade and cafe', 'cafe', { diacriticInsensitive: true }))
+        .toEqual(['Café', 'cafe']);
+    });
+
+    it('should keep offsets aligned when the source uses combining marks', () => {
+      const text = 'Cafe\u0301 open';
+      expect(matchedText(text, 'cafe', { diacriticInsensitive: true })).toEqual(['Cafe\u0301']);
+    });
+
+    it('should not fold accents when disabled', () => {
+      expect(matchedText('Café and cafe', 'cafe')).toEqual(['cafe']);
+    });
+  });
+
+  describe('Regular expressions', () => {
+    it('should match a JavaScript regular expression', () => {
+      expect(matchedText('UFC 3-501-01 and UFC 4-010-01', 'UFC \\d-\\d{3}-\\d{2}', { regex: true }))
+        .toEqual(['UFC 3-501-01', 'UFC 4-010-01']);
+    });
+
+    it('should respect case sensitivity', () => {
+      expect(matchedText('NFPA 70 and nfpa 72', 'NFPA \\d+', { regex: true, caseSensitive: true }))
+        .toEqual(['NFPA 70']);
+    });
+
+    it('should ignore zero-length matches', () => {
+      expect(matchedText('abc', 'x*', { regex: true })).toEqual([]);
+    });
+
+    it('should return no matches for an invalid pattern', () => {
+      expect(matchedText('abc', '(abc', { regex: true })).toEqual([]);
+    });
+  });
+
+  describe('Query language', () => {
+    const text = 'The Contractor shall not install pipe. The Contractor shall provide a warranty.\n'
+      + 'Submit data to the Contracting Officer.';
+
+    it('should highlight every contributing term of a boolean query', () => {
+      expect(matchedText(text, '"shall not" AND (install OR provide)', { queryLanguage: true }))
+        .toEqual(['shall not', 'install', 'provide']);
+    });
+
+    it('should match nothing when a negated term is present', () => {
+      expect(matchedText(text, 'install NOT warranty', { queryLanguage: true })).toEqual([]);
+    });
+
+    it('should evaluate NOT per sentence inside SENTENCE()', () => {
+      expect(matchedText(text, 'SENTENCE(shall NOT warranty)', { queryLanguage: true }))
+        .toEqual(['shall']);
+    });
+
+    it('should only pair terms within the NEAR distance', () => {
+      // Both "Contractor"s are two words away from "install" ("shall not" / "pipe. The")
+      expect(matchedText(text, 'contractor NEAR/2 install', { queryLanguage: true }))
+        .toEqual(['Contractor', 'install', 'Contractor']);
+      expect(matchedText(text, 'contractor NEAR/1 install', { queryLanguage: true })).toEqual([]);
+    });
+
+    it('should report parse errors from validateQuery', () => {
+      expect(validateQuery('(install', { ...DEFAULT_SEARCH_OPTIONS, queryLanguage: true }))
+        .toBe('Missing closing parenthesis (at character 9)');
+    });
+  });
+
+  describe('Fuzzy', () => {
+    it('should ignore stray spaces inside words', () => {
+      expect(matchedText('The Con tractor shall', 'contractor', { fuzzy: true })).toEqual(['Con tractor']);
+    });
+
+    it('should tolerate up to maxEdits errors and score the match', () => {
+      const text = 'The Contrcator shall submit';
+      const spans = findMatches(tokenize(text), 'contractor', { ...DEFAULT_SEARCH_OPTIONS, fuzzy: true, maxEdits: 2 });
+
+      expect(spans.map(span => text.substring(span.startIndex, span.endIndex))).toEqual(['Contrcator']);
+      expect(spans[0].score).toBeCloseTo(0.8);
+    });
+
+    it('should reject matches needing more edits than allowed', () => {
+      expect(matchedText('The Contrcator shall submit', 'contractor', { fuzzy: true, maxEdits: 1 })).toEqual([]);
+    });
+
+    it('should keep exact matches at full score', () => {
+      const spans = findMatches(tokenize('Contractor'), 'contractor', { ...DEFAULT_SEARCH_OPTIONS, fuzzy: true });
+      expect(spans[0].score).toBe(1);
+    });
+
+    it('should not allow edits on very short queries', () => {
+      expect(matchedText('pit and pip', 'pip', { fuzzy: true, maxEdits: 3 })).toEqual(['pip']);
+    });
+  });
+
+  describe('validateQuery', () => {
+    it('should report invalid regular expressions', () => {
+      expect(validateQuery('(abc', { ...DEFAULT_SEARCH_OPTIONS, regex: true })).toBeTruthy();
+    });
+
+    it('should accept any literal query', () => {
+      expect(validateQuery('(abc', DEFAULT_SEARCH_OPTIONS)).toBeNull();
+    });
+  });
+});
@@ -1,2 +1,2 @@
 // Matcher module exports
-export { findMatches, findPartialMatches, findWholeWordMatches, mergeMatches } from './matcher';
+export { findMatches, findTermMatches, findQueryMatches, findPartialMatches, findWholeWordMatches, mergeMatches, generateTermId, validateQuery, DEFAULT_SEARCH_OPTIONS } from './matcher';
@@ -1,48 +1,470 @@
 // Text matching for search queries
 // Finds query matches in tokenized text and returns character spans
 
-import { Token, MatchSpan } from '../../types/viewport';
-import { normalizeText } from '../tokenizer/tokenizer';
+import { Token, MatchSpan, SearchOptions, TermQuery } from '../../types/viewport';
+import { normalizeText, normalizeWithOffsets } from '../tokenizer/tokenizer';
+import { parseQuery, formatQueryError, QueryNode } from '../query/query';
+import { splitSentences, splitParagraphs, TextSegment } from '../segmenter/segmenter';
+
+/**
+ * Default search behaviour: case-insensitive substring matching
+ */
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  wholeWord: false,
+  caseSensitive: false,
+  diacriticInsensitive: false,
+  regex: false,
+  queryLanguage: false,
+  fuzzy: false,
+  maxEdits: 1
+};
+
+// Fuzzy matches allow at most one edit per this many query characters, so short queries stay precise
+const CHARS_PER_EDIT = 4;
+
+// [start, end) in normalized coordinates, with a similarity score for approximate matches
+type NormalizedRange = [number, number, number?];
 
 /**
  * Find all matches of a query in the given tokens
  * Returns character-based spans for precise substring measurement
  */
-export function findMatches(tokens: Token[], query: string): MatchSpan[] {
+export function findMatches(
+  tokens: Token[],
+  query: string,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): MatchSpan[] {
   if (!query.trim() || tokens.length === 0) {
     return [];
   }
 
-  const matches: MatchSpan[] = [];
-  const normalizedQuery = normalizeText(query);
+  if (options.queryLanguage) {
+    return findQueryMatches(tokens, query, options);
+  }
+
   const termId = generateTermId(query);
   
   // Reconstruct the full text from tokens for searching
   const fullText = tokens.map(t => t.text).join('');
-  const normalizedFullText = normalizeText(fullText);
+  // Literal queries treat any whitespace run (including line breaks) as a single space
+  const normalized = normalizeWithOffsets(fullText, { ...options, collapseWhitespace: !options.regex });
+
+  const ranges: NormalizedRange[] = options.regex
+    ? findRegexRanges(normalized.text, query, options)
+    : options.fuzzy
+      ? findFuzzyRanges(normalized.text, query, options)
+      : findLiteralRanges(normalized.text, query, options);
+
+  const matches: MatchSpan[] = [];
+
+  for (const [start, end, score] of ranges) {
+    // Map back to original text coordinates
+    const startIndex = normalized.starts[start];
+    const endIndex = normalized.ends[end - 1];
+
+    if (options.wholeWord && !isWholeWord(fullText, startIndex, endIndex)) {
+      continue;
+    }
+
+    matches.push({
+      startIndex,
+      endIndex,
+      termId,
+      ...(score !== undefined && { score })
+    });
+  }
   
-  // Find all occurrences of the query
+  return matches;
+}
+
+/**
+ * Find matches for several terms at once and tag each span with its term ID
+ * Spans are returned in document order so match order follows the text
+ */
+export function findTermMatches(tokens: Token[], queries: TermQuery[]): MatchSpan[] {
+  const spans: MatchSpan[] = [];
+
+  for (const query of queries) {
+    for (const span of findMatches(tokens, query.text, query.options)) {
+      spans.push({ ...span, termId: query.termId });
+    }
+  }
+
+  return spans.sort((a, b) => a.startIndex - b.startIndex || a.endIndex - b.endIndex);
+}
+
+/**
+ * Validate a query against the search options
+ * Returns a user-facing error message, or null when the query can be searched
+ */
+export function validateQuery(query: string, options: SearchOptions): string | null {
+  if (!query.trim()) {
+    return null;
+  }
+
+  if (options.queryLanguage) {
+    const { error } = parseQuery(query);
+    return error ? formatQueryError(error) : null;
+  }
+
+  if (!options.regex) {
+    return null;
+  }
+
+  try {
+    new RegExp(query, getRegexFlags(options));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+/**
+ * Find matches of a boolean/proximity query (see modules/query for the syntax)
+ * Evaluates the query over the whole text; SENTENCE(...) and PARAGRAPH(...) narrow the scope.
+ * Returns the occurrences of every term that contributed to a match, so all of them are highlighted
+ */
+export function findQueryMatches(
+  tokens: Token[],
+  query: string,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): MatchSpan[] {
+  const { ast } = parseQuery(query);
+  if (!ast || tokens.length === 0) {
+    return [];
+  }
+
+  const termId = generateTermId(query);
+  const context = new QueryEvaluation(tokens, { ...options, regex: false, queryLanguage: false });
+  const result = context.evaluate(ast, { startIndex: 0, endIndex: context.text.length });
+
+  if (!result.matched) {
+    return [];
+  }
+
+  // A term can contribute through several branches; keep each occurrence once
+  const unique = new Map<string, MatchSpan>();
+  for (const span of result.spans) {
+    unique.set(`${span.startIndex}:${span.endIndex}`, { ...span, termId });
+  }
+
+  return Array.from(unique.values())
+    .sort((a, b) => a.startIndex - b.startIndex || a.endIndex - b.endIndex);
+}
+
+interface QueryResult {
+  matched: boolean;
+  spans: MatchSpan[];  // contributing term occurrences
+}
+
+/**
+ * Evaluation state for one query over one text: term occurrences, word positions and
+ * segments are computed once and reused by every node
+ */
+class QueryEvaluation {
+  readonly text: string;
+  private occurrences = new Map<QueryNode, MatchSpan[]>();
+  private wordStarts: number[];
+  private sentences: TextSegment[] | null = null;
+  private paragraphs: TextSegment[] | null = null;
+
+  constructor(private tokens: Token[], private options: SearchOptions) {
+    this.text = tokens.map(t => t.text).join('');
+    this.wordStarts = tokens.filter(t => t.text.trim() !== '').map(t => t.startIndex);
+  }
+
+  /**
+   * Evaluate a node within a unit of text (the whole text, a paragraph or a sentence)
+   */
+  evaluate(node: QueryNode, unit: TextSegment): QueryResult {
+    switch (node.type) {
+      case 'term': {
+        const spans = this.getOccurrences(node)
+          .filter(span => span.startIndex >= unit.startIndex && span.endIndex <= unit.endIndex);
+        return { matched: spans.length > 0, spans };
+      }
+
+      case 'and': {
+        const spans: MatchSpan[] = [];
+        for (const child of node.children) {
+          const result = this.evaluate(child, unit);
+          if (!result.matched) return { matched: false, spans: [] };
+          spans.push(...result.spans);
+        }
+        return { matched: true, spans };
+      }
+
+      case 'or': {
+        const results = node.children.map(child => this.evaluate(child, unit)).filter(r => r.matched);
+        return { matched: results.length > 0, spans: results.flatMap(r => r.spans) };
+      }
+
+      case 'not':
+        return { matched: !this.evaluate(node.child, unit).matched, spans: [] };
+
+      case 'near':
+        return this.evaluateNear(node, unit);
+
+      case 'scope': {
+        const spans: MatchSpan[] = [];
+        let matched = false;
+        for (const segment of this.getSegments(node.scope, unit)) {
+          const result = this.evaluate(node.child, segment);
+          if (result.matched) {
+            matched = true;
+            spans.push(...result.spans);
+          }
+        }
+        return { matched, spans };
+      }
+    }
+  }
+
+  /**
+   * Pair up occurrences of both sides that are at most `distance` words apart
+   * (counting the words strictly between them); only paired occurrences contribute
+   */
+  private evaluateNear(node: Extract<QueryNode, { type: 'near' }>, unit: TextSegment): QueryResult {
+    const left = this.evaluate(node.left, unit);
+    const right = this.evaluate(node.right, unit);
+    if (!left.matched || !right.matched) {
+      return { matched: false, spans: [] };
+    }
+
+    const contributing = new Set<MatchSpan>();
+    for (const a of left.spans) {
+      for (const b of right.spans) {
+        const gap = this.wordGap(a, b);
+        if (gap !== null && gap <= node.distance) {
+          contributing.add(a);
+          contributing.add(b);
+        }
+      }
+    }
+
+    return { matched: contributing.size > 0, spans: Array.from(contributing) };
+  }
+
+  /**
+   * Number of words between two non-overlapping spans, or null if they overlap
+   */
+  private wordGap(a: MatchSpan, b: MatchSpan): number | null {
+    const [first, second] = a.startIndex <= b.startIndex ? [a, b] : [b, a];
+    if (first.endIndex > second.startIndex) return null;
+    return Math.max(0, this.wordIndexAt(second.startIndex) - this.wordIndexAt(first.endIndex - 1) - 1);
+  }
+
+  /**
+   * Index of the word containing (or preceding) a character offset
+   */
+  private wordIndexAt(charIndex: number): number {
+    let low = 0;
+    let high = this.wordStarts.length - 1;
+    let result = 0;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.wordStarts[mid] <= charIndex) {
+        result = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return result;
+  }
+
+  private getOccurrences(node: Extract<QueryNode, { type: 'term' }>): MatchSpan[] {
+    let spans = this.occurrences.get(node);
+    if (!spans) {
+      spans = findMatches(this.tokens, node.text, this.options);
+      this.occurrences.set(node, spans);
+    }
+    return spans;
+  }
+
+  /**
+   * Sentences or paragraphs overlapping a unit, clipped to it
+   */
+  private getSegments(scope: 'sentence' | 'paragraph', unit: TextSegment): TextSegment[] {
+    let segments: TextSegment[];
+    if (scope === 'sentence') {
+      segments = this.sentences = this.sentences || splitSentences(this.text);
+    } else {
+      segments = this.paragraphs = this.paragraphs || splitParagraphs(this.text);
+    }
+
+    return segments
+      .filter(segment => segment.endIndex > unit.startIndex && segment.startIndex < unit.endIndex)
+      .map(segment => ({
+        startIndex: Math.max(segment.startIndex, unit.startIndex),
+        endIndex: Math.min(segment.endIndex, unit.endIndex)
+      }));
+  }
+}
+
+/**
+ * Find all occurrences of a literal query in normalized text
+ * Returns [start, end) ranges in normalized coordinates
+ */
+function findLiteralRanges(normalizedText: string, query: string, options: SearchOptions): NormalizedRange[] {
+  const normalizedQuery = normalizeWithOffsets(query.trim(), { ...options, collapseWhitespace: true }).text;
+  const ranges: NormalizedRange[] = [];
+
+  if (!normalizedQuery) {
+    return ranges;
+  }
+
   let searchIndex = 0;
-  while (searchIndex < normalizedFullText.length) {
-    const matchIndex = normalizedFullText.indexOf(normalizedQuery, searchIndex);
+  while (searchIndex < normalizedText.length) {
+    const matchIndex = normalizedText.indexOf(normalizedQuery, searchIndex);
     if (matchIndex === -1) break;
     
-    // Map back to original text coordinates
-    const startIndex = findOriginalIndex(fullText, normalizedFullText, matchIndex);
-    const endIndex = findOriginalIndex(fullText, normalizedFullText, matchIndex + normalizedQuery.length);
-    
-    if (startIndex !== -1 && endIndex !== -1) {
-      matches.push({
-        startIndex,
-        endIndex,
-        termId
-      });
-    }
-    
+    ranges.push([matchIndex, matchIndex + normalizedQuery.length]);
     searchIndex = matchIndex + 1; // Continue searching after this match
   }
-  
-  return matches;
+
+  return ranges;
+}
+
+/**
+ * Find approximate occurrences of a query in normalized text
+ * Whitespace is ignored on both sides, so "Con tractor" matches "contractor"; up to
+ * options.maxEdits insertions, deletions or substitutions are allowed (capped by query length).
+ * Overlapping candidates are reduced to the closest one; the score is 1 - edits / query length
+ */
+function findFuzzyRanges(normalizedText: string, query: string, options: SearchOptions): NormalizedRange[] {
+  const pattern = normalizeWithOffsets(query, options).text.replace(/\s+/g, '');
+  const ranges: NormalizedRange[] = [];
+  if (!pattern) {
+    return ranges;
+  }
+
+  // Compact text without whitespace, remembering where each character came from
+  let compact = '';
+  const positions: number[] = [];
+  for (let i = 0; i < normalizedText.length; i++) {
+    if (!/\s/.test(normalizedText[i])) {
+      compact += normalizedText[i];
+      positions.push(i);
+    }
+  }
+
+  const m = pattern.length;
+  const maxEdits = Math.max(0, Math.min(options.maxEdits, Math.floor(m / CHARS_PER_EDIT)));
+
+  // Approximate substring search (Sellers): a match may start anywhere in the text.
+  // Column j holds edit distances of pattern prefixes against text ending at j, plus where that alignment started
+  let prevCost = Array.from({ length: m + 1 }, (_, i) => i);
+  let prevStart = new Array<number>(m + 1).fill(0);
+  let current: { start: number; end: number; edits: number } | null = null;
+
+  const pushRange = ({ start, end, edits }: { start: number; end: number; edits: number }) => {
+    ranges.push([positions[start], positions[end - 1] + 1, 1 - edits / m]);
+  };
+
+  const accept = (candidate: { start: number; end: number; edits: number }) => {
+    if (current && candidate.start < current.end) {
+      // Overlapping candidates: keep fewer edits, then the length closest to the pattern
+      const better = candidate.edits < current.edits
+        || (candidate.edits === current.edits
+          && Math.abs(candidate.end - candidate.start - m) < Math.abs(current.end - current.start - m));
+      if (better) current = candidate;
+      return;
+    }
+    if (current) pushRange(current);
+    current = candidate;
+  };
+
+  for (let j = 1; j <= compact.length; j++) {
+    const cost = new Array<number>(m + 1);
+    const start = new Array<number>(m + 1);
+    cost[0] = 0;
+    start[0] = j;
+
+    for (let i = 1; i <= m; i++) {
+      const substitution = prevCost[i - 1] + (pattern[i - 1] === compact[j - 1] ? 0 : 1);
+      const skipText = prevCost[i] + 1;
+      const skipPattern = cost[i - 1] + 1;
+
+      if (substitution <= skipText && substitution <= skipPattern) {
+        cost[i] = substitution;
+        start[i] = prevStart[i - 1];
+      } else if (skipText <= skipPattern) {
+        cost[i] = skipText;
+        start[i] = prevStart[i];
+      } else {
+        cost[i] = skipPattern;
+        start[i] = start[i - 1];
+      }
+    }
+
+    if (cost[m] <= maxEdits && start[m] < j) {
+      accept({ start: start[m], end: j, edits: cost[m] });
+    }
+
+    prevCost = cost;
+    prevStart = start;
+  }
+
+  if (current) pushRange(current);
+  return ranges;
+}
+
+/**
+ * Find all matches of a regular expression in normalized text
+ * Case folding is delegated to the regex "i" flag so the pattern sees original casing rules
+ * Invalid patterns and zero-length matches yield no ranges
+ */
+function findRegexRanges(normalizedText: string, pattern: string, options: SearchOptions): NormalizedRange[] {
+  const ranges: NormalizedRange[] = [];
+  let regex: RegExp;
+
+  try {
+    regex = new RegExp(pattern, getRegexFlags(options));
+  } catch {
+    return ranges;
+  }
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(normalizedText)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++; // Avoid infinite loops on empty matches
+      continue;
+    }
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+
+  return ranges;
+}
+
+/**
+ * Regex flags for the search options
+ * The text is already case-folded unless caseSensitive, so "i" only matters for the pattern itself
+ */
+function getRegexFlags(options: SearchOptions): string {
+  return options.caseSensitive ? 'g' : 'gi';
+}
+
+/**
+ * Check that a match starts and ends on word boundaries in the original text
+ */
+function isWholeWord(text: string, startIndex: number, endIndex: number): boolean {
+  return isWordBoundary(text, startIndex) && isWordBoundary(text, endIndex);
+}
+
+/**
+ * A boundary exists unless word characters sit on both sides of the index
+ */
+function isWordBoundary(text: string, index: number): boolean {
+  const before = index > 0 ? text[index - 1] : '';
+  const after = index < text.length ? text[index] : '';
+  return !(isWordChar(before) && isWordChar(after));
+}
+
+function isWordChar(char: string): boolean {
+  return char !== '' && /[\p{L}\p{N}_]/u.test(char);
 }
 
 /**
@@ -121,7 +543,7 @@ export function findWholeWordMatches(tokens: Token[], query: string): MatchSpan[
  * Generate a unique term ID for a query
  * Used for grouping and styling matches
  */
-function generateTermId(query: string): string {
+export function generateTermId(query: string): string {
   // Simple hash function for term ID
   let hash = 0;
   for (let i = 0; i < query.length; i++) {
@@ -132,32 +554,6 @@ function generateTermId(query: string): string {
   return `term_${Math.abs(hash)}`;
 }
 
-/**
- * Map normalized text index back to original text index
- * Handles the case where normalization changes character positions
- */
-function findOriginalIndex(originalText: string, normalizedText: string, normalizedIndex: number): number {
-  // For simple case where normalization only changes case
-  if (originalText.length === normalizedText.length) {
-    return normalizedIndex;
-  }
-  
-  // More complex mapping needed for Unicode normalization
-  // This is a simplified implementation - could be enhanced for complex cases
-  let originalIndex = 0;
-  let normalizedCount = 0;
-  
-  while (originalIndex < originalText.length && normalizedCount < normalizedIndex) {
-    const originalChar = originalText[originalIndex];
-    const normalizedChar = originalChar.normalize('NFKC').toLowerCase();
-    
-    normalizedCount += normalizedChar.length;
-    originalIndex++;
-  }
-  
-  return originalIndex;
-}
-
 /**
  * Merge overlapping or adjacent matches
  * Useful for cleaning up match results
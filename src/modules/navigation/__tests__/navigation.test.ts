@@ -0,0 +1,78 @@
+// Unit tests for the shared viewer navigation state
+// Tests page changes, waiting for renders and centering a rectangle in the viewer
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { viewerNavigation } from '../navigation';
+import { Viewport } from '../../../types/viewport';
+
+const VIEWPORT: Viewport = { width: 612, height: 792, scale: 1, rotation: 0 };
+
+describe('Viewer navigation', () => {
+  beforeEach(() => {
+    viewerNavigation.setDocument(5);
+  });
+
+  describe('goToPage', () => {
+    it('should clamp to the document and notify listeners of changes only', () => {
+      const listener = vi.fn();
+      const unsubscribe = viewerNavigation.subscribe(listener);
+
+      viewerNavigation.goToPage(9);
+      viewerNavigation.goToPage(5);
+      unsubscribe();
+
+      expect(viewerNavigation.getCurrentPage()).toBe(5);
+      expect(listener).toHaveBeenCalledTimes(1);
+      viewerNavigation.goToPage(0);
+      expect(viewerNavigation.getCurrentPage()).toBe(1);
+    });
+
+    it('should clear the viewport until the new page is rendered', () => {
+      viewerNavigation.setPageRendered(1, VIEWPORT);
+      viewerNavigation.goToPage(2);
+
+      expect(viewerNavigation.getViewport()).toBeNull();
+    });
+  });
+
+  describe('whenPageRendered', () => {
+    it('should resolve once the page is rendered, ignoring renders of pages already left', async () => {
+      viewerNavigation.goToPage(3);
+      const rendered = viewerNavigation.whenPageRendered(3);
+
+      viewerNavigation.setPageRendered(1, { ...VIEWPORT, scale: 2 });
+      viewerNavigation.setPageRendered(3, VIEWPORT);
+
+      expect(await rendered).toEqual(VIEWPORT);
+      expect(await viewerNavigation.whenPageRendered(3)).toEqual(VIEWPORT);
+    });
+
+    it('should resolve with null when aborted or when another document is opened', async () => {
+      const navigation = new AbortController();
+      const aborted = viewerNavigation.whenPageRendered(2, navigation.signal);
+      const replaced = viewerNavigation.whenPageRendered(2);
+
+      navigation.abort();
+      viewerNavigation.setDocument(3);
+
+      expect(await aborted).toBeNull();
+      expect(await replaced).toBeNull();
+    });
+  });
+
+  describe('centerRect', () => {
+    it('should scroll the page rectangle to the middle of the viewer', () => {
+      const container = document.createElement('div');
+      const pageElement = document.createElement('div');
+      Object.defineProperty(container, 'clientWidth', { value: 400 });
+      Object.defineProperty(container, 'clientHeight', { value: 300 });
+      container.scrollTo = vi.fn();
+      viewerNavigation.attach(container, pageElement);
+
+      viewerNavigation.centerRect({ left: 100, top: 1000, width: 40, height: 20 });
+      viewerNavigation.attach(null, null);
+
+      expect(container.scrollTo).toHaveBeenCalledWith({ left: -80, top: 860, behavior: 'smooth' });
+    });
+  });
+});
@@ -0,0 +1,3 @@
+// Navigation module exports
+export { viewerNavigation } from './navigation';
+export type { NavigationState } from './navigation';
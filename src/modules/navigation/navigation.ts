@@ -0,0 +1,180 @@
+// Shared viewer navigation state
+// PDFViewer renders whatever page this holds, so the controller can change pages and wait for renders
+
+import { Viewport } from '../../types/viewport';
+
+interface NavigationState {
+  currentPage: number;
+  pageCount: number;
+  renderedPage: number | null;   // page whose canvas and layers match `viewport`
+  viewport: Viewport | null;
+}
+
+class ViewerNavigation {
+  private state: NavigationState = {
+    currentPage: 1,
+    pageCount: 0,
+    renderedPage: null,
+    viewport: null
+  };
+
+  private scrollContainer: HTMLElement | null = null;
+  private pageElement: HTMLElement | null = null;
+  private renderWaiters: Array<{ page: number; resolve: (viewport: Viewport | null) => void }> = [];
+  private listeners: Array<(state: NavigationState) => void> = [];
+
+  /**
+   * Reset navigation for a newly opened document
+   */
+  setDocument(pageCount: number): void {
+    this.resolveRenderWaiters(null);
+    this.state = { currentPage: 1, pageCount, renderedPage: null, viewport: null };
+    this.notifyListeners();
+  }
+
+  /**
+   * Go to a page (1-based, clamped to the document)
+   */
+  goToPage(page: number): void {
+    const target = Math.max(1, Math.min(page, Math.max(1, this.state.pageCount)));
+    if (target === this.state.currentPage) return;
+
+    this.state.currentPage = target;
+    this.state.renderedPage = null;
+    this.notifyListeners();
+  }
+
+  /**
+   * Get the page the viewer shows (or is about to show)
+   */
+  getCurrentPage(): number {
+    return this.state.currentPage;
+  }
+
+  /**
+   * Get the number of pages in the open document
+   */
+  getPageCount(): number {
+    return this.state.pageCount;
+  }
+
+  /**
+   * Register the scrolling viewer element and the page element inside it
+   */
+  attach(scrollContainer: HTMLElement | null, pageElement: HTMLElement | null): void {
+    this.scrollContainer = scrollContainer;
+    this.pageElement = pageElement;
+  }
+
+  /**
+   * Record that a page finished rendering with the given viewport
+   * Called by the viewer after every render, including zoom changes
+   */
+  setPageRendered(page: number, viewport: Viewport): void {
+    if (page !== this.state.currentPage) return; // Render of a page we already left
+
+    this.state.renderedPage = page;
+    this.state.viewport = viewport;
+
+    const waiting = this.renderWaiters.filter(waiter => waiter.page === page);
+    this.renderWaiters = this.renderWaiters.filter(waiter => waiter.page !== page);
+    waiting.forEach(waiter => waiter.resolve(viewport));
+
+    this.notifyListeners();
+  }
+
+  /**
+   * Get the viewport of the rendered page, or null while a render is pending
+   */
+  getViewport(): Viewport | null {
+    return this.state.renderedPage !== null ? this.state.viewport : null;
+  }
+
+  /**
+   * Resolve with the page's viewport once it is rendered
+   * Resolves with null if the signal is aborted or another document is opened first
+   */
+  whenPageRendered(page: number, signal?: AbortSignal): Promise<Viewport | null> {
+    if (this.state.renderedPage === page && this.state.viewport) {
+      return Promise.resolve(this.state.viewport);
+    }
+    if (signal?.aborted) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const waiter = {
+        page,
+        resolve: (viewport: Viewport | null) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(viewport);
+        }
+      };
+      const onAbort = () => {
+        this.renderWaiters = this.renderWaiters.filter(w => w !== waiter);
+        resolve(null);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.renderWaiters.push(waiter);
+    });
+  }
+
+  /**
+   * Scroll the viewer so a rectangle on the current page (page CSS pixels) is centered
+   */
+  centerRect(rect: { left: number; top: number; width: number; height: number }): void {
+    const container = this.scrollContainer;
+    const pageElement = this.pageElement;
+    if (!container || !pageElement) return;
+
+    // Page position inside the scroll container's content
+    const containerBox = container.getBoundingClientRect();
+    const pageBox = pageElement.getBoundingClientRect();
+    const pageLeft = pageBox.left - containerBox.left + container.scrollLeft;
+    const pageTop = pageBox.top - containerBox.top + container.scrollTop;
+
+    container.scrollTo({
+      left: pageLeft + rect.left + rect.width / 2 - container.clientWidth / 2,
+      top: pageTop + rect.top + rect.height / 2 - container.clientHeight / 2,
+      behavior: 'smooth'
+    });
+  }
+
+  /**
+   * Subscribe to navigation changes
+   */
+  subscribe(listener: (state: NavigationState) => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private resolveRenderWaiters(viewport: Viewport | null): void {
+    const waiting = this.renderWaiters;
+    this.renderWaiters = [];
+    waiting.forEach(waiter => waiter.resolve(viewport));
+  }
+
+  private notifyListeners(): void {
+    const snapshot = { ...this.state };
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('Navigation listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const viewerNavigation = new ViewerNavigation();
+
+// Export types for consumers
+export type { NavigationState };
@@ -0,0 +1,116 @@
+// Unit tests for the part structure and paragraph numbering checks
+// Tests heading parsing, the numbering tree and the issues anchored to headings
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseHeadings,
+  detectNumberingScheme,
+  buildNumberingTree,
+  validatePartStructure,
+  validateParagraphNumbering,
+  partStructureRule,
+  paragraphNumberingRule
+} from '../numbering';
+
+function lines(...text: string[]): string {
+  return text.join('\n');
+}
+
+function findingTexts(text: string, rule: typeof partStructureRule): Array<[string, string]> {
+  return rule.run(text, [text]).map(finding => [text.substring(finding.startIndex, finding.endIndex), finding.message]);
+}
+
+describe('Numbering', () => {
+  describe('parseHeadings', () => {
+    it('should read PART and UFGS paragraph headings, skipping wrapped measurements', () => {
+      const text = lines('PART 1 GENERAL', '1.1 REFERENCES', 'Provide plates', '1.5 mm thick.', '1.1.1 Submittal Procedures');
+      const headings = parseHeadings(text, 'ufgs');
+
+      expect(headings.map(heading => [heading.number, heading.root, heading.levels, heading.title])).toEqual([
+        ['PART 1', '1', [], 'GENERAL'],
+        ['1.1', '1', [1], 'REFERENCES'],
+        ['1.1.1', '1', [1, 1], 'Submittal Procedures']
+      ]);
+      expect(text.substring(headings[1].startIndex, headings[1].endIndex)).toBe('1.1 REFERENCES');
+    });
+
+    it('should read UFC chapter numbering and skip table of contents entries', () => {
+      const text = lines('2-1 GENERAL ........ 5', '2-1 GENERAL', '2-1.1 Scope', 'A-1 APPENDIX ITEMS');
+      expect(parseHeadings(text, 'ufc').map(heading => heading.number)).toEqual(['2-1', '2-1.1', 'A-1']);
+    });
+  });
+
+  describe('detectNumberingScheme', () => {
+    it('should tell UFGS sections from UFCs', () => {
+      expect(detectNumberingScheme('SECTION 09 90 00\nPAINTS')).toBe('ufgs');
+      expect(detectNumberingScheme('CHAPTER 1 INTRODUCTION\n1-1 PURPOSE')).toBe('ufc');
+    });
+  });
+
+  describe('buildNumberingTree', () => {
+    it('should nest paragraphs under their PART and parent paragraph', () => {
+      const text = lines('PART 1 GENERAL', '1.1 SUMMARY', '1.1.1 Scope', '1.2 SUBMITTALS', 'PART 2 PRODUCTS', '2.1 MATERIALS');
+      const roots = buildNumberingTree(parseHeadings(text, 'ufgs'));
+
+      expect(roots.map(root => [root.root, root.children.map(node => node.heading.number)])).toEqual([
+        ['1', ['1.1', '1.2']],
+        ['2', ['2.1']]
+      ]);
+      expect(roots[0].children[0].children.map(node => node.heading.number)).toEqual(['1.1.1']);
+    });
+  });
+
+  describe('validatePartStructure', () => {
+    it('should flag missing, out-of-order and mistitled parts', () => {
+      const text = lines('PART 1 GENERAL', 'PART 3 PRODUCTS', 'PART 2 PRODUCTS');
+
+      expect(findingTexts(text, partStructureRule)).toEqual([
+        ['PART 3 PRODUCTS', 'PART 2 PRODUCTS is missing before PART 3'],
+        ['PART 3 PRODUCTS', 'PART 3 should be titled EXECUTION'],
+        ['PART 2 PRODUCTS', 'PART 2 follows PART 3']
+      ]);
+    });
+
+    it('should check each section of a combined document', () => {
+      const text = lines('PART 1 GENERAL', 'PART 2 PRODUCTS', 'PART 3 EXECUTION', 'PART 1 GENERAL', 'PART 2 PRODUCTS');
+      expect(validatePartStructure(text, parseHeadings(text, 'ufgs')).map(issue => issue.message)).toEqual([
+        'PART 3 EXECUTION is missing after PART 2'
+      ]);
+    });
+
+    it('should flag a section without parts', () => {
+      expect(validatePartStructure('SECTION 09 90 00\n1.1 SUMMARY', [])).toMatchObject([{ type: 'missing-part' }]);
+    });
+  });
+
+  describe('validateParagraphNumbering', () => {
+    it('should flag skipped numbers, duplicates, level jumps and misplaced paragraphs', () => {
+      const text = lines(
+        'PART 1 GENERAL',
+        '1.1 SUMMARY',
+        '1.3 SUBMITTALS',
+        '1.3.1.1 Shop Drawings',
+        '1.3 QUALITY CONTROL',
+        'PART 2 PRODUCTS',
+        '3.1 MATERIALS'
+      );
+
+      expect(findingTexts(text, paragraphNumberingRule)).toEqual([
+        ['1.3 SUBMITTALS', 'Paragraph 1.2 is missing before 1.3'],
+        ['1.3.1.1 Shop Drawings', 'Paragraph 1.3.1.1 skips a level below 1.3'],
+        ['1.3 QUALITY CONTROL', 'Paragraph 1.3 is numbered twice'],
+        ['3.1 MATERIALS', 'Paragraph 3.1 is under PART 2']
+      ]);
+    });
+
+    it('should follow UFC chapter numbering', () => {
+      const text = lines('1-1 PURPOSE', '1-2 SCOPE', '1-2.2 Exclusions', '2-1 GENERAL', '2-1.1 Loads', '1-3 REFERENCES');
+      const issues = validateParagraphNumbering(buildNumberingTree(parseHeadings(text, 'ufc')), 'ufc');
+
+      expect(issues.map(issue => [issue.type, issue.message])).toEqual([
+        ['skipped', 'Paragraph 1-2.1 is missing before 1-2.2'],
+        ['out-of-order', 'Paragraph 1-3 follows chapter 2']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,12 @@
+// Numbering module exports
+export {
+  parseHeadings,
+  detectNumberingScheme,
+  buildNumberingTree,
+  validatePartStructure,
+  validateParagraphNumbering,
+  partStructureRule,
+  paragraphNumberingRule,
+  UFGS_PARTS
+} from './numbering';
+export type { NumberingScheme, NumberingIssueType, Heading, NumberingNode, NumberingRoot, NumberingIssue } from './numbering';
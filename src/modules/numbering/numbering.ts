@@ -0,0 +1,328 @@
+// Section part structure and paragraph numbering checks (writing standards 5.1 and 5.3)
+// Heading lines are read from the document text: UFGS sections have PART 1 GENERAL, PART 2 PRODUCTS
+// and PART 3 EXECUTION with paragraphs 1.1, 1.2, 1.2.1…; UFCs number paragraphs by chapter (2-1, 2-1.1)
+
+import { Rule, RuleFinding } from '../rules/rules';
+
+type NumberingScheme = 'ufgs' | 'ufc';
+
+type NumberingIssueType = 'missing-part' | 'part-order' | 'part-title' | 'skipped' | 'duplicate' | 'level-jump' | 'out-of-order';
+
+interface Heading {
+  number: string;       // As printed, e.g. "1.2.3", "2-1.1" or "PART 2"
+  root: string;         // PART, chapter or appendix the number belongs to, e.g. "1", "2" or "A"
+  levels: number[];     // Numbers below the root, e.g. [2, 3] for "1.2.3" and [1, 1] for "2-1.1"
+  title: string;
+  isPart: boolean;
+  startIndex: number;   // Range of the heading line in the document text
+  endIndex: number;
+}
+
+interface NumberingNode {
+  heading: Heading;
+  children: NumberingNode[];
+}
+
+// Paragraphs under one PART, chapter or appendix
+interface NumberingRoot {
+  root: string;
+  heading: Heading | null;   // The PART heading; null for chapters, which have no numbered heading line
+  children: NumberingNode[];
+}
+
+interface NumberingIssue {
+  type: NumberingIssueType;
+  message: string;
+  startIndex: number;
+  endIndex: number;
+}
+
+// Parts every UFGS section contains, in order
+export const UFGS_PARTS = ['GENERAL', 'PRODUCTS', 'EXECUTION'];
+
+// "PART 2 PRODUCTS", "PART 2 - PRODUCTS"
+const PART_HEADING = /^[ \t]*PART[ \t]+(\d+)[ \t]*[-–—:]?[ \t]*(\p{Lu}[\p{Lu} ,&/-]*?)?[ \t]*$/gmu;
+
+// "1.2.3 Title"; the title starts with a capital, so wrapped measurements such as "1.5 mm" are not headings
+const UFGS_HEADING = /^[ \t]*(\d+)((?:\.\d+)+)\.?[ \t]+(\p{Lu}.*?)[ \t]*$/gmu;
+
+// "2-1.1 Title", "A-3 TITLE"
+const UFC_HEADING = /^[ \t]*(\d+|[A-Z])-(\d+(?:\.\d+)*)\.?[ \t]+(\p{Lu}.*?)[ \t]*$/gmu;
+
+// Table of contents entry: dot leaders, or in a UFC a page number after the title
+const DOT_LEADER = /\.{3,}|…/;
+const TOC_PAGE_NUMBER = /\s\d+$/;
+
+// UFGS section number, printed in headers and on the first page
+const SECTION_NUMBER = /\bSECTION[ \t]+\d{2}[ \t]+\d{2}[ \t]+\d{2}\b/;
+
+/**
+ * Find PART and numbered paragraph heading lines in document order
+ * Paragraph numbers follow the UFGS (1.2.3) or UFC (2-1.1) scheme
+ */
+export function parseHeadings(text: string, scheme: NumberingScheme): Heading[] {
+  const headings: Heading[] = [];
+
+  for (const match of text.matchAll(PART_HEADING)) {
+    headings.push({
+      number: `PART ${match[1]}`,
+      root: match[1],
+      levels: [],
+      title: match[2] || '',
+      isPart: true,
+      startIndex: match.index! + match[0].search(/\S/),
+      endIndex: match.index! + match[0].trimEnd().length
+    });
+  }
+
+  const pattern = scheme === 'ufgs' ? UFGS_HEADING : UFC_HEADING;
+  for (const match of text.matchAll(pattern)) {
+    if (DOT_LEADER.test(match[3]) || (scheme === 'ufc' && TOC_PAGE_NUMBER.test(match[3]))) continue;
+
+    const levels = (scheme === 'ufgs' ? match[2].substring(1) : match[2]).split('.').map(Number);
+    headings.push({
+      number: scheme === 'ufgs' ? `${match[1]}${match[2]}` : `${match[1]}-${match[2]}`,
+      root: match[1],
+      levels,
+      title: match[3],
+      isPart: false,
+      startIndex: match.index! + match[0].search(/\S/),
+      endIndex: match.index! + match[0].trimEnd().length
+    });
+  }
+
+  return headings.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * UFGS when the text has PART headings or a UFGS section number, UFC otherwise
+ */
+export function detectNumberingScheme(text: string): NumberingScheme {
+  return text.search(PART_HEADING) !== -1 || SECTION_NUMBER.test(text) ? 'ufgs' : 'ufc';
+}
+
+/**
+ * Arrange paragraph headings into a tree per PART, chapter or appendix
+ * A heading goes under the closest preceding heading with fewer levels, whatever its number
+ */
+export function buildNumberingTree(headings: Heading[]): NumberingRoot[] {
+  const roots: NumberingRoot[] = [];
+  let stack: NumberingNode[] = [];
+
+  for (const heading of headings) {
+    let current = roots[roots.length - 1];
+    if (heading.isPart || !current || (current.heading === null && current.root !== heading.root)) {
+      current = { root: heading.root, heading: heading.isPart ? heading : null, children: [] };
+      roots.push(current);
+      stack = [];
+      if (heading.isPart) continue;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].heading.levels.length >= heading.levels.length) {
+      stack.pop();
+    }
+
+    const node: NumberingNode = { heading, children: [] };
+    (stack.length > 0 ? stack[stack.length - 1].children : current.children).push(node);
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+/**
+ * Check that a section has PART 1 GENERAL, PART 2 PRODUCTS and PART 3 EXECUTION in order (5.1)
+ * A PART 1 after other parts starts the next section of a combined document
+ */
+export function validatePartStructure(text: string, headings: Heading[]): NumberingIssue[] {
+  const issues: NumberingIssue[] = [];
+  const parts = headings.filter(heading => heading.isPart);
+
+  if (parts.length === 0) {
+    const section = SECTION_NUMBER.exec(text);
+    if (section) {
+      issues.push({
+        type: 'missing-part',
+        message: 'Section has no PART 1 GENERAL, PART 2 PRODUCTS or PART 3 EXECUTION',
+        startIndex: section.index,
+        endIndex: section.index + section[0].length
+      });
+    }
+    return issues;
+  }
+
+  // Sections of the document: runs of parts, each starting at a PART 1
+  const sections: Heading[][] = [];
+  for (const part of parts) {
+    if (part.root === '1' || sections.length === 0) {
+      sections.push([]);
+    }
+    sections[sections.length - 1].push(part);
+  }
+
+  for (const sectionParts of sections) {
+    let expected = 1;
+    for (const part of sectionParts) {
+      const number = Number(part.root);
+      const issue = (type: NumberingIssueType, message: string) => {
+        issues.push({ type, message, startIndex: part.startIndex, endIndex: part.endIndex });
+      };
+
+      if (number < expected) {
+        issue('part-order', `${part.number} follows PART ${expected - 1}`);
+        continue;
+      }
+      for (let missing = expected; missing < number; missing++) {
+        issue('missing-part', `PART ${missing} ${UFGS_PARTS[missing - 1] || ''} is missing before ${part.number}`.replace(/\s+/g, ' '));
+      }
+      expected = number + 1;
+
+      const title = UFGS_PARTS[number - 1];
+      if (!title) {
+        issue('part-order', `${part.number} is not a UFGS part; sections have PART 1 to PART 3`);
+      } else if (part.title && part.title.replace(/\s+/g, ' ') !== title) {
+        issue('part-title', `${part.number} should be titled ${title}`);
+      }
+    }
+
+    const last = sectionParts[sectionParts.length - 1];
+    for (let missing = expected; missing <= UFGS_PARTS.length; missing++) {
+      issues.push({
+        type: 'missing-part',
+        message: `PART ${missing} ${UFGS_PARTS[missing - 1]} is missing after ${last.number}`,
+        startIndex: last.startIndex,
+        endIndex: last.endIndex
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that paragraphs are numbered consecutively and hierarchically (5.3)
+ * Flags skipped numbers, duplicates, level jumps (1.2 to 1.2.1.1) and numbers out of sequence
+ */
+export function validateParagraphNumbering(roots: NumberingRoot[], scheme: NumberingScheme): NumberingIssue[] {
+  const issues: NumberingIssue[] = [];
+  let seen = new Set<string>();
+  // Last top-level paragraph of each chapter, so a chapter resumed later continues its sequence
+  const lastTopLevel = new Map<string, number[]>();
+
+  // Paragraphs numbered under another PART are reported once, as misplaced
+  const check = (root: string, parentLevels: number[], nodes: NumberingNode[], initialPrevious: number[] | null = null) => {
+    let previous = initialPrevious;
+
+    for (const { heading, children } of nodes) {
+      if (heading.root !== root) continue;
+      const issue = (type: NumberingIssueType, message: string) => {
+        issues.push({ type, message, startIndex: heading.startIndex, endIndex: heading.endIndex });
+      };
+      const depth = heading.levels.length;
+      const prefix = heading.levels.slice(0, -1);
+      const number = heading.levels[depth - 1];
+
+      if (seen.has(heading.number)) {
+        issue('duplicate', `Paragraph ${heading.number} is numbered twice`);
+      } else if (depth > parentLevels.length + 1) {
+        issue('level-jump', `Paragraph ${heading.number} skips a level below ${formatNumber(heading.root, parentLevels, scheme)}`);
+      } else if (prefix.join('.') !== parentLevels.join('.')) {
+        issue('out-of-order', `Paragraph ${heading.number} is out of sequence`);
+      } else {
+        const expected = previous ? previous[previous.length - 1] + 1 : 1;
+        if (number > expected) {
+          const skipped = formatNumber(heading.root, [...prefix, expected], scheme);
+          issue('skipped', number === expected + 1
+            ? `Paragraph ${skipped} is missing before ${heading.number}`
+            : `Paragraphs ${skipped} to ${formatNumber(heading.root, [...prefix, number - 1], scheme)} are missing before ${heading.number}`);
+        } else if (number < expected) {
+          issue('out-of-order', `Paragraph ${heading.number} is out of sequence`);
+        }
+      }
+
+      seen.add(heading.number);
+      previous = heading.levels;
+      if (depth === 1) lastTopLevel.set(root, heading.levels);
+      check(root, heading.levels, children);
+    }
+  };
+
+  for (const [i, root] of roots.entries()) {
+    // Numbers restart with each section of a combined UFGS document
+    if (root.heading?.root === '1') {
+      seen = new Set();
+      lastTopLevel.clear();
+    }
+
+    // A chapter that resumes after another one
+    const resumed = root.heading === null && lastTopLevel.has(root.root) && root.children.length > 0;
+    if (resumed) {
+      const { heading } = root.children[0];
+      issues.push({
+        type: 'out-of-order',
+        message: `Paragraph ${heading.number} follows ${formatNumber(roots[i - 1].root, [], scheme)}`,
+        startIndex: heading.startIndex,
+        endIndex: heading.endIndex
+      });
+    }
+
+    if (scheme === 'ufgs' && root.heading) {
+      const misplaced = collectNodes(root.children).filter(node => node.heading.root !== root.root);
+      for (const { heading } of misplaced) {
+        issues.push({
+          type: 'out-of-order',
+          message: `Paragraph ${heading.number} is under ${root.heading.number}`,
+          startIndex: heading.startIndex,
+          endIndex: heading.endIndex
+        });
+      }
+    }
+    check(root.root, [], root.children, resumed ? lastTopLevel.get(root.root)! : null);
+  }
+
+  return issues.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+function collectNodes(nodes: NumberingNode[]): NumberingNode[] {
+  return nodes.flatMap(node => [node, ...collectNodes(node.children)]);
+}
+
+function formatNumber(root: string, levels: number[], scheme: NumberingScheme): string {
+  if (levels.length === 0) return scheme === 'ufgs' ? `PART ${root}` : `chapter ${root}`;
+  return scheme === 'ufgs' ? `${root}.${levels.join('.')}` : `${root}-${levels.join('.')}`;
+}
+
+function toFindings(issues: NumberingIssue[]): RuleFinding[] {
+  return issues.map(({ startIndex, endIndex, message }) => ({ startIndex, endIndex, message }));
+}
+
+/**
+ * Rule for check 5.1: UFGS sections have PART 1 GENERAL, PART 2 PRODUCTS and PART 3 EXECUTION in order
+ */
+export const partStructureRule: Rule = {
+  id: 'part-structure',
+  title: 'Section part structure',
+  reference: '5.1',
+  severity: 'error',
+  run: (text) => {
+    if (detectNumberingScheme(text) !== 'ufgs') return [];
+    return toFindings(validatePartStructure(text, parseHeadings(text, 'ufgs')));
+  }
+};
+
+/**
+ * Rule for check 5.3: paragraphs are numbered consecutively and hierarchically
+ */
+export const paragraphNumberingRule: Rule = {
+  id: 'paragraph-numbering',
+  title: 'Paragraph numbering',
+  reference: '5.3',
+  severity: 'warning',
+  run: (text) => {
+    const scheme = detectNumberingScheme(text);
+    return toFindings(validateParagraphNumbering(buildNumberingTree(parseHeadings(text, scheme)), scheme));
+  }
+};
+
+// Export types for consumers
+export type { NumberingScheme, NumberingIssueType, Heading, NumberingNode, NumberingRoot, NumberingIssue };
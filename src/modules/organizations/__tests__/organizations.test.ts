@@ -0,0 +1,66 @@
+// Unit tests for organization acronym recognition
+// Tests URML-orgs row parsing and which acronyms are recognized as whole tokens
+
+import { describe, it, expect } from 'vitest';
+import { parseOrganizationList, findOrganizationMentions, createOrganizationAnalyzer } from '../organizations';
+import csvService from '../../../services/csvService';
+
+const ORGS = `Org_ID,Org_Acronym,Org_Name,Org_Full_Name
+ORG002,AABC,ASSOCIATED AIR BALANCE COUNCIL,ASSOCIATED AIR BALANCE COUNCIL (AABC)
+ORG009,AIA,AMERICAN INSTITUTE OF ARCHITECTS,AMERICAN INSTITUTE OF ARCHITECTS (AIA)
+ORG010,AIA/NAS,AEROSPACE INDUSTRIES ASSOCIATION OF AMERICA,AEROSPACE INDUSTRIES ASSOCIATION OF AMERICA (AIA/NAS)
+ORG186,NARA,U.S. NATIONAL ARCHIVES AND RECORDS ADMINISTRATION,
+ORG190,NAVFAC EXWC,NAVFAC ENGINEERING AND EXPEDITIONARY WARFARE CENTER,
+ORG230,PEI,PORCELAIN ENAMEL INSTITUTE,PORCELAIN ENAMEL INSTITUTE (PEI)
+ORG231,PEI,PETROLEUM EQUIPMENT INSTITUTE,PETROLEUM EQUIPMENT INSTITUTE (PEI)
+`;
+
+const organizations = parseOrganizationList(csvService.parse(ORGS));
+
+function mentioned(text: string): Array<[string, string]> {
+  return findOrganizationMentions(text, organizations).map(span => [text.substring(span.startIndex, span.endIndex), span.label]);
+}
+
+describe('Organizations', () => {
+  describe('parseOrganizationList', () => {
+    it('should read every column and fall back to name and acronym for the full name', () => {
+      expect(organizations[0]).toEqual({
+        id: 'ORG002',
+        acronym: 'AABC',
+        name: 'ASSOCIATED AIR BALANCE COUNCIL',
+        fullName: 'ASSOCIATED AIR BALANCE COUNCIL (AABC)'
+      });
+      expect(organizations[3].fullName).toBe('U.S. NATIONAL ARCHIVES AND RECORDS ADMINISTRATION (NARA)');
+    });
+  });
+
+  describe('findOrganizationMentions', () => {
+    it('should match acronyms as whole, case-sensitive tokens', () => {
+      expect(mentioned('Balance per AABC. NARAS, aabc and Nara are not matched; (NARA) is.')).toEqual([
+        ['AABC', 'AABC'],
+        ['NARA', 'NARA']
+      ]);
+    });
+
+    it('should prefer the longest acronym and allow line breaks inside multi-word ones', () => {
+      expect(mentioned('AIA/NAS NAS 410, AIA documents and NAVFAC\nEXWC')).toEqual([
+        ['AIA/NAS', 'AIA/NAS'],
+        ['AIA', 'AIA'],
+        ['NAVFAC\nEXWC', 'NAVFAC EXWC']
+      ]);
+    });
+
+    it('should list every organization sharing an acronym in the detail', () => {
+      const [span] = findOrganizationMentions('Listed by PEI.', organizations);
+      expect(span.detail).toBe('PORCELAIN ENAMEL INSTITUTE (PEI)\nPETROLEUM EQUIPMENT INSTITUTE (PEI)');
+    });
+  });
+
+  describe('createOrganizationAnalyzer', () => {
+    it('should declare one label per acronym', () => {
+      const analyzer = createOrganizationAnalyzer(organizations);
+      expect(analyzer.labels.map(label => label.label)).toEqual(['AABC', 'AIA', 'AIA/NAS', 'NARA', 'NAVFAC EXWC', 'PEI']);
+      expect(analyzer.labels[5].title).toBe('PORCELAIN ENAMEL INSTITUTE / PETROLEUM EQUIPMENT INSTITUTE');
+    });
+  });
+});
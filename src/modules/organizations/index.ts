@@ -0,0 +1,10 @@
+// Organizations module exports
+export {
+  parseOrganizationList,
+  groupByAcronym,
+  createAcronymPattern,
+  findOrganizationMentions,
+  createOrganizationAnalyzer,
+  ORGANIZATION_KIND
+} from './organizations';
+export type { Organization } from './organizations';
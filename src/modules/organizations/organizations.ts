@@ -0,0 +1,123 @@
+// Organization acronym recognition driven by URML-orgs.csv
+// Finds acronyms such as "AABC", "NARA" or "AIA/NAS" as whole tokens in page text, so the
+// viewer can show the full organization name and summarize which organizations a document cites
+
+import { AnnotationSpan } from '../../types/viewport';
+import { CsvRow } from '../../services/csvService';
+import { DocumentAnalyzer } from '../analysis/analysis';
+
+interface Organization {
+  id: string;
+  acronym: string;
+  name: string;
+  fullName: string;   // Name with acronym, e.g. "AACE INTERNATIONAL (AACE)"
+}
+
+// Annotation kind of organization mentions; the annotation label is the acronym
+export const ORGANIZATION_KIND = 'organization';
+
+// Highlight color shared by all organizations
+const ORGANIZATION_COLOR = '#5c6bc0';
+
+/**
+ * Build organizations from parsed URML-orgs.csv rows (Org_ID, Org_Acronym, Org_Name, Org_Full_Name)
+ * Rows without an acronym are skipped
+ */
+export function parseOrganizationList(rows: CsvRow[]): Organization[] {
+  const organizations: Organization[] = [];
+
+  for (const row of rows) {
+    const acronym = (row['Org_Acronym'] || '').trim();
+    if (!acronym) continue;
+
+    const name = (row['Org_Name'] || '').trim();
+    organizations.push({
+      id: (row['Org_ID'] || '').trim(),
+      acronym,
+      name,
+      fullName: (row['Org_Full_Name'] || '').trim() || (name ? `${name} (${acronym})` : acronym)
+    });
+  }
+
+  return organizations;
+}
+
+/**
+ * Group organizations by acronym; a few acronyms are shared by several organizations (e.g. "PEI")
+ */
+export function groupByAcronym(organizations: Organization[]): Map<string, Organization[]> {
+  const groups = new Map<string, Organization[]>();
+  for (const organization of organizations) {
+    const group = groups.get(organization.acronym) || [];
+    group.push(organization);
+    groups.set(organization.acronym, group);
+  }
+  return groups;
+}
+
+/**
+ * Build one recognizer for all acronyms: case-sensitive, whole tokens, longest acronym first
+ * so "AIA/NAS" and "ICC-ES" win over "AIA" and "ICC"
+ */
+export function createAcronymPattern(acronyms: string[]): RegExp | null {
+  if (acronyms.length === 0) return null;
+
+  const alternatives = [...acronyms]
+    .sort((a, b) => b.length - a.length)
+    .map(acronym => acronym.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&').replace(/\s+/g, '\\s+'));
+
+  return new RegExp(`(?<![\\p{L}\\p{N}_/-])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_/-])`, 'gu');
+}
+
+/**
+ * Find every acronym mention in page text as organization annotations labeled with the acronym
+ */
+export function findOrganizationMentions(
+  text: string,
+  organizations: Organization[],
+  pattern: RegExp | null = createAcronymPattern(Array.from(groupByAcronym(organizations).keys()))
+): AnnotationSpan[] {
+  if (!pattern) return [];
+
+  const groups = groupByAcronym(organizations);
+  const spans: AnnotationSpan[] = [];
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const acronym = match[0].replace(/\s+/g, ' ');
+    const group = groups.get(acronym);
+    if (!group) continue;
+
+    spans.push({
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      kind: ORGANIZATION_KIND,
+      label: acronym,
+      detail: group.map(organization => organization.fullName).join('\n')
+    });
+  }
+
+  return spans;
+}
+
+/**
+ * Analyzer that annotates every organization acronym with its full name
+ */
+export function createOrganizationAnalyzer(organizations: Organization[]): DocumentAnalyzer {
+  const groups = groupByAcronym(organizations);
+  const pattern = createAcronymPattern(Array.from(groups.keys()));
+
+  return {
+    kind: ORGANIZATION_KIND,
+    labels: Array.from(groups.entries()).map(([acronym, group]) => ({
+      label: acronym,
+      title: group.map(organization => organization.name || organization.fullName).join(' / '),
+      color: ORGANIZATION_COLOR
+    })),
+    analyzePage: (text) => findOrganizationMentions(text, organizations, pattern)
+  };
+}
+
+// Export types for consumers
+export type { Organization };
@@ -0,0 +1,88 @@
+// Unit tests for the query language parser
+// Tests operator precedence, scopes and the errors reported to the search bar
+
+import { describe, it, expect } from 'vitest';
+import { parseQuery, formatQueryError, getQueryTerms } from '../query';
+
+describe('Query parser', () => {
+  describe('Operators', () => {
+    it('should parse phrases, AND, OR and trailing NOT', () => {
+      const { ast, error } = parseQuery('"shall not" AND (install OR provide) NOT warranty');
+
+      expect(error).toBeNull();
+      expect(ast).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', text: 'shall not', phrase: true },
+          {
+            type: 'or',
+            children: [
+              { type: 'term', text: 'install', phrase: false },
+              { type: 'term', text: 'provide', phrase: false }
+            ]
+          },
+          { type: 'not', child: { type: 'term', text: 'warranty', phrase: false } }
+        ]
+      });
+    });
+
+    it('should bind AND tighter than OR', () => {
+      const { ast } = parseQuery('a OR b AND c');
+      expect(ast?.type).toBe('or');
+      expect(ast?.type === 'or' && ast.children[1].type).toBe('and');
+    });
+
+    it('should parse NEAR with its word distance', () => {
+      expect(parseQuery('contractor NEAR/5 submit').ast).toEqual({
+        type: 'near',
+        distance: 5,
+        left: { type: 'term', text: 'contractor', phrase: false },
+        right: { type: 'term', text: 'submit', phrase: false }
+      });
+    });
+
+    it('should treat lowercase operators as words', () => {
+      const { ast } = parseQuery('repair and replace');
+      expect(ast && getQueryTerms(ast).map(term => term.text)).toEqual(['repair', 'and', 'replace']);
+    });
+
+    it('should parse sentence and paragraph scopes', () => {
+      expect(parseQuery('SENTENCE(contractor AND submit)').ast).toMatchObject({
+        type: 'scope',
+        scope: 'sentence',
+        child: { type: 'and' }
+      });
+      expect(parseQuery('PARAGRAPH(warranty)').ast).toMatchObject({ type: 'scope', scope: 'paragraph' });
+    });
+  });
+
+  describe('Errors', () => {
+    it('should report a missing closing parenthesis', () => {
+      expect(parseQuery('(install OR provide').error).toEqual({ message: 'Missing closing parenthesis', position: 19 });
+    });
+
+    it('should report an unmatched closing parenthesis', () => {
+      expect(parseQuery('install)').error?.position).toBe(7);
+    });
+
+    it('should report a missing operand', () => {
+      expect(parseQuery('install AND').error?.message).toBe('Expected a term after AND');
+    });
+
+    it('should report an unterminated phrase', () => {
+      expect(parseQuery('"shall not').error).toEqual({ message: 'Unterminated phrase', position: 0 });
+    });
+
+    it('should require a distance for NEAR', () => {
+      expect(parseQuery('a NEAR/x b').error?.message).toContain('NEAR/5');
+    });
+
+    it('should reject queries that only negate', () => {
+      expect(parseQuery('NOT warranty').error).not.toBeNull();
+    });
+
+    it('should format errors with a 1-based character position', () => {
+      expect(formatQueryError({ message: 'Expected a term', position: 4 })).toBe('Expected a term (at character 5)');
+    });
+  });
+});
@@ -0,0 +1,3 @@
+// Query language module exports
+export { parseQuery, formatQueryError, getQueryTerms } from './query';
+export type { QueryNode, QueryScope, QueryError, ParseResult } from './query';
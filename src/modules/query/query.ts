@@ -0,0 +1,291 @@
+// Boolean and proximity query language
+// Parses queries like `"shall not" AND (install OR provide) NOT warranty` or `contractor NEAR/5 submit`
+// into an AST that the matcher evaluates over page text
+//
+// Grammar (operators are uppercase; lowercase "and"/"or"/"not" are ordinary words):
+//   query   := or
+//   or      := and ("OR" and)*
+//   and     := unary (["AND"] unary)*          adjacent operands are ANDed
+//   unary   := "NOT" unary | near
+//   near    := primary ("NEAR/" n primary)*    within n words of each other
+//   primary := word | "phrase" | "(" query ")" | "SENTENCE(" query ")" | "PARAGRAPH(" query ")"
+
+type QueryScope = 'sentence' | 'paragraph';
+
+type QueryNode =
+  | { type: 'term'; text: string; phrase: boolean }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'near'; distance: number; left: QueryNode; right: QueryNode }
+  | { type: 'scope'; scope: QueryScope; child: QueryNode };
+
+interface QueryError {
+  message: string;
+  position: number;  // character offset in the query
+}
+
+interface ParseResult {
+  ast: QueryNode | null;
+  error: QueryError | null;
+}
+
+type LexToken =
+  | { kind: 'word'; text: string; position: number }
+  | { kind: 'phrase'; text: string; position: number }
+  | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; position: number }
+  | { kind: 'near'; distance: number; position: number }
+  | { kind: 'scope'; scope: QueryScope; position: number }
+  | { kind: 'end'; position: number };
+
+/**
+ * Parse a query into an AST
+ * Never throws: syntax errors are returned with the character position they occur at
+ */
+export function parseQuery(input: string): ParseResult {
+  const lexed = lex(input);
+  if ('error' in lexed) {
+    return { ast: null, error: lexed.error };
+  }
+
+  const parser = new QueryParser(lexed.tokens);
+  try {
+    const ast = parser.parse();
+    if (!hasPositiveTerm(ast)) {
+      return { ast: null, error: { message: 'Query needs at least one term that is not negated', position: 0 } };
+    }
+    return { ast, error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { ast: null, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Format a parse error for display next to the search input
+ */
+export function formatQueryError(error: QueryError): string {
+  return `${error.message} (at character ${error.position + 1})`;
+}
+
+/**
+ * Collect the term and phrase leaves of a query, in query order
+ */
+export function getQueryTerms(ast: QueryNode): Array<Extract<QueryNode, { type: 'term' }>> {
+  switch (ast.type) {
+    case 'term':
+      return [ast];
+    case 'and':
+    case 'or':
+      return ast.children.flatMap(getQueryTerms);
+    case 'not':
+    case 'scope':
+      return getQueryTerms(ast.child);
+    case 'near':
+      return [...getQueryTerms(ast.left), ...getQueryTerms(ast.right)];
+  }
+}
+
+// Internal error used to unwind the recursive-descent parser
+class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: LexToken[]) {}
+
+  parse(): QueryNode {
+    const ast = this.parseOr();
+    const token = this.peek();
+    if (token.kind === 'rparen') {
+      throw new QuerySyntaxError('Unmatched closing parenthesis', token.position);
+    }
+    if (token.kind !== 'end') {
+      throw new QuerySyntaxError('Unexpected input', token.position);
+    }
+    return ast;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek().kind === 'or') {
+      const operator = this.next();
+      children.push(this.parseAnd(operator));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(after?: LexToken): QueryNode {
+    const children = [this.parseUnary(after)];
+    for (;;) {
+      const token = this.peek();
+      if (token.kind === 'and') {
+        this.next();
+        children.push(this.parseUnary(token));
+      } else if (startsOperand(token)) {
+        children.push(this.parseUnary());
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(after?: LexToken): QueryNode {
+    const token = this.peek();
+    if (token.kind === 'not') {
+      this.next();
+      return { type: 'not', child: this.parseUnary(token) };
+    }
+    return this.parseNear(after);
+  }
+
+  private parseNear(after?: LexToken): QueryNode {
+    let left = this.parsePrimary(after);
+    while (this.peek().kind === 'near') {
+      const operator = this.next() as Extract<LexToken, { kind: 'near' }>;
+      const right = this.parsePrimary(operator);
+      left = { type: 'near', distance: operator.distance, left, right };
+    }
+    return left;
+  }
+
+  private parsePrimary(after?: LexToken): QueryNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'word':
+        return { type: 'term', text: token.text, phrase: false };
+      case 'phrase':
+        return { type: 'term', text: token.text, phrase: true };
+      case 'lparen':
+      case 'scope': {
+        const child = this.parseOr();
+        const closing = this.next();
+        if (closing.kind !== 'rparen') {
+          throw new QuerySyntaxError('Missing closing parenthesis', closing.position);
+        }
+        return token.kind === 'scope' ? { type: 'scope', scope: token.scope, child } : child;
+      }
+      default:
+        throw new QuerySyntaxError(
+          after ? `Expected a term after ${describeToken(after)}` : 'Expected a term',
+          token.position
+        );
+    }
+  }
+
+  private peek(): LexToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): LexToken {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+}
+
+/**
+ * Split a query into lexical tokens
+ */
+function lex(input: string): { tokens: LexToken[] } | { error: QueryError } {
+  const tokens: LexToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'lparen', position: i++ });
+    } else if (char === ')') {
+      tokens.push({ kind: 'rparen', position: i++ });
+    } else if (char === '"' || char === '“' || char === '”') {
+      const close = input.slice(i + 1).search(/["“”]/);
+      if (close === -1) {
+        return { error: { message: 'Unterminated phrase', position: i } };
+      }
+      const text = input.substr(i + 1, close).trim();
+      if (!text) {
+        return { error: { message: 'Empty phrase', position: i } };
+      }
+      tokens.push({ kind: 'phrase', text, position: i });
+      i += close + 2;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"“”]/.test(input[i])) {
+        i++;
+      }
+      const word = input.substring(start, i);
+      const near = /^NEAR\/(.*)$/.exec(word);
+
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not', position: start });
+      } else if (near) {
+        if (!/^\d+$/.test(near[1])) {
+          return { error: { message: 'NEAR needs a word distance, e.g. NEAR/5', position: start } };
+        }
+        tokens.push({ kind: 'near', distance: Number(near[1]), position: start });
+      } else if ((word === 'SENTENCE' || word === 'PARAGRAPH') && input[i] === '(') {
+        tokens.push({ kind: 'scope', scope: word === 'SENTENCE' ? 'sentence' : 'paragraph', position: start });
+        i++; // Consume the opening parenthesis
+      } else {
+        tokens.push({ kind: 'word', text: word, position: start });
+      }
+    }
+  }
+
+  tokens.push({ kind: 'end', position: input.length });
+  return { tokens };
+}
+
+function startsOperand(token: LexToken): boolean {
+  return token.kind === 'word' || token.kind === 'phrase' || token.kind === 'lparen'
+    || token.kind === 'scope' || token.kind === 'not';
+}
+
+function describeToken(token: LexToken): string {
+  switch (token.kind) {
+    case 'near':
+      return `NEAR/${token.distance}`;
+    case 'and':
+    case 'or':
+    case 'not':
+      return token.kind.toUpperCase();
+    default:
+      return token.kind;
+  }
+}
+
+/**
+ * A query must be able to match something: pure negations have nothing to highlight
+ */
+function hasPositiveTerm(ast: QueryNode): boolean {
+  switch (ast.type) {
+    case 'term':
+      return true;
+    case 'not':
+      return false;
+    case 'and':
+      return ast.children.some(hasPositiveTerm);
+    case 'or':
+      return ast.children.every(hasPositiveTerm);
+    case 'near':
+      return hasPositiveTerm(ast.left) && hasPositiveTerm(ast.right);
+    case 'scope':
+      return hasPositiveTerm(ast.child);
+  }
+}
+
+// Export types for consumers
+export type { QueryNode, QueryScope, QueryError, ParseResult };
@@ -0,0 +1,195 @@
+// Unit tests for reference citation recognition
+// Tests URML and MASTER.REF.XML parsing, catalog lookup and citation status in page text
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseReferenceList,
+  parseMasterReferenceXml,
+  parseDatedTitle,
+  ReferenceCatalog,
+  findCitations,
+  getCitationStatus,
+  createReferenceAnalyzer
+} from '../references';
+import csvService from '../../../services/csvService';
+import xmlService from '../../../services/xmlService';
+
+const URML = `RID,Title,Org_Acronym,Org_Name,Org_ID,Spec_References
+10 CFR 430,Energy Conservation Program for Consumer Products,NARA,U.S. NATIONAL ARCHIVES AND RECORDS ADMINISTRATION,ORG186,"{""22 00 00"": [""1.1""]}"
+ASTM A123/A123M,Zinc (Hot-Dip Galvanized) Coatings on Iron and Steel Products,ASTM,ASTM INTERNATIONAL,ORG046,
+NFPA 70,National Electrical Code,NFPA,NATIONAL FIRE PROTECTION ASSOCIATION,ORG201,
+API RP 1110,Pressure Testing of Steel Pipelines,API,AMERICAN PETROLEUM INSTITUTE,ORG021,
+UFC 3-501-01,Electrical Engineering,DOD,U.S. DEPARTMENT OF DEFENSE,ORG101,
+`;
+
+const MASTER_REF = `<?xml version="1.0" encoding="windows-1252"?><DOC>
+<REF><ORG>AACE INTERNATIONAL (AACE)<BRK/></ORG>
+<BRK/>
+<RID>AACE 29R-03</RID><RTL>(2011) Forensic Schedule Analysis</RTL><BRK/>
+</REF><REF><ORG>ASTM INTERNATIONAL (ASTM)<BRK/></ORG>
+<RID>ASTM A123/A123M</RID><RTL>(2024) Standard Specification for Zinc (Hot-Dip Galvanized) Coatings</RTL><BRK/>
+<RID>ASTM C90</RID><RTL>(2024) Standard Specification for Loadbearing Concrete Masonry Units</RTL><BRK/>
+<RID>ASTM D2000</RID><RTL>(2012; R 2017) Standard Classification System for Rubber Products</RTL><BRK/>
+</REF><REF><ORG>NATIONAL FIRE PROTECTION ASSOCIATION (NFPA)<BRK/></ORG>
+<RID>NFPA 70</RID><RTL>(2023; TIA 23-1) National Electrical Code</RTL><BRK/>
+</REF></DOC>`;
+
+const entries = parseReferenceList(csvService.parse(URML));
+const catalog = new ReferenceCatalog(entries);
+
+function cited(text: string): Array<[string, string | null]> {
+  return findCitations(text, catalog).map(citation => [citation.text, citation.entry?.rid ?? null]);
+}
+
+describe('References', () => {
+  describe('parseReferenceList', () => {
+    it('should read every URML column and the spec references JSON', () => {
+      expect(entries[0]).toEqual({
+        rid: '10 CFR 430',
+        title: 'Energy Conservation Program for Consumer Products',
+        orgAcronym: 'NARA',
+        orgName: 'U.S. NATIONAL ARCHIVES AND RECORDS ADMINISTRATION',
+        orgId: 'ORG186',
+        specReferences: { '22 00 00': ['1.1'] }
+      });
+      expect(entries[1].specReferences).toEqual({});
+    });
+  });
+
+  describe('parseMasterReferenceXml', () => {
+    const masterEntries = parseMasterReferenceXml(xmlService.parse(MASTER_REF));
+
+    it('should read RIDs with their organization and dated title', () => {
+      expect(masterEntries.map(entry => entry.rid))
+        .toEqual(['AACE 29R-03', 'ASTM A123/A123M', 'ASTM C90', 'ASTM D2000', 'NFPA 70']);
+      expect(masterEntries[0]).toMatchObject({
+        title: 'Forensic Schedule Analysis',
+        orgAcronym: 'AACE',
+        orgName: 'AACE INTERNATIONAL',
+        edition: '2011',
+        editionYear: 2011,
+        current: true
+      });
+    });
+
+    it('should split editions from titles', () => {
+      expect(parseDatedTitle('(2009; R 2020) Title')).toMatchObject({ title: 'Title', edition: '2009; R 2020', editionYear: 2009 });
+      expect(parseDatedTitle('(Basic; Notice 1) Title')).toMatchObject({ edition: 'Basic; Notice 1', editionYear: undefined });
+      expect(parseDatedTitle('Quality Assurance Program')).toMatchObject({ title: 'Quality Assurance Program', edition: undefined });
+    });
+
+    it('should merge into a catalog built from the URML', () => {
+      const merged = new ReferenceCatalog(entries);
+      merged.addEntries(masterEntries);
+
+      expect(merged.lookup('NFPA 70')).toMatchObject({ orgId: 'ORG201', editionYear: 2023, title: 'National Electrical Code' });
+      expect(merged.lookup('ASTM A123')?.editionYear).toBe(2024);
+      expect(merged.lookup('10 CFR 430')?.specReferences).toEqual({ '22 00 00': ['1.1'] });
+    });
+
+    it('should mark entries missing from the master list as withdrawn, in either load order', () => {
+      const masterFirst = new ReferenceCatalog(masterEntries);
+      masterFirst.addEntries(entries);
+      const urmlFirst = new ReferenceCatalog(entries);
+      urmlFirst.addEntries(masterEntries);
+
+      for (const merged of [masterFirst, urmlFirst]) {
+        expect(merged.lookup('API RP 1110')?.withdrawn).toBe(true);
+        expect(merged.lookup('ASTM A123')?.withdrawn).toBeUndefined();
+        expect(merged.lookup('ASTM D2000')?.withdrawn).toBeUndefined();
+      }
+      expect(catalog.lookup('API RP 1110')?.withdrawn).toBeUndefined();
+      expect(entries[3].withdrawn).toBeUndefined();
+    });
+  });
+
+  describe('ReferenceCatalog', () => {
+    it('should resolve by RID and by base designation', () => {
+      expect(catalog.lookup('astm  a123/a123m')?.rid).toBe('ASTM A123/A123M');
+      expect(catalog.lookup('ASTM A123')?.rid).toBe('ASTM A123/A123M');
+      expect(catalog.lookup('ASTM A123/A123M.')?.rid).toBe('ASTM A123/A123M');
+      expect(catalog.lookup('ASTM A999')).toBeNull();
+    });
+
+    it('should collect organization prefixes from RIDs', () => {
+      expect(catalog.getPrefixes().sort()).toEqual(['API', 'ASTM', 'NFPA', 'UFC']);
+    });
+  });
+
+  describe('findCitations', () => {
+    it('should recognize organization, CFR, UFC and UFGS citations', () => {
+      expect(cited('Galvanize per ASTM A123/A123M and wire per NFPA 70. See 10 CFR 430, UFC 3-501-01 and UFGS 26 20 00.'))
+        .toEqual([
+          ['ASTM A123/A123M', 'ASTM A123/A123M'],
+          ['NFPA 70', 'NFPA 70'],
+          ['10 CFR 430', '10 CFR 430'],
+          ['UFC 3-501-01', 'UFC 3-501-01'],
+          ['UFGS 26 20 00', null]
+        ]);
+    });
+
+    it('should recognize letter series designations and citations broken across lines', () => {
+      expect(cited('Test to API RP 1110 and NFPA\n70')).toEqual([
+        ['API RP 1110', 'API RP 1110'],
+        ['NFPA\n70', 'NFPA 70']
+      ]);
+    });
+
+    it('should leave unknown designations unresolved', () => {
+      expect(cited('Comply with ASTM C9O and NFPA 7O.')).toEqual([
+        ['ASTM C9O', null],
+        ['NFPA 7O', null]
+      ]);
+    });
+  });
+
+  describe('getCitationStatus', () => {
+    const dated = new ReferenceCatalog(parseMasterReferenceXml(xmlService.parse(MASTER_REF)));
+
+    function statuses(text: string): Array<[string, number | null, string]> {
+      return findCitations(text, dated).map(citation => [citation.text, citation.citedYear, getCitationStatus(citation)]);
+    }
+
+    it('should compare edition suffixes with the current edition', () => {
+      expect(statuses('Units per ASTM C90-16, ASTM C90-24a and ASTM A123/A123M-2024.')).toEqual([
+        ['ASTM C90-16', 2016, 'outdated'],
+        ['ASTM C90-24a', 2024, 'resolved'],
+        ['ASTM A123/A123M-2024', 2024, 'resolved']
+      ]);
+    });
+
+    it('should read a parenthesized edition after the citation', () => {
+      expect(statuses('NFPA 70 (2011) National Electrical Code\nNFPA 70 (2023)')).toEqual([
+        ['NFPA 70', 2011, 'outdated'],
+        ['NFPA 70', 2023, 'resolved']
+      ]);
+    });
+
+    it('should keep year-like suffixes that belong to the RID', () => {
+      expect(statuses('See AACE 29R-03, ASTM D2000 and ASTM C90.')).toEqual([
+        ['AACE 29R-03', null, 'resolved'],
+        ['ASTM D2000', null, 'resolved'],
+        ['ASTM C90', null, 'resolved']
+      ]);
+    });
+
+    it('should flag citations of references no longer in the master list', () => {
+      dated.addEntries(entries);
+
+      expect(statuses('Test per API RP 1110 and NFPA 70.')).toEqual([
+        ['API RP 1110', null, 'withdrawn'],
+        ['NFPA 70', null, 'resolved']
+      ]);
+    });
+  });
+
+  describe('createReferenceAnalyzer', () => {
+    it('should label citations and describe them with title and organization', () => {
+      const spans = createReferenceAnalyzer(catalog).analyzePage('Wire per NFPA 70 and NFPA 99.', 1);
+
+      expect(spans.map(span => span.label)).toEqual(['resolved', 'unresolved']);
+      expect(spans[0].detail).toBe('NFPA 70: National Electrical Code\nNATIONAL FIRE PROTECTION ASSOCIATION (NFPA)');
+      expect(spans[1].detail).toBe('NFPA 99\nNot in the master reference list');
+    });
+  });
+});
@@ -0,0 +1,17 @@
+// References module exports
+export {
+  parseReferenceList,
+  parseMasterReferenceXml,
+  parseDatedTitle,
+  normalizeRid,
+  ReferenceCatalog,
+  referenceCatalog,
+  createCitationPattern,
+  findCitations,
+  getCitationStatus,
+  formatCitationDetail,
+  createReferenceAnalyzer,
+  REFERENCE_KIND,
+  REFERENCE_LABELS
+} from './references';
+export type { ReferenceEntry, Citation, ReferenceLabel } from './references';
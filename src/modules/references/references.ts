@@ -0,0 +1,393 @@
+// Reference-ID (RID) recognition against the Unified Master Reference List (URML.csv)
+// Finds standard citations such as "ASTM A123/A123M", "NFPA 70", "10 CFR 430", "UFC 3-501-01"
+// and "UFGS 26 20 00" in page text and resolves them against a reference catalog; with the
+// dated titles of the SpecsIntact master reference list (MASTER.REF.XML), cited editions
+// are checked against the current ones
+
+import { AnnotationSpan } from '../../types/viewport';
+import { CsvRow } from '../../services/csvService';
+import { DocumentAnalyzer } from '../analysis/analysis';
+
+interface ReferenceEntry {
+  rid: string;
+  title: string;
+  orgAcronym: string;
+  orgName: string;
+  orgId: string;
+  specReferences: Record<string, string[]>;   // UFGS section → paragraphs that cite the reference
+  edition?: string;                           // Current edition as listed, e.g. "2009; R 2020"
+  editionYear?: number;                       // Year of the current edition, e.g. 2009
+  current?: boolean;                          // Listed in a SpecsIntact master reference list (MASTER.REF.XML)
+  withdrawn?: boolean;                        // Missing from the loaded master reference list, set by the catalog
+}
+
+interface Citation {
+  startIndex: number;
+  endIndex: number;
+  text: string;
+  entry: ReferenceEntry | null;   // null when the catalog has no matching RID
+  citedYear: number | null;       // Edition year given with the citation ("ASTM C90-16", "NFPA 70 (2011)")
+}
+
+type ReferenceLabel = 'resolved' | 'outdated' | 'withdrawn' | 'unresolved';
+
+// Annotation kind of recognized citations; labels tell resolved, outdated, withdrawn and unresolved ones apart
+export const REFERENCE_KIND = 'reference';
+
+export const REFERENCE_LABELS: Array<{ label: ReferenceLabel; title: string; color: string }> = [
+  { label: 'resolved', title: 'In the master reference list', color: '#00796b' },
+  { label: 'outdated', title: 'Cites an older edition', color: '#ef6c00' },
+  { label: 'withdrawn', title: 'Not in the current MASTER.REF', color: '#6a1b9a' },
+  { label: 'unresolved', title: 'Not in the master reference list', color: '#c62828' }
+];
+
+// Citation forms that do not start with an organization prefix from the catalog
+const FIXED_CITATION_PATTERNS = [
+  '\\d{1,2}\\s+CFR\\s+(?:Part\\s+)?\\d+(?:\\.\\d+)*',   // 10 CFR 430, 29 CFR 1910.1018
+  'UFC\\s+\\d-\\d{3}-\\d{2}[A-Z]{0,2}',                 // UFC 3-501-01, UFC 4-010-01N
+  'UFGS\\s+\\d{2}\\s\\d{2}\\s\\d{2}(?:\\.\\d{2})?'      // UFGS 26 20 00, UFGS 01 35 26.13
+];
+
+// Designation after an organization prefix: optional letter series ("RP 1110", "LA 1"), a number
+// with letters, dots and dashes, an optional "/…" metric or dual designation and an optional ":2015" year
+const DESIGNATION_PATTERN = '(?:[A-Z]{1,4}[ -]?)?\\d[A-Za-z0-9.\\-]*(?:\\/[A-Za-z0-9.\\-]+)?(?::\\d{4})?';
+
+// Edition year appended to a designation: "C90-16", "C90-16a", "B31.1-2020", "9001:2015"
+const EDITION_SUFFIX = /[-:](\d{4}|\d{2})[a-z]?$/;
+
+// Edition year in parentheses right after a citation, as in reference lists: "NFPA 70 (2011) National..."
+const FOLLOWING_EDITION = /^\s*\((\d{4})/;
+
+// Leading edition of a SpecsIntact reference title: "(2009; R 2020) Title" → "2009; R 2020"
+const TITLE_EDITION = /^\(([^)]*)\)\s*/;
+
+/**
+ * Build reference entries from parsed URML.csv rows (RID, Title, Org_Acronym, Org_Name, Org_ID, Spec_References)
+ * Rows without a RID are skipped; malformed Spec_References are treated as empty
+ */
+export function parseReferenceList(rows: CsvRow[]): ReferenceEntry[] {
+  const entries: ReferenceEntry[] = [];
+
+  for (const row of rows) {
+    const rid = (row['RID'] || '').trim();
+    if (!rid) continue;
+
+    entries.push({
+      rid,
+      title: (row['Title'] || '').trim(),
+      orgAcronym: (row['Org_Acronym'] || '').trim(),
+      orgName: (row['Org_Name'] || '').trim(),
+      orgId: (row['Org_ID'] || '').trim(),
+      specReferences: parseSpecReferences(row['Spec_References'] || '')
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Build reference entries from a parsed SpecsIntact master reference list (MASTER.REF.XML)
+ * Each <REF> groups one organization, "NAME (ACR)" in <ORG>, with <RID>/<RTL> pairs whose titles
+ * start with the current edition in parentheses
+ */
+export function parseMasterReferenceXml(doc: Document): ReferenceEntry[] {
+  const entries: ReferenceEntry[] = [];
+
+  for (const ref of Array.from(doc.getElementsByTagName('REF'))) {
+    const org = (ref.getElementsByTagName('ORG')[0]?.textContent || '').replace(/\s+/g, ' ').trim();
+    const orgMatch = org.match(/^(.*?)\s*\(([^()]+)\)$/);
+    const orgName = orgMatch ? orgMatch[1] : org;
+    const orgAcronym = orgMatch ? orgMatch[2] : '';
+
+    let rid = '';
+    for (const element of Array.from(ref.children)) {
+      if (element.tagName === 'RID') {
+        rid = (element.textContent || '').replace(/\s+/g, ' ').trim();
+      } else if (element.tagName === 'RTL' && rid) {
+        const rtl = (element.textContent || '').replace(/\s+/g, ' ').trim();
+        entries.push({ rid, orgAcronym, orgName, orgId: '', specReferences: {}, current: true, ...parseDatedTitle(rtl) });
+        rid = '';
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Split a dated title into title and edition: "(2011; R 2016) Forensic Schedule Analysis"
+ * Titles without a leading parenthesis have no edition
+ */
+export function parseDatedTitle(rtl: string): Pick<ReferenceEntry, 'title' | 'edition' | 'editionYear'> {
+  const match = rtl.match(TITLE_EDITION);
+  const edition = match ? match[1].trim() : undefined;
+  const title = match ? rtl.substring(match[0].length) : rtl;
+  const year = edition?.match(/^(\d{4})/);
+
+  return {
+    title,
+    edition,
+    editionYear: year ? Number(year[1]) : undefined
+  };
+}
+
+function parseSpecReferences(value: string): Record<string, string[]> {
+  if (!value.trim()) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Normalize a RID or cited text for lookup: upper case, single spaces, no trailing punctuation
+ */
+export function normalizeRid(rid: string): string {
+  return rid
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.,;:\-]+$/, '')
+    .trim();
+}
+
+/**
+ * Lookup table of reference entries by RID
+ * Citations resolve by exact RID, or by base designation ("ASTM A123" finds "ASTM A123/A123M").
+ * Once a master reference list is loaded, entries it does not list are marked withdrawn
+ */
+export class ReferenceCatalog {
+  private byRid = new Map<string, ReferenceEntry>();
+  private byBase = new Map<string, ReferenceEntry>();
+  private prefixes = new Set<string>();
+  private hasMasterList = false;
+
+  constructor(entries: ReferenceEntry[] = []) {
+    this.addEntries(entries);
+  }
+
+  /**
+   * Add entries; an entry with a RID already in the catalog is merged into it, so a reference list
+   * and a master list with editions can be combined (non-empty fields of the added entry win)
+   */
+  addEntries(entries: ReferenceEntry[]): void {
+    for (const added of entries) {
+      const key = normalizeRid(added.rid);
+      const existing = this.byRid.get(key);
+      const entry = existing ? mergeEntries(existing, added) : added;
+      this.byRid.set(key, entry);
+
+      const base = getBaseDesignation(key);
+      if (base !== key && (!this.byBase.has(base) || this.byBase.get(base) === existing)) {
+        this.byBase.set(base, entry);
+      }
+
+      // Organization prefix: the first word, when the RID continues with a designation
+      const [prefix, rest] = entry.rid.trim().split(/\s+(.*)/s);
+      if (rest && /^[A-Z][A-Z/&]*[A-Z]$/.test(prefix) && /\d/.test(rest)) {
+        this.prefixes.add(prefix);
+      }
+
+      if (added.current) {
+        this.hasMasterList = true;
+      }
+    }
+
+    if (this.hasMasterList) {
+      this.markWithdrawn();
+    }
+  }
+
+  /**
+   * Mark entries missing from the master reference list as withdrawn (entries are replaced, not mutated)
+   */
+  private markWithdrawn(): void {
+    const replaced = new Map<ReferenceEntry, ReferenceEntry>();
+
+    this.byRid.forEach((entry, key) => {
+      const withdrawn = !entry.current || undefined;
+      if (entry.withdrawn !== withdrawn) {
+        const updated = { ...entry, withdrawn };
+        replaced.set(entry, updated);
+        this.byRid.set(key, updated);
+      }
+    });
+
+    this.byBase.forEach((entry, base) => {
+      const updated = replaced.get(entry);
+      if (updated) this.byBase.set(base, updated);
+    });
+  }
+
+  /**
+   * Find the entry for a cited RID
+   */
+  lookup(citation: string): ReferenceEntry | null {
+    const key = normalizeRid(citation);
+    return this.byRid.get(key) || this.byBase.get(key) || this.byRid.get(getBaseDesignation(key)) || null;
+  }
+
+  /**
+   * Organization prefixes that start RIDs in the catalog (ASTM, NFPA, ANSI/BHMA, ...)
+   */
+  getPrefixes(): string[] {
+    return Array.from(this.prefixes);
+  }
+
+  /**
+   * Get every entry in the catalog
+   */
+  getEntries(): ReferenceEntry[] {
+    return Array.from(this.byRid.values());
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.byRid.clear();
+    this.byBase.clear();
+    this.prefixes.clear();
+    this.hasMasterList = false;
+  }
+
+  get size(): number {
+    return this.byRid.size;
+  }
+}
+
+/**
+ * Entry with the fields of another entry written over it; empty fields of the added entry are skipped
+ */
+function mergeEntries(existing: ReferenceEntry, added: ReferenceEntry): ReferenceEntry {
+  const provided: Partial<ReferenceEntry> = Object.fromEntries(Object.entries(added).filter(([, value]) => !isEmptyField(value)));
+  return { ...existing, ...provided };
+}
+
+function isEmptyField(value: unknown): boolean {
+  return value === undefined || value === '' ||
+    (typeof value === 'object' && value !== null && Object.keys(value).length === 0);
+}
+
+/**
+ * Designation without its "/…" dual part: "ASTM A123/A123M" → "ASTM A123"
+ */
+function getBaseDesignation(rid: string): string {
+  return rid.replace(/\/\S*$/, '');
+}
+
+/**
+ * Build the citation recognizer for a catalog's organization prefixes plus CFR, UFC and UFGS forms
+ */
+export function createCitationPattern(catalog: ReferenceCatalog): RegExp {
+  const prefixes = catalog.getPrefixes()
+    .sort((a, b) => b.length - a.length)
+    .map(prefix => prefix.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'));
+
+  const alternatives = [...FIXED_CITATION_PATTERNS];
+  if (prefixes.length > 0) {
+    alternatives.push(`(?:${prefixes.join('|')})\\s+${DESIGNATION_PATTERN}`);
+  }
+
+  return new RegExp(`(?<![\\w/])(?:${alternatives.join('|')})`, 'g');
+}
+
+/**
+ * Find citations in page text and resolve each against the catalog
+ * A cited edition comes from a year suffix that is not part of the RID, or from a following "(2011)"
+ */
+export function findCitations(text: string, catalog: ReferenceCatalog, pattern: RegExp = createCitationPattern(catalog)): Citation[] {
+  const citations: Citation[] = [];
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    // Sentence punctuation after the designation is not part of it
+    const cited = match[0].replace(/[.\-]+$/, '');
+    if (!cited) continue;
+
+    const endIndex = match.index + cited.length;
+    let entry = catalog.lookup(cited);
+    let citedYear: number | null = null;
+
+    const suffix = cited.match(EDITION_SUFFIX);
+    if (!entry && suffix) {
+      entry = catalog.lookup(cited.substring(0, suffix.index));
+      citedYear = entry ? expandYear(suffix[1]) : null;
+    }
+
+    const following = text.substring(endIndex, endIndex + 12).match(FOLLOWING_EDITION);
+    if (citedYear === null && following) {
+      citedYear = Number(following[1]);
+    }
+
+    citations.push({ startIndex: match.index, endIndex, text: cited, entry, citedYear });
+  }
+
+  return citations;
+}
+
+/**
+ * Four-digit year of an edition suffix; two digits not past the current year are this century
+ */
+function expandYear(digits: string): number {
+  if (digits.length === 4) return Number(digits);
+  const year = Number(digits);
+  return year <= new Date().getFullYear() % 100 ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Classify a citation against the catalog: unknown, withdrawn, an edition older than the current one, or current
+ */
+export function getCitationStatus(citation: Citation): ReferenceLabel {
+  const { entry, citedYear } = citation;
+  if (!entry) return 'unresolved';
+  if (entry.withdrawn) return 'withdrawn';
+  if (citedYear !== null && entry.editionYear !== undefined && citedYear < entry.editionYear) return 'outdated';
+  return 'resolved';
+}
+
+/**
+ * Tooltip text for a citation: the RID's title and organization, or a note that it is unknown
+ */
+export function formatCitationDetail(citation: Citation): string {
+  const { entry } = citation;
+  if (!entry) {
+    return `${citation.text.replace(/\s+/g, ' ')}\nNot in the master reference list`;
+  }
+  const status = getCitationStatus(citation);
+  return [
+    `${entry.rid}: ${entry.title}`,
+    entry.orgName && `${entry.orgName}${entry.orgAcronym ? ` (${entry.orgAcronym})` : ''}`,
+    entry.edition && `Current edition: ${entry.edition}`,
+    citation.citedYear !== null && `Cited edition: ${citation.citedYear}`,
+    status === 'outdated' && 'Outdated: cites an older edition',
+    status === 'withdrawn' && 'Withdrawn: not in the current master reference list'
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Analyzer that annotates every citation as resolved, outdated, withdrawn or unresolved
+ */
+export function createReferenceAnalyzer(catalog: ReferenceCatalog): DocumentAnalyzer {
+  const pattern = createCitationPattern(catalog);
+
+  return {
+    kind: REFERENCE_KIND,
+    labels: REFERENCE_LABELS,
+    analyzePage: (text): AnnotationSpan[] => findCitations(text, catalog, pattern).map(citation => ({
+      startIndex: citation.startIndex,
+      endIndex: citation.endIndex,
+      kind: REFERENCE_KIND,
+      label: getCitationStatus(citation),
+      detail: formatCitationDetail(citation)
+    }))
+  };
+}
+
+// Export shared catalog: the reference lists loaded in the References panel, also used by the citation graph
+export const referenceCatalog = new ReferenceCatalog();
+
+// Export types for consumers
+export type { ReferenceEntry, Citation, ReferenceLabel };
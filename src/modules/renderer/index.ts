@@ -1,6 +1,7 @@
 // Renderer module exports
 export { 
   paintHighlights, 
+  paintAnnotations,
   clearHighlights, 
   updateLayerDimensions, 
   paintDebugCrosshairs,
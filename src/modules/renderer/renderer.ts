@@ -1,19 +1,21 @@
 // Renderer for highlight overlays
 // Paints highlights purely from projected PDF-space coordinates
 
-import { MatchRect, Viewport } from '../../types/viewport';
+import { MatchRect, AnnotationRect, Viewport } from '../../types/viewport';
 import { pdfToCss } from '../projector/projector';
 
 /**
  * Paint highlights from PDF-space rectangles onto a DOM layer
  * This is called on every viewport change (zoom/rotation) but does NOT recalculate geometry
+ * Terms listed in termColors are painted in their category color
  */
 export function paintHighlights(
   page: number,
   viewport: Viewport,
   rects: MatchRect[],
   layerElement: HTMLElement,
-  activeIndex: number = -1
+  activeIndex: number = -1,
+  termColors: Record<string, string> = {}
 ): void {
   // Clear existing highlights
   clearHighlights(layerElement);
@@ -25,11 +27,14 @@ export function paintHighlights(
   // Create document fragment for batch DOM insertion
   const fragment = document.createDocumentFragment();
   
-  // Project each PDF rectangle to CSS and create highlight element
+  // Project each PDF fragment rectangle to CSS and create highlight elements
+  // All fragments of one match share its index so they behave as a single hit
   rects.forEach((matchRect, index) => {
-    const cssRect = pdfToCss(matchRect.bboxPdf, viewport);
-    const highlightElement = createHighlightElement(cssRect, index === activeIndex, matchRect);
-    fragment.appendChild(highlightElement);
+    getMatchFragments(matchRect).forEach(bboxPdf => {
+      const cssRect = pdfToCss(bboxPdf, viewport);
+      const highlightElement = createHighlightElement(cssRect, index === activeIndex, matchRect, index, termColors[matchRect.termId]);
+      fragment.appendChild(highlightElement);
+    });
   });
   
   // Insert all highlights at once
@@ -42,13 +47,27 @@ export function paintHighlights(
 function createHighlightElement(
   cssRect: [number, number, number, number],
   isActive: boolean,
-  matchRect: MatchRect
+  matchRect: MatchRect,
+  matchIndex: number,
+  color?: string
 ): HTMLElement {
   const [left, top, width, height] = cssRect;
   
   const div = document.createElement('div');
   div.className = isActive ? 'highlight active' : 'highlight';
   
+  // Category color is applied through a custom property so CSS controls the tint
+  if (color) {
+    div.classList.add('highlight-term');
+    div.style.setProperty('--highlight-color', color);
+  }
+
+  // Approximate matches fade with their similarity score
+  if (matchRect.score !== undefined && matchRect.score < 1) {
+    div.classList.add('highlight-weak');
+    div.style.setProperty('--match-score', matchRect.score.toFixed(2));
+  }
+  
   // Set position and dimensions
   Object.assign(div.style, {
     position: 'absolute',
@@ -67,10 +86,80 @@ function createHighlightElement(
   div.setAttribute('data-page', matchRect.page.toString());
   div.setAttribute('data-term-id', matchRect.termId);
   div.setAttribute('data-order', matchRect.order.toString());
+  div.setAttribute('data-match-index', matchIndex.toString());
   
   return div;
 }
 
+/**
+ * Paint analysis annotations (e.g. classified requirement sentences) onto their own layer
+ * Every fragment gets the annotation's kind and label as classes; labelColors is keyed by "kind:label".
+ * Annotations with a detail show it on hover and can be clicked (see data-annotation-index)
+ */
+export function paintAnnotations(
+  viewport: Viewport,
+  rects: AnnotationRect[],
+  layerElement: HTMLElement,
+  labelColors: Record<string, string> = {},
+  selectedIndex: number = -1
+): void {
+  clearHighlights(layerElement);
+
+  if (rects.length === 0) {
+    return;
+  }
+
+  const fragment = document.createDocumentFragment();
+
+  rects.forEach((annotation, index) => {
+    const color = labelColors[`${annotation.kind}:${annotation.label}`];
+
+    annotation.bboxesPdf.forEach(bboxPdf => {
+      const [left, top, width, height] = pdfToCss(bboxPdf, viewport);
+
+      const div = document.createElement('div');
+      div.className = `annotation annotation-${annotation.kind} annotation-${annotation.kind}-${annotation.label}`;
+      if (color) {
+        div.style.setProperty('--annotation-color', color);
+      }
+      if (annotation.detail) {
+        div.classList.add('annotation-detail');
+        div.title = annotation.detail;
+      }
+      if (index === selectedIndex) {
+        div.classList.add('selected');
+      }
+
+      Object.assign(div.style, {
+        position: 'absolute',
+        left: `${left}px`,
+        top: `${top}px`,
+        width: `${width}px`,
+        height: `${height}px`,
+        margin: '0',
+        border: '0',
+        padding: '0'
+      });
+
+      div.setAttribute('data-page', annotation.page.toString());
+      div.setAttribute('data-kind', annotation.kind);
+      div.setAttribute('data-label', annotation.label);
+      div.setAttribute('data-annotation-index', index.toString());
+
+      fragment.appendChild(div);
+    });
+  });
+
+  layerElement.appendChild(fragment);
+}
+
+/**
+ * Fragment rectangles of a match, falling back to the bounding box
+ */
+function getMatchFragments(matchRect: MatchRect): MatchRect['bboxesPdf'] {
+  return matchRect.bboxesPdf && matchRect.bboxesPdf.length > 0 ? matchRect.bboxesPdf : [matchRect.bboxPdf];
+}
+
 /**
  * Clear all highlight elements from a layer
  */
@@ -158,11 +247,12 @@ export function paintHighlightsAsync(
   viewport: Viewport,
   rects: MatchRect[],
   layerElement: HTMLElement,
-  activeIndex: number = -1
+  activeIndex: number = -1,
+  termColors: Record<string, string> = {}
 ): Promise<void> {
   return new Promise((resolve) => {
     requestAnimationFrame(() => {
-      paintHighlights(page, viewport, rects, layerElement, activeIndex);
+      paintHighlights(page, viewport, rects, layerElement, activeIndex, termColors);
       resolve();
     });
   });
@@ -177,17 +267,15 @@ export function updateActiveHighlight(
   previousActiveIndex: number,
   newActiveIndex: number
 ): void {
-  const highlights = layerElement.querySelectorAll('.highlight');
+  // Remove active class from every fragment of the previous match
+  layerElement
+    .querySelectorAll(`.highlight[data-match-index="${previousActiveIndex}"]`)
+    .forEach(element => element.classList.remove('active'));
   
-  // Remove active class from previous highlight
-  if (previousActiveIndex >= 0 && previousActiveIndex < highlights.length) {
-    highlights[previousActiveIndex].classList.remove('active');
-  }
-  
-  // Add active class to new highlight
-  if (newActiveIndex >= 0 && newActiveIndex < highlights.length) {
-    highlights[newActiveIndex].classList.add('active');
-  }
+  // Add active class to every fragment of the new match
+  layerElement
+    .querySelectorAll(`.highlight[data-match-index="${newActiveIndex}"]`)
+    .forEach(element => element.classList.add('active'));
 }
 
 /**
@@ -199,23 +287,23 @@ export function getVisibleHighlights(
   viewport: Viewport,
   visibleArea: { left: number; top: number; width: number; height: number }
 ): MatchRect[] {
-  return rects.filter(rect => {
-    const cssRect = pdfToCss(rect.bboxPdf, viewport);
+  return rects.filter(rect => getMatchFragments(rect).some(bboxPdf => {
+    const cssRect = pdfToCss(bboxPdf, viewport);
     const [left, top, width, height] = cssRect;
     
-    // Check if rectangle intersects with visible area
+    // Check if any fragment intersects with visible area
     return !(
       left + width < visibleArea.left ||
       left > visibleArea.left + visibleArea.width ||
       top + height < visibleArea.top ||
       top > visibleArea.top + visibleArea.height
     );
-  });
+  }));
 }
 
 /**
  * Get the CSS rectangle for scrolling to a specific match
- * Used by navigation to center the active match
+ * Used by navigation to center the active match; uses the union of all fragments
  */
 export function getMatchScrollRect(matchRect: MatchRect, viewport: Viewport): { left: number; top: number; width: number; height: number } {
   const [left, top, width, height] = pdfToCss(matchRect.bboxPdf, viewport);
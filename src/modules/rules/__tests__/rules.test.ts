@@ -0,0 +1,124 @@
+// Unit tests for the compliance rule engine
+// Tests the built-in rules, per-page findings spans and the rule registry
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runRules, createRuleAnalyzer, ruleRegistry, BUILTIN_RULES, RULE_KIND, Rule } from '../rules';
+
+function runBuiltin(id: string, text: string): string[] {
+  const rule = BUILTIN_RULES.find(r => r.id === id)!;
+  return rule.run(text, [text]).map(finding => text.substring(finding.startIndex, finding.endIndex));
+}
+
+describe('Rules', () => {
+  describe('built-in rules', () => {
+    it('should leave banned phrases to the indefinite-term linter', () => {
+      expect(BUILTIN_RULES.map(rule => rule.reference)).not.toContain('5.11');
+    });
+
+    it('should flag visible tailoring tags (5.17)', () => {
+      expect(runBuiltin('tailoring-tag', 'Provide <TAI OPT="NAVY">galvanized</TAI> steel.')).toEqual([
+        '<TAI OPT="NAVY">', '</TAI>'
+      ]);
+    });
+
+    it('should flag relative references and missing paragraphs (5.20)', () => {
+      const text = '1.2 SUBMITTALS\nSubmit as specified above.\n3.1 INSTALLATION\nSee paragraph 1.2 and paragraph 3.4.';
+      expect(runBuiltin('cross-reference', text)).toEqual(['specified above', 'paragraph 3.4']);
+    });
+  });
+
+  describe('runRules', () => {
+    const rule: Rule = {
+      id: 'test',
+      title: 'Test rule',
+      reference: '5.0',
+      severity: 'info',
+      run: (text) => {
+        const start = text.indexOf('cross');
+        return [{ startIndex: start, endIndex: start + 'cross\npage'.length, message: 'Crosses a page' }];
+      }
+    };
+
+    it('should split findings at page breaks', () => {
+      const spans = runRules([rule], ['It will cross', 'page breaks.']);
+
+      expect(spans[1]).toEqual([
+        { startIndex: 8, endIndex: 13, kind: RULE_KIND, label: 'test', detail: '5.0 Test rule\nCrosses a page' }
+      ]);
+      expect(spans[2]).toMatchObject([{ startIndex: 0, endIndex: 4, label: 'test' }]);
+    });
+
+    it('should skip a rule that throws', () => {
+      const failing: Rule = { ...rule, id: 'failing', run: () => { throw new Error('boom'); } };
+      expect(runRules([failing], ['text'])).toEqual({});
+    });
+
+    it('should color analyzer labels by severity, following rule changes', () => {
+      const rules = [rule];
+      const analyzer = createRuleAnalyzer(() => rules);
+      expect(analyzer.labels).toEqual([{ label: 'test', title: '5.0 Test rule', color: '#1565c0' }]);
+
+      rules.push({ ...rule, id: 'later', severity: 'error' });
+      expect(analyzer.labels.map(label => [label.label, label.color])).toEqual([['test', '#1565c0'], ['later', '#c62828']]);
+    });
+  });
+
+  describe('ruleRegistry', () => {
+    const rule: Rule = { id: 'test', title: 'Test rule', reference: '5.0', severity: 'info', run: () => [] };
+
+    afterEach(() => {
+      ruleRegistry.unregister('test');
+    });
+
+    it('should start with the built-in rules enabled', () => {
+      expect(ruleRegistry.getRules().map(r => r.id)).toEqual(BUILTIN_RULES.map(r => r.id));
+      expect(ruleRegistry.getEnabledRules()).toEqual(ruleRegistry.getRules());
+    });
+
+    it('should register a rule and replace a rule with the same ID', () => {
+      const listener = vi.fn();
+      const unsubscribe = ruleRegistry.subscribe(listener);
+
+      ruleRegistry.register(rule);
+      const replacement = { ...rule, title: 'Replaced' };
+      ruleRegistry.register(replacement);
+      unsubscribe();
+
+      expect(ruleRegistry.getRules().filter(r => r.id === 'test')).toEqual([replacement]);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should enable and disable a rule', () => {
+      ruleRegistry.register(rule);
+      const listener = vi.fn();
+      const unsubscribe = ruleRegistry.subscribe(listener);
+
+      ruleRegistry.setRuleEnabled('test', false);
+      ruleRegistry.setRuleEnabled('test', false);
+
+      expect(ruleRegistry.isRuleEnabled('test')).toBe(false);
+      expect(ruleRegistry.getEnabledRules()).not.toContain(rule);
+      expect(ruleRegistry.getRules()).toContain(rule);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      ruleRegistry.setRuleEnabled('test', true);
+      unsubscribe();
+      expect(ruleRegistry.getEnabledRules()).toContain(rule);
+    });
+
+    it('should forget the enabled state of an unregistered rule', () => {
+      ruleRegistry.register(rule);
+      ruleRegistry.setRuleEnabled('test', false);
+      ruleRegistry.unregister('test');
+
+      expect(ruleRegistry.getRules()).not.toContain(rule);
+      expect(ruleRegistry.isRuleEnabled('test')).toBe(true);
+
+      const listener = vi.fn();
+      const unsubscribe = ruleRegistry.subscribe(listener);
+      ruleRegistry.unregister('test');
+      unsubscribe();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
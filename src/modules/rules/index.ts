@@ -0,0 +1,12 @@
+// Rules module exports
+export {
+  findPatternFindings,
+  runRules,
+  formatFindingDetail,
+  createRuleAnalyzer,
+  ruleRegistry,
+  RULE_KIND,
+  RULE_SEVERITIES,
+  BUILTIN_RULES
+} from './rules';
+export type { RuleSeverity, RuleFinding, Rule, RuleRegistry } from './rules';
@@ -0,0 +1,251 @@
+// Compliance rule engine for the automated validation checks (writing standards Chapter 5)
+// A rule reads the whole document text and reports findings as ranges of it; the engine turns them
+// into annotation spans, which the analysis controller measures into PDF-space boxes and paints
+
+import { AnnotationSpan } from '../../types/viewport';
+import { DocumentAnalyzer } from '../analysis/analysis';
+import { joinPageTexts, splitRangeByPage } from '../segmenter/segmenter';
+import { partStructureRule, paragraphNumberingRule } from '../numbering/numbering';
+import { passiveVoiceRule, imperativeRatioRule, pronounRule } from '../style/style';
+
+type RuleSeverity = 'error' | 'warning' | 'info';
+
+interface RuleFinding {
+  startIndex: number;   // Range of the document text (page texts joined with "\n")
+  endIndex: number;
+  message: string;
+}
+
+interface Rule {
+  id: string;
+  title: string;
+  reference: string;    // Writing standards check, e.g. "5.17"
+  severity: RuleSeverity;
+  run(documentText: string, pages: string[]): RuleFinding[];
+}
+
+// Annotation kind of rule findings; the annotation label is the rule ID
+export const RULE_KIND = 'rule';
+
+export const RULE_SEVERITIES: Array<{ severity: RuleSeverity; title: string; color: string }> = [
+  { severity: 'error', title: 'Errors', color: '#c62828' },
+  { severity: 'warning', title: 'Warnings', color: '#ef6c00' },
+  { severity: 'info', title: 'Info', color: '#1565c0' }
+];
+
+// Tailoring tags and options left visible in an issued spec
+const TAILORING_TAG = /<\/?TAI\b[^>]*>|\bTAI\s+OPT\s*=\s*"[^"]*"/gi;
+
+// Vague relative references, e.g. "specified above"
+const RELATIVE_REFERENCE = /\b(?:see|specified|described|indicated|listed|shown|noted)\s+(?:above|below)\b/gi;
+
+// Reference to a numbered paragraph, e.g. "paragraph 3.2" or "paragraph 2-1.3"
+const PARAGRAPH_REFERENCE = /\b(?:paragraphs?|para\.)\s+(\d+(?:[.-]\d+)+)/gi;
+
+// Numbered paragraph heading at the start of a line
+const PARAGRAPH_HEADING = /^[ \t]*(\d+(?:[.-]\d+)+)\.?[ \t]+\S/gm;
+
+/**
+ * Find every match of a pattern as a finding with the given message
+ */
+export function findPatternFindings(text: string, pattern: RegExp, message: (match: RegExpMatchArray) => string): RuleFinding[] {
+  return Array.from(text.matchAll(pattern), match => ({
+    startIndex: match.index!,
+    endIndex: match.index! + match[0].length,
+    message: message(match)
+  }));
+}
+
+// Rules shipped with the app, in writing standards order
+// Banned phrases (5.11) are flagged by the indefinite-term linter from its keyword list
+export const BUILTIN_RULES: Rule[] = [
+  partStructureRule,
+  paragraphNumberingRule,
+  passiveVoiceRule,
+  imperativeRatioRule,
+  pronounRule,
+  {
+    id: 'tailoring-tag',
+    title: 'Tailoring tags',
+    reference: '5.17',
+    severity: 'error',
+    run: (text) => findPatternFindings(text, TAILORING_TAG, () => 'Remove tailoring tags from the issued spec')
+  },
+  {
+    id: 'cross-reference',
+    title: 'Cross-references',
+    reference: '5.20',
+    severity: 'warning',
+    run: (text) => {
+      const paragraphs = new Set(Array.from(text.matchAll(PARAGRAPH_HEADING), match => match[1]));
+      const missing = Array.from(text.matchAll(PARAGRAPH_REFERENCE))
+        .filter(match => !paragraphs.has(match[1]))
+        .map(match => ({
+          startIndex: match.index!,
+          endIndex: match.index! + match[0].length,
+          message: `Paragraph ${match[1]} does not exist`
+        }));
+      return [
+        ...findPatternFindings(text, RELATIVE_REFERENCE, match => `"${match[0]}": refer to the paragraph or Section by number`),
+        ...missing
+      ].sort((a, b) => a.startIndex - b.startIndex);
+    }
+  }
+];
+
+/**
+ * Run rules over the document and convert their findings to annotation spans keyed by page
+ * Findings crossing a page break get a span on each page
+ */
+export function runRules(rules: Rule[], pageTexts: string[]): Record<number, AnnotationSpan[]> {
+  const { text, pageStarts } = joinPageTexts(pageTexts);
+  const spansByPage: Record<number, AnnotationSpan[]> = {};
+
+  for (const rule of rules) {
+    let findings: RuleFinding[];
+    try {
+      findings = rule.run(text, pageTexts);
+    } catch (error) {
+      console.error(`Rule ${rule.id} failed:`, error);
+      continue;
+    }
+
+    for (const finding of findings) {
+      const detail = formatFindingDetail(rule, finding);
+      for (const part of splitRangeByPage(finding.startIndex, finding.endIndex, pageStarts, pageTexts)) {
+        (spansByPage[part.page] = spansByPage[part.page] || []).push({
+          startIndex: part.startIndex,
+          endIndex: part.endIndex,
+          kind: RULE_KIND,
+          label: rule.id,
+          detail
+        });
+      }
+    }
+  }
+
+  for (const spans of Object.values(spansByPage)) {
+    spans.sort((a, b) => a.startIndex - b.startIndex);
+  }
+  return spansByPage;
+}
+
+/**
+ * Tooltip text for a finding: the check it failed and what to change
+ */
+export function formatFindingDetail(rule: Rule, finding: RuleFinding): string {
+  return `${rule.reference} ${rule.title}\n${finding.message}`;
+}
+
+/**
+ * Analyzer that runs the current rules, coloring findings by rule severity
+ * Rules are read each time it runs, so rule changes only need the analyzer refreshed
+ */
+export function createRuleAnalyzer(getRules: () => Rule[]): DocumentAnalyzer {
+  const colors = Object.fromEntries(RULE_SEVERITIES.map(({ severity, color }) => [severity, color]));
+
+  return {
+    kind: RULE_KIND,
+    get labels() {
+      return getRules().map(rule => ({ label: rule.id, title: `${rule.reference} ${rule.title}`, color: colors[rule.severity] }));
+    },
+    analyzePage: (text) => runRules(getRules(), [text])[1] || [],
+    analyzeDocument: (pageTexts) => runRules(getRules(), pageTexts)
+  };
+}
+
+/**
+ * Registry of the rules available to the engine, and which of them are enabled
+ */
+class RuleRegistry {
+  private rules: Rule[] = [];
+  private disabled: Set<string> = new Set();
+  private listeners: Array<() => void> = [];
+
+  constructor(rules: Rule[]) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  /**
+   * Add a rule, replacing a rule with the same ID
+   */
+  register(rule: Rule): void {
+    this.rules = [...this.rules.filter(r => r.id !== rule.id), rule];
+    this.notifyListeners();
+  }
+
+  /**
+   * Remove a rule
+   */
+  unregister(id: string): void {
+    if (!this.rules.some(rule => rule.id === id)) return;
+    this.rules = this.rules.filter(rule => rule.id !== id);
+    this.disabled.delete(id);
+    this.notifyListeners();
+  }
+
+  /**
+   * Get all rules in registration order
+   */
+  getRules(): Rule[] {
+    return this.rules;
+  }
+
+  /**
+   * Get the rules that are enabled
+   */
+  getEnabledRules(): Rule[] {
+    return this.rules.filter(rule => !this.disabled.has(rule.id));
+  }
+
+  /**
+   * Enable or disable a rule
+   */
+  setRuleEnabled(id: string, enabled: boolean): void {
+    if (enabled === !this.disabled.has(id)) return;
+
+    if (enabled) {
+      this.disabled.delete(id);
+    } else {
+      this.disabled.add(id);
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Check whether a rule is enabled
+   */
+  isRuleEnabled(id: string): boolean {
+    return !this.disabled.has(id);
+  }
+
+  /**
+   * Subscribe to rule and enabled-state changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Rule registry listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance with the built-in rules
+export const ruleRegistry = new RuleRegistry(BUILTIN_RULES);
+
+// Export types for consumers
+export type { RuleSeverity, RuleFinding, Rule, RuleRegistry };
@@ -0,0 +1,109 @@
+// Unit tests for the running header and footer check
+// Tests page layouts, header and footer bands and the issues found on each page
+
+import { describe, it, expect } from 'vitest';
+import {
+  createPageLayout,
+  getBandLines,
+  getExpectedBand,
+  findTitlePageInfo,
+  checkRunningHeaders,
+  getRunningHeaderSpans,
+  getExpectedBandRegions,
+  PageLayout
+} from '../running_header';
+import { TextItem } from '../../../types/viewport';
+
+const PAGE_SIZE = { width: 612, height: 792 };
+
+function item(str: string, x: number, y: number, hasEOL = true): TextItem {
+  return { str, x, y, width: str.length * 5, height: 10, hasEOL };
+}
+
+// A page with the running header at the top right, body text and a centered page number
+function page(number: number, header: TextItem[], footer: TextItem[] = [item(String(number), 300, 30)]): PageLayout {
+  return createPageLayout(number, PAGE_SIZE, [...header, item('Body text of the page.', 72, 400), ...footer]);
+}
+
+const TITLE = createPageLayout(1, PAGE_SIZE, [
+  item('UFC 3-301-01', 250, 600),
+  item('1 June 2013', 260, 580),
+  item('Change 2, 1 October 2019', 230, 560)
+]);
+
+const HEADER = [item('UFC 3-301-01', 480, 750), item('1 June 2013', 485, 738)];
+
+describe('Running header', () => {
+  describe('createPageLayout', () => {
+    it('should give items their range of the page text', () => {
+      const layout = createPageLayout(1, PAGE_SIZE, [item('UFC', 0, 0, false), item(' 3-301-01', 20, 0), item('Text', 0, 0)]);
+      expect(layout.items.map(i => [i.startIndex, i.endIndex])).toEqual([[0, 3], [3, 12], [13, 17]]);
+    });
+  });
+
+  describe('getBandLines', () => {
+    it('should group header items by baseline, top to bottom', () => {
+      const layout = page(2, [item('1 June 2013', 485, 738), item('UFC', 480, 750, false), item('3-301-01', 500, 751)]);
+
+      expect(getBandLines(layout, 'header').map(line => line.text)).toEqual(['UFC 3-301-01', '1 June 2013']);
+      expect(getBandLines(layout, 'footer').map(line => line.text)).toEqual(['2']);
+    });
+  });
+
+  describe('findTitlePageInfo', () => {
+    it('should read the designation and the first date', () => {
+      expect(findTitlePageInfo('UNIFIED FACILITIES CRITERIA (UFC)\nUFC 3-301-01\n1 June 2013\nChange 2, 1 October 2019')).toEqual({
+        designation: 'UFC 3-301-01',
+        date: '1 June 2013'
+      });
+    });
+  });
+
+  describe('checkRunningHeaders', () => {
+    const titleInfo = { designation: 'UFC 3-301-01', date: '1 June 2013' };
+
+    it('should accept a complete running header and footer', () => {
+      expect(checkRunningHeaders([TITLE, page(2, HEADER)], titleInfo)).toEqual([]);
+    });
+
+    it('should flag missing, mismatched and misplaced fields', () => {
+      const layouts = [
+        TITLE,
+        page(2, [item('UFC 3-301-02', 480, 750), item('1 June 2013', 72, 738)], []),
+        page(3, [], [item('Body continued', 72, 30)])
+      ];
+
+      expect(checkRunningHeaders(layouts, titleInfo).map(issue => [issue.page, issue.label, issue.field])).toEqual([
+        [2, 'mismatched', 'designation'],
+        [2, 'misplaced', 'date'],
+        [2, 'missing', 'page-number'],
+        [3, 'missing', 'designation'],
+        [3, 'missing', 'date'],
+        [3, 'missing', 'page-number']
+      ]);
+    });
+
+    it('should skip the title page and blank pages', () => {
+      const blank = createPageLayout(2, PAGE_SIZE, [item(' ', 0, 0)]);
+      expect(checkRunningHeaders([TITLE, blank], titleInfo)).toEqual([]);
+    });
+  });
+
+  describe('annotations', () => {
+    it('should anchor found fields to their text and paint the expected band of each field', () => {
+      const layout = page(2, [item('UFC 3-301-01', 72, 750)], []);
+      const issues = checkRunningHeaders([TITLE, layout], { designation: 'UFC 3-301-01', date: '1 June 2013' });
+
+      expect(getRunningHeaderSpans(issues)).toEqual({
+        2: [expect.objectContaining({ startIndex: 0, endIndex: 12, label: 'misplaced' })]
+      });
+
+      const regions = getExpectedBandRegions([TITLE, layout], issues)[2];
+      expect(regions.map(region => region.bboxPdf)).toEqual([
+        getExpectedBand(layout, 'designation'),
+        getExpectedBand(layout, 'page-number')
+      ]);
+      expect(regions[0].detail).toContain('Publication date missing from the header');
+    });
+  });
+});
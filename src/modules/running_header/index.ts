@@ -0,0 +1,26 @@
+// Running header and footer check module exports
+export {
+  createPageLayout,
+  getBandRect,
+  getExpectedBand,
+  getBandLines,
+  findTitlePageInfo,
+  checkRunningHeaders,
+  formatRunningHeaderDetail,
+  getRunningHeaderSpans,
+  getExpectedBandRegions,
+  createRunningHeaderAnalyzer,
+  RUNNING_HEADER_KIND,
+  RUNNING_HEADER_LABELS,
+  EXPECTED_BAND_LABEL
+} from './running_header';
+export type {
+  RunningHeaderLabel,
+  RunningHeaderField,
+  PageBand,
+  LayoutItem,
+  PageLayout,
+  BandLine,
+  TitlePageInfo,
+  RunningHeaderIssue
+} from './running_header';
@@ -0,0 +1,318 @@
+// Running header and footer check for UFCs (writing standards 5.2)
+// Every UFC page carries its designation and publication date at the top right and its page number
+// in the footer. The check reads text-item positions, so it works on page layouts rather than page text
+
+import { TextItem, PdfRect, AnnotationSpan, AnnotationRect } from '../../types/viewport';
+import { DocumentAnalyzer } from '../analysis/analysis';
+import { findUfcDesignations } from '../ufc_metadata/ufc_metadata';
+
+type RunningHeaderLabel = 'missing' | 'mismatched' | 'misplaced';
+
+type RunningHeaderField = 'designation' | 'date' | 'page-number';
+
+type PageBand = 'header' | 'footer';
+
+// Text item with its range of the page text (as built by buildPageText)
+interface LayoutItem extends TextItem {
+  startIndex: number;
+  endIndex: number;
+}
+
+// Text items of a page with the page size, in PDF user units (bottom-left origin)
+interface PageLayout {
+  page: number;
+  width: number;
+  height: number;
+  items: LayoutItem[];
+}
+
+// Items of a header or footer band sharing a baseline
+interface BandLine {
+  text: string;           // Item strings joined with spaces
+  items: LayoutItem[];
+  bboxPdf: PdfRect;
+}
+
+// Designation and publication date printed on the title page
+interface TitlePageInfo {
+  designation: string | null;
+  date: string | null;
+}
+
+interface RunningHeaderIssue {
+  page: number;
+  label: RunningHeaderLabel;
+  field: RunningHeaderField;
+  message: string;
+  item: LayoutItem | null;    // Offending text item; null when the field is missing
+}
+
+// Annotation kind of running header issues; the expected bands are painted as regions of the same kind
+export const RUNNING_HEADER_KIND = 'running-header';
+
+// Label of the expected header and footer bands painted on pages with issues
+export const EXPECTED_BAND_LABEL = 'expected-band';
+
+export const RUNNING_HEADER_LABELS: Array<{ label: RunningHeaderLabel | typeof EXPECTED_BAND_LABEL; title: string; color: string }> = [
+  { label: 'missing', title: 'Missing (5.2)', color: '#c62828' },
+  { label: 'mismatched', title: 'Differs from title page (5.2)', color: '#6a1b9a' },
+  { label: 'misplaced', title: 'Misplaced (5.2)', color: '#ef6c00' },
+  { label: EXPECTED_BAND_LABEL, title: 'Expected band', color: '#1565c0' }
+];
+
+// Share of the page height at the top and bottom that holds the running header and footer
+const BAND_SHARE = 0.1;
+
+// The header block starts this far across the page (top right)
+const HEADER_RIGHT_SHARE = 2 / 3;
+
+// Items whose baselines are this close (PDF units) share a band line
+const LINE_TOLERANCE = 2;
+
+// Publication date as printed on UFCs, e.g. "1 June 2013" or "June 2013"
+const DATE_PATTERN = /\b(?:\d{1,2}\s+)?(?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{4}\b/g;
+
+// A footer page number: "12", "2-3", "A-1", "ii", optionally with "Page"
+const PAGE_NUMBER = /^(?:page\s+)?(?:[A-Z]-)?(?:\d+(?:-\d+)?|[ivxlc]+)$/i;
+
+/**
+ * Lay out text items with their ranges of the page text
+ * Offsets follow buildPageText: item strings back to back, "\n" after items that end a line
+ */
+export function createPageLayout(page: number, size: { width: number; height: number }, items: TextItem[]): PageLayout {
+  let offset = 0;
+  const layoutItems = items.map(item => {
+    const startIndex = offset;
+    offset += item.str.length + (item.hasEOL ? 1 : 0);
+    return { ...item, startIndex, endIndex: startIndex + item.str.length };
+  });
+  return { page, width: size.width, height: size.height, items: layoutItems };
+}
+
+/**
+ * Rectangle of the header or footer band of a page
+ */
+export function getBandRect(layout: PageLayout, band: PageBand): PdfRect {
+  const height = layout.height * BAND_SHARE;
+  return band === 'header'
+    ? [0, layout.height - height, layout.width, height]
+    : [0, 0, layout.width, height];
+}
+
+/**
+ * Rectangle where a field is expected: designation and date at the top right, page number across the footer
+ */
+export function getExpectedBand(layout: PageLayout, field: RunningHeaderField): PdfRect {
+  if (field === 'page-number') {
+    return getBandRect(layout, 'footer');
+  }
+  const [, y, , height] = getBandRect(layout, 'header');
+  const x = layout.width * HEADER_RIGHT_SHARE;
+  return [x, y, layout.width - x, height];
+}
+
+/**
+ * Lines of text in the header or footer band, top to bottom
+ * An item belongs to the header when its top is in the band, to the footer when its baseline is
+ */
+export function getBandLines(layout: PageLayout, band: PageBand): BandLine[] {
+  const bandHeight = layout.height * BAND_SHARE;
+  const inBand = layout.items.filter(item => item.str.trim() !== '' && (band === 'header'
+    ? item.y + item.height >= layout.height - bandHeight
+    : item.y <= bandHeight));
+
+  const lines: LayoutItem[][] = [];
+  for (const item of [...inBand].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const line = lines.find(l => Math.abs(l[0].y - item.y) <= LINE_TOLERANCE);
+    if (line) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map(items => {
+    const sorted = items.sort((a, b) => a.x - b.x);
+    const left = Math.min(...sorted.map(item => item.x));
+    const bottom = Math.min(...sorted.map(item => item.y));
+    const right = Math.max(...sorted.map(item => item.x + item.width));
+    const top = Math.max(...sorted.map(item => item.y + item.height));
+    return {
+      text: sorted.map(item => item.str.trim()).join(' '),
+      items: sorted,
+      bboxPdf: [left, bottom, right - left, top - bottom] as PdfRect
+    };
+  });
+}
+
+/**
+ * Read the designation and publication date from the title page text
+ * The publication date is the first date on the page; later ones are usually change dates
+ */
+export function findTitlePageInfo(text: string): TitlePageInfo {
+  const designation = findUfcDesignations(text)[0]?.designation || null;
+  const date = text.match(DATE_PATTERN)?.[0] || null;
+  return { designation, date: date ? date.replace(/\s+/g, ' ') : null };
+}
+
+function normalizeDate(date: string): string {
+  return date.replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Item of a band line containing a position of the line text
+ */
+function getItemAt(line: BandLine, index: number): LayoutItem {
+  let offset = 0;
+  for (const item of line.items) {
+    offset += item.str.trim().length + 1;
+    if (index < offset) return item;
+  }
+  return line.items[line.items.length - 1];
+}
+
+/**
+ * Check the running header and footer of every page after the title page
+ * Pages without text (blank separator pages) are skipped
+ */
+export function checkRunningHeaders(layouts: PageLayout[], titleInfo: TitlePageInfo): RunningHeaderIssue[] {
+  const issues: RunningHeaderIssue[] = [];
+
+  for (const layout of layouts.slice(1)) {
+    if (!layout.items.some(item => item.str.trim() !== '')) continue;
+
+    const header = getBandLines(layout, 'header');
+    const footer = getBandLines(layout, 'footer');
+    const headerRight = layout.width * HEADER_RIGHT_SHARE;
+    const issue = (label: RunningHeaderLabel, field: RunningHeaderField, message: string, item: LayoutItem | null = null) => {
+      issues.push({ page: layout.page, label, field, message, item });
+    };
+
+    // Designation
+    const designations = header.flatMap(line =>
+      findUfcDesignations(line.text).map(found => ({ designation: found.designation, item: getItemAt(line, found.startIndex) })));
+    if (designations.length === 0) {
+      issue('missing', 'designation', 'UFC designation missing from the header');
+    } else {
+      const found = designations.find(d => d.designation === titleInfo.designation) || designations[0];
+      if (titleInfo.designation && found.designation !== titleInfo.designation) {
+        issue('mismatched', 'designation', `Header shows ${found.designation}; the title page shows ${titleInfo.designation}`, found.item);
+      } else if (found.item.x + found.item.width < headerRight) {
+        issue('misplaced', 'designation', 'UFC designation is not at the top right', found.item);
+      }
+    }
+
+    // Publication date
+    const dates = header.flatMap(line =>
+      Array.from(line.text.matchAll(DATE_PATTERN), match => ({ text: match[0], date: normalizeDate(match[0]), item: getItemAt(line, match.index!) })));
+    if (dates.length === 0) {
+      issue('missing', 'date', 'Publication date missing from the header');
+    } else {
+      const titleDate = titleInfo.date ? normalizeDate(titleInfo.date) : null;
+      const found = dates.find(d => d.date === titleDate) || dates[0];
+      if (titleDate && found.date !== titleDate) {
+        issue('mismatched', 'date', `Header date ${found.text} differs from the title page date`, found.item);
+      } else if (found.item.x + found.item.width < headerRight) {
+        issue('misplaced', 'date', 'Publication date is not at the top right', found.item);
+      }
+    }
+
+    // Page number
+    if (!footer.some(line => line.items.some(item => PAGE_NUMBER.test(item.str.trim())))) {
+      const inHeader = header.flatMap(line => line.items).find(item => PAGE_NUMBER.test(item.str.trim()));
+      if (inHeader) {
+        issue('misplaced', 'page-number', 'Page number is in the header, not the footer', inHeader);
+      } else {
+        issue('missing', 'page-number', 'Page number missing from the footer');
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Tooltip text of an issue
+ */
+export function formatRunningHeaderDetail(issue: RunningHeaderIssue): string {
+  return `5.2 Running header and footer\n${issue.message}`;
+}
+
+/**
+ * Spans of the issues found on a text item, keyed by page
+ */
+export function getRunningHeaderSpans(issues: RunningHeaderIssue[]): Record<number, AnnotationSpan[]> {
+  const spansByPage: Record<number, AnnotationSpan[]> = {};
+  for (const issue of issues) {
+    if (!issue.item) continue;
+    (spansByPage[issue.page] = spansByPage[issue.page] || []).push({
+      startIndex: issue.item.startIndex,
+      endIndex: issue.item.endIndex,
+      kind: RUNNING_HEADER_KIND,
+      label: issue.label,
+      detail: formatRunningHeaderDetail(issue)
+    });
+  }
+  return spansByPage;
+}
+
+/**
+ * Expected band of each field with an issue, keyed by page
+ * Fields sharing a band (designation and date) get one region listing both issues
+ */
+export function getExpectedBandRegions(layouts: PageLayout[], issues: RunningHeaderIssue[]): Record<number, AnnotationRect[]> {
+  const regionsByPage: Record<number, AnnotationRect[]> = {};
+
+  for (const layout of layouts) {
+    const pageIssues = issues.filter(issue => issue.page === layout.page);
+    const bands = new Map<string, { bboxPdf: PdfRect; messages: string[] }>();
+    for (const issue of pageIssues) {
+      const bboxPdf = getExpectedBand(layout, issue.field);
+      const key = bboxPdf.join(',');
+      const band = bands.get(key) || { bboxPdf, messages: [] };
+      band.messages.push(issue.message);
+      bands.set(key, band);
+    }
+
+    if (bands.size === 0) continue;
+    regionsByPage[layout.page] = Array.from(bands.values(), ({ bboxPdf, messages }) => ({
+      startIndex: 0,
+      endIndex: 0,
+      kind: RUNNING_HEADER_KIND,
+      label: EXPECTED_BAND_LABEL,
+      detail: `5.2 Expected running header or footer\n${messages.join('\n')}`,
+      page: layout.page,
+      bboxPdf,
+      bboxesPdf: [bboxPdf]
+    }));
+  }
+
+  return regionsByPage;
+}
+
+/**
+ * Analyzer that annotates the text items of found issues
+ * The issues come from page layouts, which the analyzer cannot see, so they are found beforehand
+ */
+export function createRunningHeaderAnalyzer(issues: RunningHeaderIssue[]): DocumentAnalyzer {
+  const spansByPage = getRunningHeaderSpans(issues);
+
+  return {
+    kind: RUNNING_HEADER_KIND,
+    labels: RUNNING_HEADER_LABELS,
+    analyzePage: (_text, page) => spansByPage[page] || [],
+    analyzeDocument: () => spansByPage
+  };
+}
+
+// Export types for consumers
+export type {
+  RunningHeaderLabel,
+  RunningHeaderField,
+  PageBand,
+  LayoutItem,
+  PageLayout,
+  BandLine,
+  TitlePageInfo,
+  RunningHeaderIssue
+};
@@ -0,0 +1,58 @@
+// Unit tests for the search result helpers
+// Tests hit snippets and grouping hits by page or term
+
+import { describe, it, expect } from 'vitest';
+import { buildHitSnippet, groupSearchHits, SearchHit } from '../search_results';
+
+function createHit(order: number, page: number, termId: string): SearchHit {
+  return { order, page, termId, termText: termId, category: '', color: '', startIndex: 0, endIndex: 1 };
+}
+
+describe('Search results', () => {
+  describe('buildHitSnippet', () => {
+    it('should keep the whole text when it fits the context', () => {
+      expect(buildHitSnippet('Install the pipe\nlevel.', 12, 16)).toEqual({
+        before: 'Install the ',
+        match: 'pipe',
+        after: ' level.'
+      });
+    });
+
+    it('should cut at word boundaries and mark the cuts', () => {
+      const text = 'Provide galvanized steel pipe hangers at each support.';
+      const start = text.indexOf('pipe');
+
+      expect(buildHitSnippet(text, start, start + 4, 12)).toEqual({
+        before: '…steel ',
+        match: 'pipe',
+        after: ' hangers at…'
+      });
+    });
+
+    it('should collapse line breaks inside a match', () => {
+      expect(buildHitSnippet('Contracting\nOfficer', 0, 19).match).toBe('Contracting Officer');
+    });
+  });
+
+  describe('groupSearchHits', () => {
+    const hits = [createHit(0, 1, 'valve'), createHit(1, 1, 'pipe'), createHit(2, 3, 'valve')];
+
+    it('should group hits by page in page order', () => {
+      expect(groupSearchHits(hits, 'page').map(group => [group.label, group.hits.map(hit => hit.order)])).toEqual([
+        ['Page 1', [0, 1]],
+        ['Page 3', [2]]
+      ]);
+    });
+
+    it('should group hits by term in order of first hit', () => {
+      expect(groupSearchHits(hits, 'term').map(group => [group.key, group.hits.map(hit => hit.order)])).toEqual([
+        ['valve', [0, 2]],
+        ['pipe', [1]]
+      ]);
+    });
+
+    it('should return no groups without hits', () => {
+      expect(groupSearchHits([], 'page')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,3 @@
+// Search results module exports
+export { buildHitSnippet, groupSearchHits } from './search_results';
+export type { SearchHit, HitSnippet, HitGrouping, HitGroup } from './search_results';
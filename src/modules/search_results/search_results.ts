@@ -0,0 +1,88 @@
+// Search result listing helpers: snippets around hits and grouping for the results panel
+// Pure functions over document-wide hits, so the panel only formats what it displays
+
+// Characters of context shown on each side of a hit
+const SNIPPET_CONTEXT = 40;
+
+interface SearchHit {
+  order: number;        // global match index (same as matchStore's activeIndex)
+  page: number;
+  termId: string;
+  termText: string;
+  category: string;
+  color: string;
+  startIndex: number;   // offsets into the page text of the text index
+  endIndex: number;
+  score?: number;       // similarity of an approximate match
+}
+
+interface HitSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+type HitGrouping = 'page' | 'term';
+
+interface HitGroup {
+  key: string;
+  label: string;
+  hits: SearchHit[];
+}
+
+/**
+ * Cut the text around a hit, collapsing line breaks and trimming to word boundaries
+ */
+export function buildHitSnippet(
+  pageText: string,
+  startIndex: number,
+  endIndex: number,
+  context: number = SNIPPET_CONTEXT
+): HitSnippet {
+  const from = Math.max(0, startIndex - context);
+  const to = Math.min(pageText.length, endIndex + context);
+
+  let before = pageText.substring(from, startIndex);
+  let after = pageText.substring(endIndex, to);
+
+  // Drop the partial word at each cut edge
+  if (from > 0) {
+    before = '…' + before.replace(/^\S*\s+/, '');
+  }
+  if (to < pageText.length) {
+    after = after.replace(/\s+\S*$/, '') + '…';
+  }
+
+  return {
+    before: collapseWhitespace(before),
+    match: collapseWhitespace(pageText.substring(startIndex, endIndex)),
+    after: collapseWhitespace(after)
+  };
+}
+
+/**
+ * Group hits by page (in page order) or by term (in order of first hit)
+ * Hits keep document order within each group
+ */
+export function groupSearchHits(hits: SearchHit[], grouping: HitGrouping): HitGroup[] {
+  const groups = new Map<string, HitGroup>();
+
+  for (const hit of hits) {
+    const key = grouping === 'page' ? `page_${hit.page}` : hit.termId;
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label: grouping === 'page' ? `Page ${hit.page}` : hit.termText, hits: [] };
+      groups.set(key, group);
+    }
+    group.hits.push(hit);
+  }
+
+  return Array.from(groups.values());
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+// Export types for consumers
+export type { SearchHit, HitSnippet, HitGrouping, HitGroup };
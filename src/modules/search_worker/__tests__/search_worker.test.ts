@@ -0,0 +1,195 @@
+// Unit tests for the search worker
+// Tests the message protocol on both sides: the main-thread client routing responses to handlers,
+// and the worker script extracting pages and streaming cancellable searches
+
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { TermQuery } from '../../../types/viewport';
+import { DEFAULT_SEARCH_OPTIONS } from '../../matcher/matcher';
+import { searchWorker } from '../search_worker';
+import { SearchWorkerRequest, SearchWorkerResponse } from '../protocol';
+
+// PDF.js does not load under jsdom; fake documents carry their page texts
+vi.mock('../../../services/pdfService', () => ({
+  default: {
+    loadDocumentData: (data: ArrayBuffer) => {
+      const pages: string[] = JSON.parse(new TextDecoder().decode(data));
+      return pages.length > 0 ? Promise.resolve({ numPages: pages.length, pages }) : Promise.reject(new Error('Invalid PDF'));
+    },
+    extractText: (pdfDoc: { pages: string[] }, page: number) =>
+      Promise.resolve([{ str: pdfDoc.pages[page - 1], hasEOL: false }])
+  }
+}));
+
+const QUERIES: TermQuery[] = [{ termId: 'pipe', text: 'pipe', options: DEFAULT_SEARCH_OPTIONS }];
+
+function encodePages(pages: string[]): ArrayBuffer {
+  return new TextEncoder().encode(JSON.stringify(pages)).buffer as ArrayBuffer;
+}
+
+// Stand-in for the module worker: records requests and lets tests post responses
+class FakeWorker {
+  static instance: FakeWorker;
+  requests: SearchWorkerRequest[] = [];
+  onmessage: ((event: MessageEvent<SearchWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  constructor() {
+    FakeWorker.instance = this;
+  }
+
+  postMessage(message: SearchWorkerRequest): void {
+    this.requests.push(message);
+  }
+
+  respond(message: SearchWorkerResponse): void {
+    this.onmessage?.({ data: message } as MessageEvent<SearchWorkerResponse>);
+  }
+}
+
+describe('Search worker', () => {
+  describe('client', () => {
+    beforeAll(() => {
+      vi.stubGlobal('Worker', FakeWorker);
+    });
+
+    function createDocumentHandlers() {
+      return { onPageText: vi.fn(), onIndexed: vi.fn(), onError: vi.fn() };
+    }
+
+    function createSearchHandlers() {
+      return { onPageHits: vi.fn(), onDone: vi.fn(), onError: vi.fn() };
+    }
+
+    function lastRequest(): SearchWorkerRequest {
+      return FakeWorker.instance.requests[FakeWorker.instance.requests.length - 1];
+    }
+
+    it('should route page texts and completion of the current document only', () => {
+      const handlers = createDocumentHandlers();
+      searchWorker.loadDocument(encodePages(['one']), handlers);
+      const { documentId } = lastRequest() as Extract<SearchWorkerRequest, { type: 'load' }>;
+
+      FakeWorker.instance.respond({ type: 'pageText', documentId: documentId - 1, page: 1, pageCount: 1, text: 'stale' });
+      FakeWorker.instance.respond({ type: 'pageText', documentId, page: 1, pageCount: 1, text: 'one' });
+      FakeWorker.instance.respond({ type: 'indexed', documentId, pageCount: 1 });
+      FakeWorker.instance.respond({ type: 'error', documentId, message: 'Invalid PDF' });
+
+      expect(handlers.onPageText.mock.calls).toEqual([[1, 1, 'one']]);
+      expect(handlers.onIndexed).toHaveBeenCalledWith(1);
+      expect(handlers.onError).toHaveBeenCalledWith('Invalid PDF');
+    });
+
+    it('should stream search hits until the search is done', () => {
+      searchWorker.loadTexts(['pipe']);
+      const handlers = createSearchHandlers();
+      searchWorker.search(QUERIES, handlers, new AbortController().signal);
+      const { requestId } = lastRequest() as Extract<SearchWorkerRequest, { type: 'search' }>;
+
+      FakeWorker.instance.respond({ type: 'pageHits', requestId, page: 1, hits: [] });
+      FakeWorker.instance.respond({ type: 'searchDone', requestId });
+      FakeWorker.instance.respond({ type: 'pageHits', requestId, page: 2, hits: [] });
+
+      expect(handlers.onPageHits.mock.calls).toEqual([[1, []]]);
+      expect(handlers.onDone).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel an aborted search and drop its later messages', () => {
+      const handlers = createSearchHandlers();
+      const search = new AbortController();
+      searchWorker.search(QUERIES, handlers, search.signal);
+      const { requestId } = lastRequest() as Extract<SearchWorkerRequest, { type: 'search' }>;
+
+      search.abort();
+      FakeWorker.instance.respond({ type: 'pageHits', requestId, page: 1, hits: [] });
+      FakeWorker.instance.respond({ type: 'error', requestId, message: 'late' });
+
+      expect(lastRequest()).toEqual({ type: 'cancel', requestId });
+      expect(handlers.onPageHits).not.toHaveBeenCalled();
+      expect(handlers.onError).not.toHaveBeenCalled();
+    });
+
+    it('should cancel searches of a replaced document', () => {
+      const handlers = createSearchHandlers();
+      searchWorker.search(QUERIES, handlers, new AbortController().signal);
+      const { requestId } = lastRequest() as Extract<SearchWorkerRequest, { type: 'search' }>;
+
+      searchWorker.loadTexts(['other']);
+      FakeWorker.instance.respond({ type: 'searchDone', requestId });
+
+      expect(FakeWorker.instance.requests).toContainEqual({ type: 'cancel', requestId });
+      expect(handlers.onDone).not.toHaveBeenCalled();
+    });
+
+    it('should not start a search whose signal is already aborted', () => {
+      const search = new AbortController();
+      search.abort();
+      const count = FakeWorker.instance.requests.length;
+
+      searchWorker.search(QUERIES, createSearchHandlers(), search.signal);
+
+      expect(FakeWorker.instance.requests).toHaveLength(count);
+    });
+  });
+
+  describe('worker script', () => {
+    let responses: SearchWorkerResponse[] = [];
+    const send = (message: SearchWorkerRequest) =>
+      (self.onmessage as (event: MessageEvent<SearchWorkerRequest>) => void)({ data: message } as MessageEvent<SearchWorkerRequest>);
+
+    beforeAll(async () => {
+      vi.spyOn(self, 'postMessage').mockImplementation((message: unknown) => {
+        responses.push(message as SearchWorkerResponse);
+      });
+      await import('../search.worker');
+    });
+
+    beforeEach(() => {
+      responses = [];
+    });
+
+    it('should extract every page of a loaded document', async () => {
+      send({ type: 'load', documentId: 1, data: encodePages(['pipe', 'valve']) });
+
+      await vi.waitFor(() => expect(responses).toContainEqual({ type: 'indexed', documentId: 1, pageCount: 2 }));
+      expect(responses.slice(0, 2)).toEqual([
+        { type: 'pageText', documentId: 1, page: 1, pageCount: 2, text: 'pipe' },
+        { type: 'pageText', documentId: 1, page: 2, pageCount: 2, text: 'valve' }
+      ]);
+    });
+
+    it('should report documents that fail to load', async () => {
+      send({ type: 'load', documentId: 2, data: encodePages([]) });
+
+      await vi.waitFor(() => expect(responses).toEqual([{ type: 'error', documentId: 2, message: 'Invalid PDF' }]));
+    });
+
+    it('should stream hits per page and finish searches of loaded texts', async () => {
+      send({ type: 'loadTexts', documentId: 3, pageTexts: ['pipe and pipe', 'valve', 'pipe'] });
+      send({ type: 'search', requestId: 1, documentId: 3, queries: QUERIES });
+
+      await vi.waitFor(() => expect(responses).toContainEqual({ type: 'searchDone', requestId: 1 }));
+      expect(responses.map(response => response.type === 'pageHits' && [response.page, response.hits.length])).toEqual([
+        [1, 2],
+        [2, 0],
+        [3, 1],
+        false
+      ]);
+    });
+
+    it('should stop a cancelled search without reporting it done', async () => {
+      send({ type: 'loadTexts', documentId: 4, pageTexts: ['pipe', 'pipe', 'pipe'] });
+      send({ type: 'search', requestId: 2, documentId: 4, queries: QUERIES });
+      send({ type: 'cancel', requestId: 2 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(responses).toEqual([]);
+    });
+
+    it('should ignore searches of a document that is no longer loaded', async () => {
+      send({ type: 'search', requestId: 3, documentId: 3, queries: QUERIES });
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(responses).toEqual([]);
+    });
+  });
+});
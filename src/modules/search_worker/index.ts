@@ -0,0 +1,4 @@
+// Search worker module exports
+export { searchWorker } from './search_worker';
+export type { DocumentHandlers, SearchHandlers } from './search_worker';
+export type { SearchWorkerRequest, SearchWorkerResponse } from './protocol';
@@ -0,0 +1,32 @@
+// Message protocol between the main thread and the search worker
+// Every message is a tagged union member so both sides can switch on `type`
+
+import { MatchSpan, TermQuery } from '../../types/viewport';
+
+/**
+ * Messages sent from the main thread to the worker
+ */
+export type SearchWorkerRequest =
+  // Load a PDF and extract the text of every page
+  | { type: 'load'; documentId: number; data: ArrayBuffer }
+  // Reuse page texts extracted earlier (cached document), skipping extraction
+  | { type: 'loadTexts'; documentId: number; pageTexts: string[] }
+  // Match the queries against every page of a document, streaming hits per page
+  | { type: 'search'; requestId: number; documentId: number; queries: TermQuery[] }
+  // Stop a running search; no further messages are sent for it
+  | { type: 'cancel'; requestId: number };
+
+/**
+ * Messages sent from the worker to the main thread
+ */
+export type SearchWorkerResponse =
+  // Text of one page (1-based), sent in page order while a document is extracted
+  | { type: 'pageText'; documentId: number; page: number; pageCount: number; text: string }
+  // Every page of a document has been extracted
+  | { type: 'indexed'; documentId: number; pageCount: number }
+  // Hits for one page of a search, sent in page order
+  | { type: 'pageHits'; requestId: number; page: number; hits: MatchSpan[] }
+  // Every page of a search has been matched
+  | { type: 'searchDone'; requestId: number }
+  // Extraction or search failed; requestId is set when a search failed
+  | { type: 'error'; documentId?: number; requestId?: number; message: string };
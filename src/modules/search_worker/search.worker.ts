@@ -0,0 +1,145 @@
+// Search worker: extracts page text and matches queries off the main thread
+// Owns one document at a time; searches stream hits page by page and can be cancelled
+
+import pdfService from '../../services/pdfService';
+import { buildPageText } from '../text_index/text_index';
+import { tokenize } from '../tokenizer/tokenizer';
+import { findTermMatches } from '../matcher/matcher';
+import { SearchWorkerRequest, SearchWorkerResponse } from './protocol';
+
+interface WorkerDocument {
+  documentId: number;
+  pageCount: number;
+  pageTexts: string[];
+  // Resolvers waiting for a page that has not been extracted yet
+  waiters: Map<number, Array<() => void>>;
+  failed: boolean;
+}
+
+let current: WorkerDocument | null = null;
+const cancelledRequests = new Set<number>();
+
+// The project compiles against DOM types only; the worker scope's postMessage takes no target origin
+function post(message: SearchWorkerResponse): void {
+  self.postMessage(message);
+}
+
+function createDocument(documentId: number, pageCount: number): WorkerDocument {
+  return { documentId, pageCount, pageTexts: [], waiters: new Map(), failed: false };
+}
+
+/**
+ * Store a page's text and wake searches waiting for it
+ */
+function addPageText(doc: WorkerDocument, page: number, text: string): void {
+  doc.pageTexts[page - 1] = text;
+  doc.waiters.get(page)?.forEach(resolve => resolve());
+  doc.waiters.delete(page);
+}
+
+/**
+ * Resolve once a page's text is available (searches may start before extraction finishes)
+ */
+function waitForPage(doc: WorkerDocument, page: number): Promise<void> {
+  if (doc.pageTexts[page - 1] !== undefined || doc.failed) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    const waiters = doc.waiters.get(page) || [];
+    waiters.push(resolve);
+    doc.waiters.set(page, waiters);
+  });
+}
+
+/**
+ * Release every waiter, e.g. when extraction failed or the document was replaced
+ */
+function releaseWaiters(doc: WorkerDocument): void {
+  doc.waiters.forEach(waiters => waiters.forEach(resolve => resolve()));
+  doc.waiters.clear();
+}
+
+async function loadDocument(documentId: number, data: ArrayBuffer): Promise<void> {
+  try {
+    const pdfDoc = await pdfService.loadDocumentData(data);
+    if (current && current.documentId > documentId) return; // Superseded while loading
+
+    const doc = createDocument(documentId, pdfDoc.numPages);
+    if (current) releaseWaiters(current);
+    current = doc;
+
+    for (let page = 1; page <= doc.pageCount; page++) {
+      if (current !== doc) return;
+
+      const items = await pdfService.extractText(pdfDoc, page);
+      const text = buildPageText(items);
+      addPageText(doc, page, text);
+      post({ type: 'pageText', documentId, page, pageCount: doc.pageCount, text });
+    }
+
+    post({ type: 'indexed', documentId, pageCount: doc.pageCount });
+  } catch (error) {
+    if (current && current.documentId === documentId) {
+      current.failed = true;
+      releaseWaiters(current);
+    }
+    post({ type: 'error', documentId, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+function loadTexts(documentId: number, pageTexts: string[]): void {
+  if (current) releaseWaiters(current);
+
+  const doc = createDocument(documentId, pageTexts.length);
+  doc.pageTexts = [...pageTexts];
+  current = doc;
+}
+
+async function search(message: Extract<SearchWorkerRequest, { type: 'search' }>): Promise<void> {
+  const { requestId, documentId, queries } = message;
+  const isStale = () => cancelledRequests.has(requestId) || !current || current.documentId !== documentId;
+
+  try {
+    const doc = current;
+    if (!doc || isStale()) return;
+
+    for (let page = 1; page <= doc.pageCount; page++) {
+      await waitForPage(doc, page);
+      if (isStale() || doc.failed) return;
+
+      const hits = findTermMatches(tokenize(doc.pageTexts[page - 1]), queries);
+      post({ type: 'pageHits', requestId, page, hits });
+
+      // Yield so cancel messages are handled between pages
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (isStale()) return;
+    }
+
+    post({ type: 'searchDone', requestId });
+  } catch (error) {
+    if (!isStale()) {
+      post({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    cancelledRequests.delete(requestId);
+  }
+}
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'load':
+      void loadDocument(message.documentId, message.data);
+      break;
+    case 'loadTexts':
+      loadTexts(message.documentId, message.pageTexts);
+      break;
+    case 'search':
+      void search(message);
+      break;
+    case 'cancel':
+      cancelledRequests.add(message.requestId);
+      break;
+  }
+};
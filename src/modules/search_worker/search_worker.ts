@@ -0,0 +1,134 @@
+// Main-thread client for the search worker
+// Hides the message protocol behind document loading and cancellable, streaming searches
+
+import { MatchSpan, TermQuery } from '../../types/viewport';
+import { SearchWorkerRequest, SearchWorkerResponse } from './protocol';
+
+interface DocumentHandlers {
+  onPageText(page: number, pageCount: number, text: string): void;
+  onIndexed(pageCount: number): void;
+  onError(message: string): void;
+}
+
+interface SearchHandlers {
+  onPageHits(page: number, hits: MatchSpan[]): void;
+  onDone(): void;
+  onError(message: string): void;
+}
+
+class SearchWorkerClient {
+  private worker: Worker | null = null;
+  private documentId = 0;
+  private requestId = 0;
+  private documentHandlers: DocumentHandlers | null = null;
+  private searches: Map<number, SearchHandlers> = new Map();
+
+  /**
+   * Check whether the environment can run the search worker
+   */
+  isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Send a PDF to the worker and extract its page texts there
+   * Page texts stream back through the handlers; a later load replaces this document
+   */
+  loadDocument(data: ArrayBuffer, handlers: DocumentHandlers): void {
+    const documentId = this.nextDocument(handlers);
+    this.post({ type: 'load', documentId, data }, [data]);
+  }
+
+  /**
+   * Give the worker page texts extracted earlier so it can search without re-extracting
+   */
+  loadTexts(pageTexts: string[]): void {
+    const documentId = this.nextDocument(null);
+    this.post({ type: 'loadTexts', documentId, pageTexts });
+  }
+
+  /**
+   * Match queries against every page of the current document
+   * Hits stream back per page; aborting the signal stops the search and drops pending results
+   */
+  search(queries: TermQuery[], handlers: SearchHandlers, signal: AbortSignal): void {
+    if (signal.aborted) return;
+
+    const requestId = ++this.requestId;
+    this.searches.set(requestId, handlers);
+
+    signal.addEventListener('abort', () => {
+      if (this.searches.delete(requestId)) {
+        this.post({ type: 'cancel', requestId });
+      }
+    }, { once: true });
+
+    this.post({ type: 'search', requestId, documentId: this.documentId, queries });
+  }
+
+  private nextDocument(handlers: DocumentHandlers | null): number {
+    this.documentHandlers = handlers;
+
+    // Searches against the previous document can never complete
+    this.searches.forEach((_, requestId) => this.post({ type: 'cancel', requestId }));
+    this.searches.clear();
+
+    return ++this.documentId;
+  }
+
+  private post(message: SearchWorkerRequest, transfer: Transferable[] = []): void {
+    this.getWorker().postMessage(message, transfer);
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => console.error('Search worker error:', event.message);
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: SearchWorkerResponse): void {
+    switch (message.type) {
+      case 'pageText':
+        if (message.documentId === this.documentId) {
+          this.documentHandlers?.onPageText(message.page, message.pageCount, message.text);
+        }
+        break;
+
+      case 'indexed':
+        if (message.documentId === this.documentId) {
+          this.documentHandlers?.onIndexed(message.pageCount);
+        }
+        break;
+
+      case 'pageHits':
+        this.searches.get(message.requestId)?.onPageHits(message.page, message.hits);
+        break;
+
+      case 'searchDone': {
+        const handlers = this.searches.get(message.requestId);
+        this.searches.delete(message.requestId);
+        handlers?.onDone();
+        break;
+      }
+
+      case 'error':
+        if (message.requestId !== undefined) {
+          const handlers = this.searches.get(message.requestId);
+          this.searches.delete(message.requestId);
+          handlers?.onError(message.message);
+        } else if (message.documentId === this.documentId) {
+          this.documentHandlers?.onError(message.message);
+        }
+        break;
+    }
+  }
+}
+
+// Export singleton instance
+export const searchWorker = new SearchWorkerClient();
+
+// Export types for consumers
+export type { DocumentHandlers, SearchHandlers };
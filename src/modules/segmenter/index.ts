@@ -0,0 +1,3 @@
+// Segmenter module exports
+export { splitParagraphs, splitSentences, findSegmentAt, joinPageTexts, splitRangeByPage } from './segmenter';
+export type { TextSegment, PageRange } from './segmenter';
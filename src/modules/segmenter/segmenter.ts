@@ -0,0 +1,191 @@
+// Sentence and paragraph segmentation of page text
+// Works on text index page text ("\n" at line ends), returning character ranges into it
+
+interface TextSegment {
+  startIndex: number;
+  endIndex: number;
+}
+
+// A range of one page's text
+interface PageRange extends TextSegment {
+  page: number;
+}
+
+// Abbreviations whose trailing period does not end a sentence (lowercase, without the period)
+const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'no', 'nos', 'para', 'paras', 'sec', 'secs', 'fig', 'figs',
+  'approx', 'min', 'max', 'mr', 'mrs', 'ms', 'dr', 'st', 'u.s', 'incl', 'ref', 'vol', 'art'
+]);
+
+// A line that starts a new numbered paragraph: "1.2.3 ", "2-1.1 ", "a. ", "(1) ", "PART 2 "
+const PARAGRAPH_START = /^\s*(?:PART\s+\d+|\d+(?:[.-]\d+)*\.?|[a-z]\.|\(\w{1,3}\))\s/;
+
+/**
+ * Split text into paragraphs
+ * A paragraph ends at a blank line, or before a line that starts with a paragraph number
+ */
+export function splitParagraphs(text: string): TextSegment[] {
+  const paragraphs: TextSegment[] = [];
+  let paragraphStart: number | null = null;
+  let lineStart = 0;
+
+  const closeParagraph = (endIndex: number) => {
+    if (paragraphStart !== null) {
+      const segment = trimSegment(text, paragraphStart, endIndex);
+      if (segment) paragraphs.push(segment);
+      paragraphStart = null;
+    }
+  };
+
+  while (lineStart <= text.length) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const line = text.substring(lineStart, lineEnd);
+
+    if (!line.trim()) {
+      closeParagraph(lineStart);
+    } else {
+      if (PARAGRAPH_START.test(line)) {
+        closeParagraph(lineStart);
+      }
+      if (paragraphStart === null) {
+        paragraphStart = lineStart;
+      }
+    }
+
+    if (newline === -1) break;
+    lineStart = newline + 1;
+  }
+
+  closeParagraph(text.length);
+  return paragraphs;
+}
+
+/**
+ * Split text into sentences; sentences never cross paragraph boundaries
+ * A sentence ends at ".", "!" or "?" followed by whitespace, except after known abbreviations,
+ * single initials and paragraph numbers
+ */
+export function splitSentences(text: string): TextSegment[] {
+  const sentences: TextSegment[] = [];
+
+  for (const paragraph of splitParagraphs(text)) {
+    let sentenceStart = paragraph.startIndex;
+    const terminator = /[.!?]+["')\]]*(?=\s)/g;
+    terminator.lastIndex = paragraph.startIndex;
+
+    let match: RegExpExecArray | null;
+    while ((match = terminator.exec(text)) !== null && match.index < paragraph.endIndex) {
+      const endIndex = match.index + match[0].length;
+      if (!endsSentence(text, sentenceStart, match.index)) continue;
+
+      const segment = trimSegment(text, sentenceStart, endIndex);
+      if (segment) sentences.push(segment);
+      sentenceStart = endIndex;
+    }
+
+    const rest = trimSegment(text, sentenceStart, paragraph.endIndex);
+    if (rest) sentences.push(rest);
+  }
+
+  return sentences;
+}
+
+/**
+ * Find the segment containing a character index
+ */
+export function findSegmentAt(segments: TextSegment[], index: number): TextSegment | null {
+  let low = 0;
+  let high = segments.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const segment = segments[mid];
+    if (index < segment.startIndex) {
+      high = mid - 1;
+    } else if (index >= segment.endIndex) {
+      low = mid + 1;
+    } else {
+      return segment;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Join page texts with a line break, so lines and paragraphs can continue onto the next page
+ * Also returns the offset at which each page starts in the joined text
+ */
+export function joinPageTexts(pageTexts: string[]): { text: string; pageStarts: number[] } {
+  const pageStarts: number[] = [];
+  let offset = 0;
+  for (const text of pageTexts) {
+    pageStarts.push(offset);
+    offset += text.length + 1;
+  }
+  return { text: pageTexts.join('\n'), pageStarts };
+}
+
+/**
+ * Split a range of the joined text into per-page ranges of page text offsets
+ */
+export function splitRangeByPage(
+  start: number,
+  end: number,
+  pageStarts: number[],
+  pageTexts: string[]
+): PageRange[] {
+  const parts: PageRange[] = [];
+
+  pageStarts.forEach((pageStart, i) => {
+    const pageEnd = pageStart + pageTexts[i].length;
+    const partStart = Math.max(start, pageStart);
+    const partEnd = Math.min(end, pageEnd);
+    if (partStart < partEnd) {
+      parts.push({ page: i + 1, startIndex: partStart - pageStart, endIndex: partEnd - pageStart });
+    }
+  });
+
+  return parts;
+}
+
+/**
+ * Decide whether the punctuation at `index` ends the sentence that began at `sentenceStart`
+ */
+function endsSentence(text: string, sentenceStart: number, index: number): boolean {
+  if (text[index] !== '.') return true;
+
+  // The word the period belongs to
+  let wordStart = index;
+  while (wordStart > sentenceStart && !/\s/.test(text[wordStart - 1])) {
+    wordStart--;
+  }
+  const word = text.substring(wordStart, index).replace(/^["'(\[]+/, '');
+
+  if (ABBREVIATIONS.has(word.toLowerCase())) return false;
+  if (/^\p{Lu}$/u.test(word)) return false;              // Initial, e.g. "J. Smith"
+  if (/^\d+(?:[.-]\d+)*$/.test(word) && wordStart === firstWordStart(text, sentenceStart)) {
+    return false;                                          // Paragraph number, e.g. "1.2."
+  }
+  return true;
+}
+
+function firstWordStart(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Shrink a range to exclude surrounding whitespace; null if nothing remains
+ */
+function trimSegment(text: string, startIndex: number, endIndex: number): TextSegment | null {
+  while (startIndex < endIndex && /\s/.test(text[startIndex])) startIndex++;
+  while (endIndex > startIndex && /\s/.test(text[endIndex - 1])) endIndex--;
+  return endIndex > startIndex ? { startIndex, endIndex } : null;
+}
+
+// Export types for consumers
+export type { TextSegment, PageRange };
@@ -0,0 +1,35 @@
+// Unit tests for the match store
+// Tests document-wide hit offsets as pages stream in
+
+import { describe, it, expect } from 'vitest';
+import { matchStore } from '../store';
+import { MatchSpan } from '../../../types/viewport';
+
+function createHits(count: number): MatchSpan[] {
+  return Array.from({ length: count }, (_, i) => ({ termId: 'pipe', startIndex: i * 5, endIndex: i * 5 + 4 }));
+}
+
+describe('Match store', () => {
+  describe('getPageHitOffset', () => {
+    it('should count the hits of earlier pages, following pages as they arrive', () => {
+      matchStore.beginDocumentHits();
+      matchStore.setPageHits(1, createHits(2));
+      matchStore.setPageHits(2, []);
+      matchStore.setPageHits(3, createHits(1));
+
+      expect([1, 2, 3].map(page => matchStore.getPageHitOffset(page))).toEqual([0, 2, 2]);
+
+      matchStore.setPageHits(2, createHits(3));
+      expect(matchStore.getPageHitOffset(3)).toBe(5);
+      expect(matchStore.getPageHitOffset(4)).toBe(6);
+    });
+
+    it('should start over for a new document search', () => {
+      matchStore.beginDocumentHits();
+      matchStore.setPageHits(2, createHits(1));
+
+      expect(matchStore.getPageHitOffset(2)).toBe(0);
+      expect(matchStore.getTotalMatches()).toBe(1);
+    });
+  });
+});
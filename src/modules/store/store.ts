@@ -1,25 +1,37 @@
 // Centralized store for PDF-space match rectangles and navigation state
 // Replaces DIV-index based storage with MatchRect-based storage
 
-import { MatchRect } from '../../types/viewport';
+import { MatchRect, MatchSpan, SearchTerm, SearchOptions } from '../../types/viewport';
+import { DEFAULT_SEARCH_OPTIONS } from '../matcher/matcher';
 
 interface StoreState {
   matchRectsByPage: Record<number, MatchRect[]>;
+  hitsByPage: Record<number, MatchSpan[]> | null;  // document-wide matches from the text index
   activeIndex: number;
   totalMatches: number;
   currentQuery: string;
+  profileTerms: SearchTerm[];
+  searchOptions: SearchOptions;
+  queryError: string | null;
 }
 
 class MatchStore {
   private state: StoreState = {
     matchRectsByPage: {},
+    hitsByPage: null,
     activeIndex: -1,
     totalMatches: 0,
-    currentQuery: ''
+    currentQuery: '',
+    profileTerms: [],
+    searchOptions: { ...DEFAULT_SEARCH_OPTIONS },
+    queryError: null
   };
 
   private listeners: Array<(state: StoreState) => void> = [];
 
+  // Global order of the first hit of each searched page, rebuilt lazily when hits change
+  private hitOffsets: Record<number, number> | null = null;
+
   /**
    * Set match rectangles for a specific page
    * This is the authoritative storage - only PDF-space coordinates
@@ -37,6 +49,115 @@ class MatchStore {
     return this.state.matchRectsByPage[page] || [];
   }
 
+  /**
+   * Start receiving document-wide match spans (from the text index)
+   * From now on totals and navigation count every received hit, measured or not
+   */
+  beginDocumentHits(): void {
+    this.state.hitsByPage = {};
+    this.hitOffsets = null;
+    this.state.activeIndex = -1;
+    this.updateTotalMatches();
+    this.notifyListeners();
+  }
+
+  /**
+   * Set the document-wide match spans of one page
+   * Pages arrive in order, so orders of hits on earlier pages stay stable
+   */
+  setPageHits(page: number, hits: MatchSpan[]): void {
+    if (!this.state.hitsByPage) {
+      this.state.hitsByPage = {};
+    }
+    this.state.hitsByPage[page] = hits;
+    this.hitOffsets = null;
+    this.updateTotalMatches();
+    this.notifyListeners();
+  }
+
+  /**
+   * Get document-wide match spans for a page, or null if the page has not been searched yet
+   */
+  getPageHits(page: number): MatchSpan[] | null {
+    return this.state.hitsByPage?.[page] || null;
+  }
+
+  /**
+   * Check whether totals come from a document-wide search
+   */
+  hasDocumentHits(): boolean {
+    return this.state.hitsByPage !== null;
+  }
+
+  /**
+   * Global order of the first hit on a page (hits on earlier pages come first)
+   * Offsets of searched pages are computed once per change of the hits, with a running sum
+   */
+  getPageHitOffset(page: number): number {
+    const hitsByPage = this.state.hitsByPage;
+    if (!hitsByPage) return 0;
+
+    if (!this.hitOffsets) {
+      const offsets: Record<number, number> = {};
+      let offset = 0;
+      for (const p of Object.keys(hitsByPage).map(Number).sort((a, b) => a - b)) {
+        offsets[p] = offset;
+        offset += hitsByPage[p].length;
+      }
+      this.hitOffsets = offsets;
+    }
+
+    if (page in this.hitOffsets) {
+      return this.hitOffsets[page];
+    }
+
+    // Page not searched yet
+    return Object.keys(hitsByPage)
+      .map(Number)
+      .filter(p => p < page)
+      .reduce((offset, p) => offset + hitsByPage[p].length, 0);
+  }
+
+  /**
+   * Get match counts per page (document-wide when available, otherwise measured pages only)
+   */
+  getPageMatchCounts(): Record<number, number> {
+    const source = this.state.hitsByPage || this.state.matchRectsByPage;
+    const counts: Record<number, number> = {};
+
+    for (const [page, matches] of Object.entries(source)) {
+      if (matches.length > 0) {
+        counts[Number(page)] = matches.length;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Get the page and page-local index of the active hit
+   */
+  getActiveHit(): { page: number; localIndex: number } | null {
+    const activeIndex = this.state.activeIndex;
+    if (activeIndex < 0) return null;
+
+    const source = this.state.hitsByPage || this.state.matchRectsByPage;
+    const pages = Object.keys(source)
+      .map(Number)
+      .sort((a, b) => a - b);
+
+    let offset = 0;
+    for (const page of pages) {
+      const count = source[page].length;
+      if (activeIndex < offset + count) {
+        return { page, localIndex: activeIndex - offset };
+      }
+      offset += count;
+    }
+
+    return null;
+  }
+
   /**
    * Get all match rectangles across all pages
    */
@@ -78,12 +199,20 @@ class MatchStore {
 
   /**
    * Get the active match rectangle
+   * Returns null while the active hit's page has not been measured yet
    */
   getActiveMatch(): MatchRect | null {
-    const allRects = this.getAllMatchRects();
     const activeIndex = this.getActiveIndex();
-    
-    if (activeIndex >= 0 && activeIndex < allRects.length) {
+    if (activeIndex < 0) return null;
+
+    if (this.state.hitsByPage) {
+      const activeHit = this.getActiveHit();
+      if (!activeHit) return null;
+      return this.getMatchRects(activeHit.page).find(rect => rect.order === activeIndex) || null;
+    }
+
+    const allRects = this.getAllMatchRects();
+    if (activeIndex < allRects.length) {
       return allRects[activeIndex];
     }
     
@@ -157,6 +286,8 @@ class MatchStore {
    */
   clearAllMatches(): void {
     this.state.matchRectsByPage = {};
+    this.state.hitsByPage = null;
+    this.hitOffsets = null;
     this.state.activeIndex = -1;
     this.state.totalMatches = 0;
     this.notifyListeners();
@@ -194,6 +325,59 @@ class MatchStore {
     return this.state.currentQuery;
   }
 
+  /**
+   * Set the search options (whole word, case, diacritics, regex)
+   */
+  setSearchOptions(options: SearchOptions): void {
+    const current = this.state.searchOptions;
+    const changed = (Object.keys(options) as Array<keyof SearchOptions>)
+      .some(key => options[key] !== current[key]);
+
+    if (changed) {
+      this.state.searchOptions = { ...options };
+      this.clearAllMatches(); // Clear matches when options change
+    }
+  }
+
+  /**
+   * Get the current search options
+   */
+  getSearchOptions(): SearchOptions {
+    return this.state.searchOptions;
+  }
+
+  /**
+   * Set the query validation error (e.g. an invalid regular expression)
+   */
+  setQueryError(error: string | null): void {
+    if (this.state.queryError !== error) {
+      this.state.queryError = error;
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * Get the query validation error
+   */
+  getQueryError(): string | null {
+    return this.state.queryError;
+  }
+
+  /**
+   * Set the keyword profile terms matched alongside the free-text query
+   */
+  setProfileTerms(terms: SearchTerm[]): void {
+    this.state.profileTerms = terms;
+    this.clearAllMatches(); // Clear matches when the term set changes
+  }
+
+  /**
+   * Get the keyword profile terms
+   */
+  getProfileTerms(): SearchTerm[] {
+    return this.state.profileTerms;
+  }
+
   /**
    * Subscribe to store changes
    */
@@ -218,10 +402,12 @@ class MatchStore {
 
   /**
    * Update total matches count
+   * Document-wide hits are authoritative; measured rects only count before the index is searched
    */
   private updateTotalMatches(): void {
-    this.state.totalMatches = Object.values(this.state.matchRectsByPage)
-      .reduce((total, rects) => total + rects.length, 0);
+    const source: Record<number, unknown[]> = this.state.hitsByPage || this.state.matchRectsByPage;
+    this.state.totalMatches = Object.values(source)
+      .reduce((total, matches) => total + matches.length, 0);
   }
 
   /**
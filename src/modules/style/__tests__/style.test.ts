@@ -0,0 +1,103 @@
+// Unit tests for the voice, mood and pronoun checks
+// Tests passive and pronoun flags, imperative rewrites and the per-section imperative ratio
+
+import { describe, it, expect } from 'vitest';
+import {
+  getSentenceBody,
+  isImperative,
+  suggestImperative,
+  analyzeStyle,
+  getSectionMoods,
+  imperativeRatioRule
+} from '../style';
+
+function flagged(text: string): Array<[string, string]> {
+  return analyzeStyle(text).map(finding => [finding.type, text.substring(finding.startIndex, finding.endIndex)]);
+}
+
+describe('Style', () => {
+  describe('isImperative', () => {
+    it('should recognize requirements that open with a verb', () => {
+      expect(isImperative('Provide galvanized steel.')).toBe(true);
+      expect(isImperative('3.1 INSTALLATION\nInstall piping level.')).toBe(true);
+      expect(isImperative('a. Do not weld in the rain.')).toBe(true);
+      expect(isImperative('The Contractor shall provide steel.')).toBe(false);
+    });
+
+    it('should drop the paragraph number and heading title', () => {
+      expect(getSentenceBody('1.2.1 Shop Drawings\nSubmit drawings.')).toBe('Submit drawings.');
+      expect(getSentenceBody('2-1 Provide anchors.')).toBe('Provide anchors.');
+    });
+  });
+
+  describe('suggestImperative', () => {
+    it('should move the subject behind the verb', () => {
+      expect(suggestImperative('All exposed piping shall be painted.')).toBe('Paint all exposed piping.');
+      expect(suggestImperative('Materials shall be stored off the ground.')).toBe('Store materials off the ground.');
+      expect(suggestImperative('Drawings shall be submitted for review.')).toBe('Submit Drawings for review.');
+    });
+
+    it('should not rewrite unknown verbs or sentences with an actor', () => {
+      expect(suggestImperative('Piping shall be galvanized.')).toBeNull();
+      expect(suggestImperative('Samples shall be approved by the Contracting Officer.')).toBeNull();
+    });
+  });
+
+  describe('analyzeStyle', () => {
+    it('should flag passives without an actor and suggest a rewrite', () => {
+      const text = 'Anchors shall be installed at 600 mm. Work shall be inspected by the Contracting Officer.';
+      const findings = analyzeStyle(text);
+
+      expect(findings).toHaveLength(1);
+      expect(text.substring(findings[0].startIndex, findings[0].endIndex)).toBe('shall be installed');
+      expect(findings[0].suggestion).toBe('Install anchors at 600 mm.');
+    });
+
+    it('should flag gendered and second-person pronouns and "same" as a pronoun', () => {
+      const text = 'The Contractor shall submit his schedule. You must repair same. Use the same color as the existing wall.';
+
+      expect(flagged(text)).toEqual([
+        ['gendered-pronoun', 'his'],
+        ['second-person', 'You'],
+        ['same', 'same']
+      ]);
+    });
+
+    it('should not flag adjectives or numbers after "shall be"', () => {
+      expect(flagged('Doors shall be open during testing. Paint shall be green. Spacing shall be fifteen inches.')).toEqual([]);
+      expect(flagged('Clearance shall be between 50 and 75 mm. Surfaces shall be even.')).toEqual([]);
+    });
+
+    it('should not flag "the same" used to compare', () => {
+      expect(flagged('Valves shall be the same for each system. Fittings shall be the same as the piping.')).toEqual([]);
+      expect(flagged('Remove the old fixtures; the same shall be disposed of off site.')).toEqual([
+        ['same', 'the same'],
+        ['passive', 'shall be disposed']
+      ]);
+    });
+  });
+
+  describe('getSectionMoods', () => {
+    const text = [
+      'PART 1 GENERAL',
+      '1.1 SUMMARY',
+      'Provide paint. Apply primer. The Contractor shall clean surfaces.',
+      '1.2 DELIVERY',
+      'Materials shall be stored dry. Containers shall be labeled. Piping shall be capped.'
+    ].join('\n');
+
+    it('should count imperative and "shall" requirements per top-level paragraph', () => {
+      expect(getSectionMoods(text).map(mood => [mood.number, mood.imperative, mood.shall])).toEqual([
+        ['1.1', 2, 1],
+        ['1.2', 0, 3]
+      ]);
+    });
+
+    it('should flag the heading of sections with a low imperative ratio', () => {
+      const findings = imperativeRatioRule.run(text, [text]);
+
+      expect(findings.map(finding => text.substring(finding.startIndex, finding.endIndex))).toEqual(['1.2 DELIVERY']);
+      expect(findings[0].message).toContain('0 of 3 requirements are imperative (0%)');
+    });
+  });
+});
@@ -0,0 +1,14 @@
+// Voice, mood and pronoun checks module exports
+export {
+  getSentenceBody,
+  isImperative,
+  suggestImperative,
+  analyzeStyle,
+  getSectionMoods,
+  isLowImperativeRatio,
+  passiveVoiceRule,
+  imperativeRatioRule,
+  pronounRule,
+  IMPERATIVE_RATIO_THRESHOLD
+} from './style';
+export type { StyleFindingType, StyleFinding, SectionMood } from './style';
@@ -0,0 +1,259 @@
+// Voice, mood and pronoun checks (writing standards 5.12 and 5.14)
+// Requirements are written in the imperative ("Install piping") or as "the Contractor shall";
+// passive "shall be" without an actor, gendered and second-person pronouns and "same" used as
+// a pronoun are flagged, and sections are scored by the share of imperative requirements
+
+import { Rule, RuleFinding } from '../rules/rules';
+import { splitSentences } from '../segmenter/segmenter';
+import { parseHeadings, detectNumberingScheme } from '../numbering/numbering';
+
+type StyleFindingType = 'passive' | 'gendered-pronoun' | 'second-person' | 'same';
+
+interface StyleFinding {
+  type: StyleFindingType;
+  startIndex: number;   // Range of the flagged words in the text
+  endIndex: number;
+  message: string;
+  suggestion: string | null;    // Imperative rewrite of the sentence, when a pattern applies
+}
+
+// Requirement mood of a section: imperative sentences against "shall" sentences
+interface SectionMood {
+  number: string;       // Heading number, e.g. "1.2" or "2-1"; '' before the first heading
+  title: string;
+  startIndex: number;   // Range of the section in the text
+  endIndex: number;
+  headingEndIndex: number;   // End of the heading line; startIndex for text before the first heading
+  imperative: number;
+  shall: number;
+  ratio: number | null;   // imperative / (imperative + shall); null without requirements
+}
+
+// Sections below this imperative share are flagged, once they have enough requirements to judge
+export const IMPERATIVE_RATIO_THRESHOLD = 0.5;
+const MIN_SECTION_REQUIREMENTS = 3;
+
+// Past participles of verbs common in specifications, with the imperative they rewrite to
+const PARTICIPLES: Record<string, string> = {
+  adjusted: 'Adjust', anchored: 'Anchor', applied: 'Apply', arranged: 'Arrange', braced: 'Brace',
+  built: 'Build', calibrated: 'Calibrate', caulked: 'Caulk', cleaned: 'Clean', coated: 'Coat',
+  completed: 'Complete', connected: 'Connect', constructed: 'Construct', coordinated: 'Coordinate',
+  covered: 'Cover', cut: 'Cut', delivered: 'Deliver', designed: 'Design', disposed: 'Dispose',
+  fastened: 'Fasten', filled: 'Fill', finished: 'Finish', flushed: 'Flush', furnished: 'Furnish',
+  grounded: 'Ground', grouted: 'Grout', handled: 'Handle', identified: 'Identify', included: 'Include',
+  inspected: 'Inspect', installed: 'Install', insulated: 'Insulate', kept: 'Keep', labeled: 'Label',
+  laid: 'Lay', located: 'Locate', maintained: 'Maintain', made: 'Make', marked: 'Mark',
+  mounted: 'Mount', painted: 'Paint', patched: 'Patch', performed: 'Perform', placed: 'Place',
+  prepared: 'Prepare', primed: 'Prime', protected: 'Protect', provided: 'Provide', recorded: 'Record',
+  removed: 'Remove', repaired: 'Repair', replaced: 'Replace', restored: 'Restore', sealed: 'Seal',
+  secured: 'Secure', set: 'Set', sloped: 'Slope', stored: 'Store', submitted: 'Submit',
+  supported: 'Support', tested: 'Test', tightened: 'Tighten', used: 'Use', verified: 'Verify',
+  welded: 'Weld'
+};
+
+// Verbs that open imperative requirements besides those above
+const IMPERATIVE_VERBS = new Set([
+  ...Object.values(PARTICIPLES),
+  'Allow', 'Assemble', 'Avoid', 'Comply', 'Conform', 'Determine', 'Do', 'Ensure', 'Erect', 'Excavate',
+  'Notify', 'Obtain', 'Operate', 'Perform', 'Schedule', 'Select', 'Start', 'Take', 'Terminate', 'Wrap'
+]);
+
+// Words kept capitalized when a subject moves behind the verb (contract terms)
+const CAPITALIZED_TERMS = new Set(['Contractor', 'Government', 'Contracting', 'Drawings', 'Section', 'Specifications']);
+
+// "shall be" and a past participle: regular "-ed"/"-en" forms and the irregular ones listed above,
+// except adjectives and numbers spelled like them ("shall be open", "shall be green", "shall be fifteen")
+const PASSIVE_SHALL = /\b(?:shall|must)\s+(?:not\s+)?be\s+(?!(?:open|green|even|golden|wooden|red|rugged|between|then|ten|seven|eleven|\w+teen)\b)(\w+(?:ed|en)|built|cut|kept|laid|made|set|shown|sent|held|done)\b/gi;
+
+// An actor named after the passive, e.g. "approved by the Contracting Officer"
+const ACTOR = /\bby\s+(?:the|a|an|each|its)\s+\w/i;
+
+// Subject, passive verb and the rest of a one-clause requirement
+const PASSIVE_SENTENCE = /^([^,;:]{1,80}?)\s+shall\s+be\s+(\w+)\b(.*)$/s;
+
+const GENDERED_PRONOUN = /\b(?:he\/she|his\/her|s\/he|he|she|him|her|his|hers|himself|herself)\b/gi;
+const SECOND_PERSON = /\b(?:you|your|yours|yourself|yourselves)\b/gi;
+
+// "same" standing for a noun: at the end of a clause or before a verb or preposition ("submit same for approval");
+// "the same" before a preposition compares ("shall be the same for each system"), so only a verb or clause end counts
+const SAME_PRONOUN = /\bthe\s+same\b(?=\s*[.,;:)]|\s+(?:shall|will|must|is|are|has|have)\b)|(?<!\bthe\s+)\bsame\b(?=\s*[.,;:)]|\s+(?:shall|will|must|is|are|has|have|to|for|in|on|at|with|by|from|after|before|until|and|or)\b)/gi;
+
+// Leading paragraph number or list marker, e.g. "1.2.3 ", "a. ", "(1) "
+const LEAD_MARKER = /^\s*(?:PART\s+\d+|\d+(?:[.-]\d+)*\.?|[a-z]\.|\(\w{1,3}\))\s+/;
+
+const REQUIREMENT = /\b(?:shall|must)\b/i;
+
+/**
+ * Sentence text without its paragraph number, and without the heading title that follows a number
+ * on a line of its own (e.g. "3.1 INSTALLATION\nInstall piping…" gives "Install piping…")
+ */
+export function getSentenceBody(sentence: string): string {
+  const marker = sentence.match(LEAD_MARKER);
+  if (!marker) return sentence.trim();
+
+  const rest = sentence.substring(marker[0].length);
+  const lineEnd = rest.indexOf('\n');
+  return (lineEnd >= 0 && !/[.!?]\s*$/.test(rest.substring(0, lineEnd)) ? rest.substring(lineEnd + 1) : rest).trim();
+}
+
+/**
+ * Check whether a sentence is an imperative requirement (it opens with a verb, e.g. "Provide", "Do not")
+ */
+export function isImperative(sentence: string): boolean {
+  const firstWord = getSentenceBody(sentence).match(/^[A-Z][a-z]+/)?.[0];
+  return !!firstWord && IMPERATIVE_VERBS.has(firstWord);
+}
+
+/**
+ * Rewrite a one-clause passive requirement in the imperative, e.g.
+ * "All exposed piping shall be painted." → "Paint all exposed piping."
+ * Returns null when the sentence does not fit the pattern or the verb is not known
+ */
+export function suggestImperative(sentence: string): string | null {
+  const body = getSentenceBody(sentence).replace(/\s+/g, ' ');
+  const match = body.match(PASSIVE_SENTENCE);
+  if (!match || ACTOR.test(match[3])) return null;
+
+  const verb = PARTICIPLES[match[2].toLowerCase()];
+  if (!verb) return null;
+
+  const subject = match[1].replace(/^(\w+)/, word =>
+    CAPITALIZED_TERMS.has(word) || word === word.toUpperCase() ? word : word.toLowerCase());
+  return `${verb} ${subject}${match[3]}`;
+}
+
+/**
+ * Find passive requirements without an actor, gendered and second-person pronouns,
+ * and "same" used as a pronoun, in text order
+ */
+export function analyzeStyle(text: string): StyleFinding[] {
+  const findings: StyleFinding[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    const sentenceText = text.substring(sentence.startIndex, sentence.endIndex);
+    const find = (pattern: RegExp, type: StyleFindingType, message: (match: RegExpMatchArray) => string) => {
+      for (const match of sentenceText.matchAll(pattern)) {
+        findings.push({
+          type,
+          startIndex: sentence.startIndex + match.index!,
+          endIndex: sentence.startIndex + match.index! + match[0].length,
+          message: message(match),
+          suggestion: null
+        });
+      }
+    };
+
+    const passives = Array.from(sentenceText.matchAll(PASSIVE_SHALL))
+      .filter(match => !ACTOR.test(sentenceText.substring(match.index! + match[0].length)));
+    const suggestion = passives.length === 1 ? suggestImperative(sentenceText) : null;
+    for (const match of passives) {
+      findings.push({
+        type: 'passive',
+        startIndex: sentence.startIndex + match.index!,
+        endIndex: sentence.startIndex + match.index! + match[0].length,
+        message: `Passive "${match[0].replace(/\s+/g, ' ')}" does not say who acts`,
+        suggestion
+      });
+    }
+
+    find(GENDERED_PRONOUN, 'gendered-pronoun', match => `Gendered pronoun "${match[0]}"; refer to the party by name`);
+    find(SECOND_PERSON, 'second-person', match => `Second-person "${match[0]}"; use the imperative or name the party`);
+    find(SAME_PRONOUN, 'same', match => `"${match[0].replace(/\s+/g, ' ')}" used as a pronoun; name the item`);
+  }
+
+  return findings.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Count imperative and "shall" requirements per section, sections being top-level paragraphs
+ * (UFGS "1.2", UFC "2-1"); text before the first one counts as its own section if it has requirements
+ */
+export function getSectionMoods(text: string): SectionMood[] {
+  const headings = parseHeadings(text, detectNumberingScheme(text)).filter(heading => !heading.isPart && heading.levels.length === 1);
+  const sections: SectionMood[] = [
+    { number: '', title: '', startIndex: 0, endIndex: headings[0]?.startIndex ?? text.length, headingEndIndex: 0, imperative: 0, shall: 0, ratio: null },
+    ...headings.map((heading, i) => ({
+      number: heading.number,
+      title: heading.title,
+      startIndex: heading.startIndex,
+      endIndex: headings[i + 1]?.startIndex ?? text.length,
+      headingEndIndex: heading.endIndex,
+      imperative: 0,
+      shall: 0,
+      ratio: null
+    }))
+  ];
+
+  let section = 0;
+  for (const sentence of splitSentences(text)) {
+    while (section < sections.length - 1 && sentence.startIndex >= sections[section + 1].startIndex) section++;
+
+    const sentenceText = text.substring(sentence.startIndex, sentence.endIndex);
+    if (isImperative(sentenceText)) {
+      sections[section].imperative++;
+    } else if (REQUIREMENT.test(sentenceText)) {
+      sections[section].shall++;
+    }
+  }
+
+  return sections
+    .filter((mood, i) => i > 0 || mood.imperative + mood.shall > 0)
+    .map(mood => ({ ...mood, ratio: mood.imperative + mood.shall > 0 ? mood.imperative / (mood.imperative + mood.shall) : null }));
+}
+
+/**
+ * Check whether a section has enough requirements and too few of them imperative
+ */
+export function isLowImperativeRatio(mood: SectionMood): boolean {
+  return mood.ratio !== null && mood.imperative + mood.shall >= MIN_SECTION_REQUIREMENTS && mood.ratio < IMPERATIVE_RATIO_THRESHOLD;
+}
+
+function toFindings(findings: StyleFinding[]): RuleFinding[] {
+  return findings.map(({ startIndex, endIndex, message, suggestion }) => ({
+    startIndex,
+    endIndex,
+    message: suggestion ? `${message}\nRewrite: ${suggestion}` : message
+  }));
+}
+
+/**
+ * Rule for check 5.12: passive "shall be" with no actor
+ */
+export const passiveVoiceRule: Rule = {
+  id: 'passive-voice',
+  title: 'Passive voice',
+  reference: '5.12',
+  severity: 'warning',
+  run: (text) => toFindings(analyzeStyle(text).filter(finding => finding.type === 'passive'))
+};
+
+/**
+ * Rule for check 5.12: sections that mostly use "shall" where the imperative would do
+ */
+export const imperativeRatioRule: Rule = {
+  id: 'imperative-ratio',
+  title: 'Imperative mood',
+  reference: '5.12',
+  severity: 'info',
+  run: (text) => getSectionMoods(text)
+    .filter(mood => mood.number && isLowImperativeRatio(mood))
+    .map(mood => ({
+      startIndex: mood.startIndex,
+      endIndex: mood.headingEndIndex,
+      message: `${mood.imperative} of ${mood.imperative + mood.shall} requirements are imperative (${Math.round(mood.ratio! * 100)}%); rewrite "shall" sentences as commands`
+    }))
+};
+
+/**
+ * Rule for check 5.14: gendered and second-person pronouns, and "same" used as a pronoun
+ */
+export const pronounRule: Rule = {
+  id: 'pronoun',
+  title: 'Pronouns',
+  reference: '5.14',
+  severity: 'warning',
+  run: (text) => toFindings(analyzeStyle(text).filter(finding => finding.type !== 'passive'))
+};
+
+// Export types for consumers
+export type { StyleFindingType, StyleFinding, SectionMood };
@@ -0,0 +1,156 @@
+// Unit tests for the submittal register and submittals coordination check
+// Tests SUBMITTALS article parsing, paragraph references, SD tags in the text and CSV rows
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractSubmittalRegister,
+  findSubmittalArticle,
+  splitSections,
+  parseSubmittalItem,
+  toSubmittalCsvRows,
+  getSubmittalSpans
+} from '../submittals';
+
+const PAGES = [
+  [
+    'SECTION 09 90 00',
+    'PAINTS AND COATINGS',
+    'PART 1 GENERAL',
+    '1.3 SUBMITTALS',
+    'Government approval is required for submittals with a "G" or "S" classification.',
+    'SD-02 Shop Drawings',
+    'Piping Identification; G, DO',
+    'SD-03 Product Data',
+    'Coating; G',
+    'Sealant'
+  ].join('\n'),
+  [
+    'SECTION 09 90 00 Page 2',
+    'Primer for galvanized',
+    'surfaces',
+    'SD-07 Certificates',
+    'Applicator Qualifications',
+    '1.4 QUALITY ASSURANCE',
+    '1.4.1 Qualifications',
+    'Submit applicator qualifications before work starts.',
+    'PART 2 PRODUCTS',
+    '2.1 MATERIALS',
+    'Provide coating as specified. Submit samples (SD-04).',
+    '2.1.1 Piping',
+    'Mark pipes per piping identification requirements.'
+  ].join('\n')
+];
+
+describe('Submittals', () => {
+  describe('findSubmittalArticle', () => {
+    it('should span from the SUBMITTALS heading to the next article', () => {
+      const text = 'PART 1 GENERAL\n1.3 SUBMITTALS\nSD-03 Product Data\n1.4 DELIVERY\n';
+      const article = findSubmittalArticle(text);
+
+      expect(article?.number).toBe('1.3');
+      expect(text.substring(article!.start, article!.end)).toBe('1.3 SUBMITTALS\nSD-03 Product Data\n');
+    });
+
+    it('should return null without a SUBMITTALS article', () => {
+      expect(findSubmittalArticle('1.2 REFERENCES\nSubmittals are listed elsewhere.')).toBeNull();
+    });
+  });
+
+  describe('parseSubmittalItem', () => {
+    it('should split classification and reviewer', () => {
+      expect(parseSubmittalItem('Piping Identification; G, DO')).toEqual({
+        name: 'Piping Identification', classification: 'G', reviewer: 'DO'
+      });
+      expect(parseSubmittalItem('[Coating; G, [_____]]')).toEqual({ name: 'Coating', classification: 'G', reviewer: '' });
+      expect(parseSubmittalItem('Sealant')).toEqual({ name: 'Sealant', classification: '', reviewer: '' });
+    });
+  });
+
+  describe('extractSubmittalRegister', () => {
+    it('should list items with their category, approval, page and paragraph reference', () => {
+      const register = extractSubmittalRegister(PAGES);
+
+      expect(register.articles).toEqual([{ section: '09 90 00', number: '1.3' }]);
+      expect(register.items.map(item => [item.category, item.name, item.governmentApproval, item.page, item.paragraph]))
+        .toEqual([
+          ['SD-02', 'Piping Identification', true, 1, '2.1.1'],
+          ['SD-03', 'Coating', true, 1, '2.1'],
+          ['SD-03', 'Sealant', false, 1, null],
+          ['SD-03', 'Primer for galvanized surfaces', false, 2, null],
+          ['SD-07', 'Applicator Qualifications', false, 2, '1.4.1']
+        ]);
+      expect(register.items[0]).toMatchObject({ categoryTitle: 'Shop Drawings', reviewer: 'DO' });
+    });
+
+    it('should mark only "G" items for Government approval', () => {
+      const register = extractSubmittalRegister(['1.2 SUBMITTALS\nSD-03 Product Data\nRecycled Content; S\nCoating; G\n1.3 DELIVERY']);
+
+      expect(register.items.map(item => [item.name, item.classification, item.governmentApproval])).toEqual([
+        ['Recycled Content', 'S', false],
+        ['Coating', 'G', true]
+      ]);
+      expect(toSubmittalCsvRows(register)[1][5]).toBe('No');
+    });
+
+    it('should record SD tags in the text and whether their category is listed', () => {
+      const { tags } = extractSubmittalRegister(PAGES);
+      expect(tags.map(tag => [tag.category, tag.listed, tag.page])).toEqual([['SD-04', false, 2]]);
+    });
+
+    it('should check each section of a multi-section document against its own list and text', () => {
+      const pages = [
+        'SECTION 09 90 00\nPART 1 GENERAL\n1.2 SUBMITTALS\nSD-03 Product Data\nCoating\nPART 3 EXECUTION\n3.1 APPLICATION\nApply coating.\nEND OF SECTION 09 90 00',
+        'SECTION 22 00 00\nPART 1 GENERAL\n1.3 SUBMITTALS\nSD-07 Certificates\nWelder Qualifications\nCoating\n1.4 QUALITY ASSURANCE\nSubmit welder qualifications (SD-07).\nSD-03 data is not required.\nEND OF SECTION 22 00 00'
+      ];
+      const register = extractSubmittalRegister(pages);
+
+      expect(register.articles).toEqual([{ section: '09 90 00', number: '1.2' }, { section: '22 00 00', number: '1.3' }]);
+      expect(register.items.map(item => [item.section, item.category, item.name, item.paragraph])).toEqual([
+        ['09 90 00', 'SD-03', 'Coating', '3.1'],
+        ['22 00 00', 'SD-07', 'Welder Qualifications', '1.4'],
+        ['22 00 00', 'SD-07', 'Coating', null]
+      ]);
+      expect(register.tags.map(tag => [tag.section, tag.category, tag.listed])).toEqual([
+        ['22 00 00', 'SD-07', true],
+        ['22 00 00', 'SD-03', false]
+      ]);
+    });
+  });
+
+  describe('splitSections', () => {
+    it('should end sections at END OF SECTION and keep trailing text', () => {
+      const text = 'SECTION 01 33 00\nText.\nEND OF SECTION 01 33 00\nSECTION 09 90 00\nMore.';
+
+      expect(splitSections(text).map(section => [section.number, text.substring(section.start, section.end).trim()])).toEqual([
+        ['01 33 00', 'SECTION 01 33 00\nText.\nEND OF SECTION 01 33 00'],
+        ['09 90 00', 'SECTION 09 90 00\nMore.']
+      ]);
+      expect(splitSections('No sections.')).toEqual([{ number: null, start: 0, end: 12 }]);
+    });
+  });
+
+  describe('toSubmittalCsvRows', () => {
+    it('should export one row per item after the header', () => {
+      const rows = toSubmittalCsvRows(extractSubmittalRegister(PAGES));
+
+      expect(rows).toHaveLength(6);
+      expect(rows[0]).toEqual(['Section', 'SD', 'Description', 'Item', 'Classification', 'Government Approval', 'Reviewer', 'Paragraph', 'Page']);
+      expect(rows[1]).toEqual(['09 90 00', 'SD-02', 'Shop Drawings', 'Piping Identification', 'G', 'Yes', 'DO', '2.1.1', 1]);
+    });
+  });
+
+  describe('getSubmittalSpans', () => {
+    it('should highlight unreferenced list entries and unlisted tags', () => {
+      const spans = getSubmittalSpans(extractSubmittalRegister(PAGES));
+
+      expect(spans[1].map(span => [span.label, PAGES[0].substring(span.startIndex, span.endIndex)])).toEqual([
+        ['unreferenced', 'Sealant']
+      ]);
+      expect(spans[2].map(span => [span.label, PAGES[1].substring(span.startIndex, span.endIndex)])).toEqual([
+        ['unreferenced', 'Primer for galvanized\nsurfaces'],
+        ['unlisted', 'SD-04']
+      ]);
+      expect(spans[2][1].detail).toBe('Submittal not in the SUBMITTALS list (5.15)\nSD-04 Samples');
+    });
+  });
+});
@@ -0,0 +1,14 @@
+// Submittals module exports
+export {
+  extractSubmittalRegister,
+  findSubmittalArticle,
+  splitSections,
+  parseSubmittalItem,
+  toSubmittalCsvRows,
+  getSubmittalSpans,
+  submittalAnalyzer,
+  SUBMITTAL_KIND,
+  SUBMITTAL_LABELS,
+  SUBMITTAL_DESCRIPTIONS
+} from './submittals';
+export type { SubmittalLabel, SubmittalItem, SubmittalTag, SpecSection, SubmittalRegister } from './submittals';
@@ -0,0 +1,385 @@
+// Submittal register and submittals coordination check (writing standards 5.15)
+// UFGS Part 1 lists submittal items under SD-01 to SD-11 headings in its SUBMITTALS article; each
+// listed item must be referenced in the text of the section, and each SD tag in the text must be listed.
+// A document with several sections is checked section by section, split at END OF SECTION
+
+import { AnnotationSpan } from '../../types/viewport';
+import { DocumentAnalyzer } from '../analysis/analysis';
+import { joinPageTexts, splitRangeByPage, PageRange } from '../segmenter/segmenter';
+
+type SubmittalLabel = 'unreferenced' | 'unlisted';
+
+interface SubmittalItem {
+  section: string | null;           // UFGS section number, e.g. "09 90 00"
+  category: string;                 // Submittal description number, e.g. "SD-03"
+  categoryTitle: string;            // e.g. "Product Data"
+  name: string;
+  classification: string;           // "G" (Government approval), "S" (sustainability) or ''
+  reviewer: string;                 // Reviewer code after the classification, e.g. "DO"
+  governmentApproval: boolean;
+  page: number;                     // Page of the list entry
+  paragraph: string | null;         // Numbered paragraph of the first reference in the text
+  referencePage: number | null;
+  parts: PageRange[];               // List entry ranges, one per page covered
+}
+
+// SD tag in the text outside the SUBMITTALS article
+interface SubmittalTag {
+  section: string | null;
+  category: string;
+  listed: boolean;                  // The section's SUBMITTALS article lists items under this category
+  page: number;
+  parts: PageRange[];
+}
+
+// Entry of the SUBMITTALS article, with its range in the joined page text
+interface ListEntry {
+  category: string;
+  categoryTitle: string;
+  name: string;
+  classification: string;
+  reviewer: string;
+  start: number;
+  end: number;
+}
+
+// Range of one UFGS section in the joined page text
+interface SpecSection {
+  number: string | null;            // Section number from its header, e.g. "09 90 00"
+  start: number;
+  end: number;
+}
+
+interface SubmittalRegister {
+  articles: Array<{ section: string | null; number: string }>;   // SUBMITTALS articles, e.g. "1.3", in order
+  items: SubmittalItem[];
+  tags: SubmittalTag[];
+}
+
+// Annotation kind of submittal coordination findings
+export const SUBMITTAL_KIND = 'submittal';
+
+export const SUBMITTAL_LABELS: Array<{ label: SubmittalLabel; title: string; color: string }> = [
+  { label: 'unreferenced', title: 'Listed, not in text (5.15)', color: '#ad1457' },
+  { label: 'unlisted', title: 'In text, not listed (5.15)', color: '#f9a825' }
+];
+
+// Submittal descriptions defined in UFGS 01 33 00 SUBMITTAL PROCEDURES
+export const SUBMITTAL_DESCRIPTIONS: Record<string, string> = {
+  'SD-01': 'Preconstruction Submittals',
+  'SD-02': 'Shop Drawings',
+  'SD-03': 'Product Data',
+  'SD-04': 'Samples',
+  'SD-05': 'Design Data',
+  'SD-06': 'Test Reports',
+  'SD-07': 'Certificates',
+  'SD-08': "Manufacturer's Instructions",
+  'SD-09': "Manufacturer's Field Reports",
+  'SD-10': 'Operation and Maintenance Data',
+  'SD-11': 'Closeout Submittals'
+};
+
+// "1.3 SUBMITTALS" article heading
+const ARTICLE_HEADING = /^[ \t]*(\d+\.\d+)[ \t]+SUBMITTALS[ \t]*$/gm;
+
+// Line closing a UFGS section
+const SECTION_END = /^[ \t]*END[ \t]+OF[ \t]+SECTION\b.*$/gm;
+
+// Section number in the section heading or page headers, e.g. "SECTION 09 90 00"
+const SECTION_NUMBER = /\bSECTION[ \t]+(\d{2}[ \t]+\d{2}[ \t]+\d{2}(?:\.\d{2})?)\b/;
+
+// Heading that ends the article: the next uppercase article or part
+const ARTICLE_END = /^[ \t]*(?:\d+\.\d+[ \t]+[A-Z][A-Z0-9 ,.'&/()-]*|PART[ \t]+\d+\b.*)$/gm;
+
+// "SD-03 Product Data" category heading
+const CATEGORY_HEADING = /^\[?\s*(SD-\d{2})\b\s*(.*?)\s*\]?$/;
+
+// "Pumps; G, DO" item with its classification and reviewer
+const ITEM_CLASSIFICATION = /^(.+?)\s*;\s*([GS])\b\s*(?:,\s*(.*))?$/;
+
+// Page header and footer lines, e.g. "SECTION 09 90 00 Page 4" and "UFGS-09 90 00 (May 2023)"
+const PAGE_MARGIN_LINE = /^(?:SECTION\s+\d{2}\s+\d{2}\s+\d{2}\b.*|UFGS-\S+.*|Page\s+\d+.*)$/i;
+
+// Row of asterisks framing a UFGS note block
+const NOTE_FRAME = /^\*{10,}$/;
+
+// SD tag anywhere in the text
+const SD_TAG = /\bSD-\d{2}\b/g;
+
+// Numbered paragraph heading, e.g. "1.5.2 Detail Drawings"
+const PARAGRAPH_HEADING = /^[ \t]*(\d+(?:\.\d+)+)[ \t]+\S/gm;
+
+/**
+ * Extract the submittal register of a document and cross-check each section's list against its own text
+ */
+export function extractSubmittalRegister(pageTexts: string[]): SubmittalRegister {
+  const { text, pageStarts } = joinPageTexts(pageTexts);
+  const locate = (start: number, end: number) => splitRangeByPage(start, end, pageStarts, pageTexts);
+
+  const sections = splitSections(text).map(section => ({
+    section,
+    article: findSubmittalArticle(text, section.start, section.end)
+  }));
+
+  // The text outside the articles, with the articles blanked so offsets stay aligned
+  let body = '';
+  let bodyEnd = 0;
+  for (const { article } of sections) {
+    if (!article) continue;
+    body += text.substring(bodyEnd, article.start) + ' '.repeat(article.end - article.start);
+    bodyEnd = article.end;
+  }
+  body += text.substring(bodyEnd);
+  const headings = Array.from(body.matchAll(PARAGRAPH_HEADING), match => ({ index: match.index!, number: match[1] }));
+
+  const items: SubmittalItem[] = [];
+  const listedCategories = new Map<SpecSection, Set<string>>();
+  for (const { section, article } of sections) {
+    const listed = article ? parseSubmittalList(text, article.start, article.end) : [];
+    listedCategories.set(section, new Set(listed.map(entry => entry.category)));
+
+    for (const entry of listed) {
+      const parts = locate(entry.start, entry.end);
+      if (parts.length === 0) continue;
+
+      const reference = findReference(body, entry.name, section.start, section.end);
+      const referenceParts = reference === null ? [] : locate(reference, reference + 1);
+      items.push({
+        section: section.number,
+        category: entry.category,
+        categoryTitle: entry.categoryTitle,
+        name: entry.name,
+        classification: entry.classification,
+        reviewer: entry.reviewer,
+        governmentApproval: entry.classification === 'G',
+        page: parts[0].page,
+        paragraph: reference === null ? null : findParagraphAt(headings, reference),
+        referencePage: referenceParts[0]?.page ?? null,
+        parts
+      });
+    }
+  }
+
+  const tags: SubmittalTag[] = [];
+  for (const match of body.matchAll(SD_TAG)) {
+    const parts = locate(match.index!, match.index! + match[0].length);
+    const section = sections.find(({ section }) => match.index! < section.end)?.section;
+    if (parts.length === 0 || !section) continue;
+    tags.push({
+      section: section.number,
+      category: match[0],
+      listed: listedCategories.get(section)!.has(match[0]),
+      page: parts[0].page,
+      parts
+    });
+  }
+
+  const articles = sections.flatMap(({ section, article }) => article ? [{ section: section.number, number: article.number }] : []);
+  return { articles, items, tags };
+}
+
+/**
+ * Split text into UFGS sections: each ends with its END OF SECTION line, and text after the last one
+ * (or a document without any) forms a section of its own
+ */
+export function splitSections(text: string): SpecSection[] {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SECTION_END)) {
+    const end = match.index! + match[0].length;
+    ranges.push({ start, end });
+    start = end;
+  }
+  if (ranges.length === 0 || text.substring(start).trim()) {
+    ranges.push({ start, end: text.length });
+  }
+
+  return ranges.map(range => {
+    const number = text.substring(range.start, range.end).match(SECTION_NUMBER);
+    return { number: number ? number[1].replace(/\s+/g, ' ') : null, ...range };
+  });
+}
+
+/**
+ * Locate the SUBMITTALS article of a section: from its heading to the next article or part heading
+ */
+export function findSubmittalArticle(
+  text: string,
+  from: number = 0,
+  to: number = text.length
+): { number: string; start: number; end: number } | null {
+  ARTICLE_HEADING.lastIndex = from;
+  const heading = ARTICLE_HEADING.exec(text);
+  if (!heading || heading.index >= to) return null;
+
+  const start = heading.index;
+  ARTICLE_END.lastIndex = start + heading[0].length;
+  const next = ARTICLE_END.exec(text);
+  return { number: heading[1], start, end: next && next.index < to ? next.index : to };
+}
+
+/**
+ * Split a list entry into item name, classification and reviewer
+ * "Pumps; G, DO" has classification "G" and reviewer "DO"; unclassified items are for information only
+ */
+export function parseSubmittalItem(line: string): { name: string; classification: string; reviewer: string } {
+  const entry = line.trim().replace(/^\[\s*/, '').replace(/\s*\]$/, '');
+  const match = ITEM_CLASSIFICATION.exec(entry);
+  if (!match) return { name: entry, classification: '', reviewer: '' };
+
+  const reviewer = (match[3] || '').replace(/[[\]]/g, '').trim();
+  return { name: match[1].trim(), classification: match[2], reviewer: /^_+$/.test(reviewer) ? '' : reviewer };
+}
+
+/**
+ * Read the SD headings and their items from the article text, in list order
+ * Page header and footer lines and note blocks are skipped; a line starting in lowercase continues an item
+ */
+function parseSubmittalList(text: string, start: number, end: number): ListEntry[] {
+  const entries: ListEntry[] = [];
+  let category: { id: string; title: string } | null = null;
+  let inNote = false;
+  let lineStart = start;
+
+  while (lineStart < end) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 || newline > end ? end : newline;
+    const raw = text.substring(lineStart, lineEnd);
+    const line = raw.trim();
+    const lineOffset = lineStart + raw.indexOf(line);
+    lineStart = lineEnd + 1;
+
+    if (NOTE_FRAME.test(line)) {
+      inNote = !inNote;
+      continue;
+    }
+    if (inNote || !line || PAGE_MARGIN_LINE.test(line)) continue;
+
+    const heading = CATEGORY_HEADING.exec(line);
+    if (heading) {
+      category = { id: heading[1], title: heading[2] || SUBMITTAL_DESCRIPTIONS[heading[1]] || '' };
+      continue;
+    }
+    if (!category) continue;   // Article text before the first SD heading
+
+    const previous = entries[entries.length - 1];
+    if (/^\p{Ll}/u.test(line) && previous?.category === category.id) {
+      const continued = text.substring(previous.start, lineOffset + line.length).replace(/\s+/g, ' ');
+      Object.assign(previous, parseSubmittalItem(continued), { end: lineOffset + line.length });
+      continue;
+    }
+
+    const item = parseSubmittalItem(line.replace(/\s+/g, ' '));
+    if (!item.name || /^\[?_+\]?$/.test(item.name)) continue;
+
+    entries.push({
+      category: category.id,
+      categoryTitle: category.title,
+      ...item,
+      start: lineOffset,
+      end: lineOffset + line.length
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Offset of the first whole-word, case-insensitive occurrence of an item name within a range; null if there is none
+ */
+function findReference(body: string, name: string, from: number, to: number): number | null {
+  const words = name.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'giu');
+  pattern.lastIndex = from;
+  const match = pattern.exec(body);
+  return match && match.index + match[0].length <= to ? match.index : null;
+}
+
+/**
+ * Number of the last paragraph heading at or before an offset
+ */
+function findParagraphAt(headings: Array<{ index: number; number: string }>, index: number): string | null {
+  let paragraph: string | null = null;
+  for (const heading of headings) {
+    if (heading.index > index) break;
+    paragraph = heading.number;
+  }
+  return paragraph;
+}
+
+/**
+ * Register rows for CSV export, with a header row
+ */
+export function toSubmittalCsvRows(register: SubmittalRegister): Array<Array<string | number>> {
+  const rows: Array<Array<string | number>> = [
+    ['Section', 'SD', 'Description', 'Item', 'Classification', 'Government Approval', 'Reviewer', 'Paragraph', 'Page']
+  ];
+
+  for (const item of register.items) {
+    rows.push([
+      item.section || '',
+      item.category,
+      item.categoryTitle,
+      item.name,
+      item.classification,
+      item.governmentApproval ? 'Yes' : 'No',
+      item.reviewer,
+      item.paragraph || '',
+      item.page
+    ]);
+  }
+
+  return rows;
+}
+
+/**
+ * Coordination findings as annotation spans keyed by page: listed items without a reference in the
+ * text, and SD tags in the text whose category has no listed items
+ */
+export function getSubmittalSpans(register: SubmittalRegister): Record<number, AnnotationSpan[]> {
+  const spansByPage: Record<number, AnnotationSpan[]> = {};
+  const add = (parts: PageRange[], label: SubmittalLabel, detail: string) => {
+    for (const part of parts) {
+      (spansByPage[part.page] = spansByPage[part.page] || []).push({
+        startIndex: part.startIndex,
+        endIndex: part.endIndex,
+        kind: SUBMITTAL_KIND,
+        label,
+        detail
+      });
+    }
+  };
+
+  for (const item of register.items) {
+    if (item.referencePage !== null) continue;
+    add(item.parts, 'unreferenced', [
+      'Submittal not referenced in the text (5.15)',
+      `${item.category} ${item.categoryTitle}`.trim(),
+      item.name
+    ].join('\n'));
+  }
+
+  for (const tag of register.tags) {
+    if (tag.listed) continue;
+    add(tag.parts, 'unlisted', [
+      'Submittal not in the SUBMITTALS list (5.15)',
+      `${tag.category} ${SUBMITTAL_DESCRIPTIONS[tag.category] || ''}`.trim()
+    ].join('\n'));
+  }
+
+  return spansByPage;
+}
+
+/**
+ * Analyzer that highlights submittals listed in Part 1 but not referenced in the text, and vice versa
+ */
+export const submittalAnalyzer: DocumentAnalyzer = {
+  kind: SUBMITTAL_KIND,
+  labels: SUBMITTAL_LABELS,
+  analyzePage: (text) => getSubmittalSpans(extractSubmittalRegister([text]))[1] || [],
+  analyzeDocument: (pageTexts) => getSubmittalSpans(extractSubmittalRegister(pageTexts))
+};
+
+// Export types for consumers
+export type { SubmittalLabel, SubmittalItem, SubmittalTag, SpecSection, SubmittalRegister };
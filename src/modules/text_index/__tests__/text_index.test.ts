@@ -0,0 +1,98 @@
+// Unit tests for the document text index
+// Tests page text layout against the text layer, per-document caching and the indexing lifecycle
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildPageText, textIndex } from '../text_index';
+import { createTextMap } from '../../geometry/geometry';
+
+// PDF.js does not load under jsdom; extraction reads the fake documents' item lists instead
+vi.mock('../../../services/pdfService', () => ({
+  default: {
+    extractText: (pdfDoc: { items: Array<Array<{ str: string; hasEOL: boolean }>> }, page: number) =>
+      Promise.resolve(pdfDoc.items[page - 1])
+  }
+}));
+
+const PAGES = [
+  [{ str: 'Install ', hasEOL: false }, { str: 'piping', hasEOL: true }, { str: 'level.', hasEOL: false }],
+  [{ str: 'Test joints.', hasEOL: true }]
+];
+
+function createDocument(items = PAGES) {
+  return { numPages: items.length, items, getPage: () => Promise.reject(new Error('not rendered')) };
+}
+
+describe('Text index', () => {
+  describe('buildPageText', () => {
+    it('should join items back to back with a line break after line ends', () => {
+      expect(buildPageText(PAGES[0])).toBe('Install piping\nlevel.');
+      expect(buildPageText([])).toBe('');
+    });
+
+    it('should give the same text as the text layer', () => {
+      // Text layer shape: one span per item, <br> after items that end a line
+      const layer = document.createElement('div');
+      for (const item of PAGES[0]) {
+        const span = document.createElement('span');
+        span.textContent = item.str;
+        layer.appendChild(span);
+        if (item.hasEOL) layer.appendChild(document.createElement('br'));
+      }
+
+      expect(createTextMap(layer).text).toBe(buildPageText(PAGES[0]));
+    });
+  });
+
+  describe('build', () => {
+    it('should extract every page and cache the texts per document', async () => {
+      const pdfDoc = createDocument();
+
+      expect(await textIndex.build(pdfDoc)).toEqual(['Install piping\nlevel.', 'Test joints.\n']);
+      expect(textIndex.getProgress()).toEqual({ status: 'ready', indexedPages: 2, pageCount: 2 });
+      expect(textIndex.getCached(pdfDoc)).toBe(textIndex.getPageTexts());
+      expect(textIndex.begin(pdfDoc, 2)).toBe(false);
+    });
+
+    it('should stop when another document becomes current', async () => {
+      const first = createDocument();
+      const building = textIndex.build(first);
+      textIndex.begin({}, 1);
+
+      expect(await building).toEqual([]);
+      expect(textIndex.getCached(first)).toBeUndefined();
+    });
+  });
+
+  describe('begin/complete/fail', () => {
+    it('should report progress as pages are added and cache on completion', () => {
+      const key = {};
+      const progress: string[] = [];
+      const unsubscribe = textIndex.subscribe(p => progress.push(`${p.status} ${p.indexedPages}/${p.pageCount}`));
+
+      expect(textIndex.begin(key, 2)).toBe(true);
+      textIndex.addPage(key, 2, 'two');
+      textIndex.addPage(key, 1, 'one');
+      textIndex.complete(key);
+      unsubscribe();
+
+      expect(progress).toEqual(['indexing 0/2', 'indexing 1/2', 'indexing 2/2', 'ready 2/2']);
+      expect(textIndex.getPageText(2)).toBe('two');
+      expect(textIndex.getCached(key)).toEqual(['one', 'two']);
+    });
+
+    it('should ignore pages and results of a document that is no longer current', () => {
+      const stale = {};
+      const current = {};
+      textIndex.begin(stale, 1);
+      textIndex.begin(current, 1);
+
+      expect(textIndex.addPage(stale, 1, 'stale')).toBe(false);
+      textIndex.complete(stale);
+      expect(textIndex.getCached(stale)).toBeUndefined();
+
+      textIndex.fail(current);
+      expect(textIndex.getProgress().status).toBe('error');
+      expect(textIndex.isReady()).toBe(false);
+    });
+  });
+});
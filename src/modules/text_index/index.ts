@@ -0,0 +1,3 @@
+// Text index module exports
+export { textIndex, buildPageText } from './text_index';
+export type { IndexProgress, IndexStatus } from './text_index';
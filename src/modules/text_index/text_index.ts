@@ -0,0 +1,180 @@
+// Document-level text index
+// Extracts the text of every page once per document so searches can count matches across pages
+// without the page being mounted in the viewer
+
+import { TextItem } from '../../types/viewport';
+import pdfService, { PDFDocumentProxy } from '../../services/pdfService';
+
+type IndexStatus = 'idle' | 'indexing' | 'ready' | 'error';
+
+interface IndexProgress {
+  status: IndexStatus;
+  indexedPages: number;
+  pageCount: number;
+}
+
+/**
+ * Join text items into page text the same way the text layer lays them out:
+ * item strings back to back, with "\n" after items that end a line
+ * This must match createTextMap so index offsets line up with DOM measurement
+ */
+export function buildPageText(items: Array<Pick<TextItem, 'str' | 'hasEOL'>>): string {
+  let text = '';
+  for (const item of items) {
+    text += item.str;
+    if (item.hasEOL) {
+      text += '\n';
+    }
+  }
+  return text;
+}
+
+class DocumentTextIndex {
+  // Page texts per document key (File or document), cached so a document is only extracted once
+  private cache = new WeakMap<object, string[]>();
+  private currentKey: object | null = null;
+  private pageTexts: string[] = [];
+  private progress: IndexProgress = { status: 'idle', indexedPages: 0, pageCount: 0 };
+  private listeners: Array<(progress: IndexProgress) => void> = [];
+
+  /**
+   * Extract the index on the main thread (used when the search worker is unavailable)
+   * Resolves with the page texts once every page has been extracted
+   */
+  async build(pdfDoc: PDFDocumentProxy, key: object = pdfDoc): Promise<string[]> {
+    if (!this.begin(key, pdfDoc.numPages)) {
+      return this.pageTexts;
+    }
+
+    try {
+      for (let page = 1; page <= pdfDoc.numPages; page++) {
+        const items = await pdfService.extractText(pdfDoc, page);
+        if (!this.addPage(key, page, buildPageText(items))) {
+          return []; // Another document was opened meanwhile
+        }
+      }
+    } catch (error) {
+      this.fail(key);
+      throw error;
+    }
+
+    this.complete(key);
+    return this.pageTexts;
+  }
+
+  /**
+   * Make a document current and start filling its index
+   * Returns false when the document is already cached (the index is ready immediately)
+   */
+  begin(key: object, pageCount: number): boolean {
+    this.currentKey = key;
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.pageTexts = cached;
+      this.setProgress({ status: 'ready', indexedPages: cached.length, pageCount: cached.length });
+      return false;
+    }
+
+    this.pageTexts = [];
+    this.setProgress({ status: 'indexing', indexedPages: 0, pageCount });
+    return true;
+  }
+
+  /**
+   * Add an extracted page (1-based) to the index of a document
+   * Returns false if the document is no longer current
+   */
+  addPage(key: object, page: number, text: string): boolean {
+    if (key !== this.currentKey) return false;
+
+    this.pageTexts[page - 1] = text;
+    this.setProgress({ ...this.progress, indexedPages: this.progress.indexedPages + 1 });
+    return true;
+  }
+
+  /**
+   * Mark a document's index complete and cache it
+   */
+  complete(key: object): void {
+    if (key !== this.currentKey) return;
+
+    this.cache.set(key, this.pageTexts);
+    this.setProgress({ status: 'ready', indexedPages: this.pageTexts.length, pageCount: this.pageTexts.length });
+  }
+
+  /**
+   * Mark a document's indexing as failed
+   */
+  fail(key: object): void {
+    if (key !== this.currentKey) return;
+    this.setProgress({ ...this.progress, status: 'error' });
+  }
+
+  /**
+   * Get the cached page texts of a document, if it was fully indexed before
+   */
+  getCached(key: object): string[] | undefined {
+    return this.cache.get(key);
+  }
+
+  /**
+   * Get the text of a page (1-based), or undefined if it has not been indexed
+   */
+  getPageText(page: number): string | undefined {
+    return this.pageTexts[page - 1];
+  }
+
+  /**
+   * Get all indexed page texts in page order
+   */
+  getPageTexts(): string[] {
+    return this.pageTexts;
+  }
+
+  /**
+   * Check whether the current document is fully indexed
+   */
+  isReady(): boolean {
+    return this.progress.status === 'ready';
+  }
+
+  /**
+   * Get the indexing progress of the current document
+   */
+  getProgress(): IndexProgress {
+    return { ...this.progress };
+  }
+
+  /**
+   * Subscribe to indexing progress changes
+   */
+  subscribe(listener: (progress: IndexProgress) => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private setProgress(progress: IndexProgress): void {
+    this.progress = progress;
+    const snapshot = this.getProgress();
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('Text index listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const textIndex = new DocumentTextIndex();
+
+// Export types for consumers
+export type { IndexProgress, IndexStatus };
@@ -1,2 +1,3 @@
 // Tokenizer module exports
-export { tokenize, findTokenAtIndex, getTokenRangeText, normalizeText } from './tokenizer';
+export { tokenize, findTokenAtIndex, getTokenRangeText, normalizeText, normalizeWithOffsets } from './tokenizer';
+export type { NormalizedText, NormalizeOptions } from './tokenizer';
@@ -74,3 +74,72 @@ export function normalizeText(text: string): string {
     .toLowerCase()      // Case insensitive
     .trim();           // Remove leading/trailing whitespace
 }
+
+/**
+ * Text normalized for matching, with a mapping back to the original text
+ * starts[i]/ends[i] give the original character range that produced normalized character i
+ */
+export interface NormalizedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+export interface NormalizeOptions {
+  caseSensitive: boolean;
+  diacriticInsensitive: boolean;
+  collapseWhitespace?: boolean;   // fold runs of spaces and line breaks into one space
+}
+
+/**
+ * Normalize text character by character while recording original offsets
+ * Unlike normalizeText, this never trims and keeps every match mappable to source positions
+ */
+export function normalizeWithOffsets(text: string, options: NormalizeOptions): NormalizedText {
+  let normalized = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  for (let i = 0; i < text.length; ) {
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    const isSpace = options.collapseWhitespace === true && /\s/.test(char);
+    let folded = isSpace ? ' ' : foldCharacter(char, options);
+
+    // Subsequent whitespace in a run is absorbed by the first space
+    if (isSpace && normalized.endsWith(' ') && ends[ends.length - 1] === i) {
+      folded = '';
+    }
+
+    for (let k = 0; k < folded.length; k++) {
+      starts.push(i);
+      ends.push(i + char.length);
+    }
+
+    // Characters folded away (e.g. combining accents) belong to the preceding character
+    if (folded.length === 0 && ends.length > 0) {
+      ends[ends.length - 1] = i + char.length;
+    }
+
+    normalized += folded;
+    i += char.length;
+  }
+
+  return { text: normalized, starts, ends };
+}
+
+/**
+ * Fold a single character: Unicode compatibility form, optional accent stripping and case folding
+ */
+function foldCharacter(char: string, options: NormalizeOptions): string {
+  let folded = char.normalize('NFKC');
+
+  if (options.diacriticInsensitive) {
+    folded = folded.normalize('NFD').replace(/\p{M}/gu, '');
+  }
+
+  if (!options.caseSensitive) {
+    folded = folded.toLowerCase();
+  }
+
+  return folded;
+}
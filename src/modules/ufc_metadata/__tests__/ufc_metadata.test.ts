@@ -0,0 +1,111 @@
+// Unit tests for UFC publication metadata
+// Tests metadata parsing, successor lookup, document designation detection and cited UFC warnings
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseUfcMetadata,
+  UfcCatalog,
+  detectDocumentDesignation,
+  findUfcCitations,
+  getUfcCitationLabel,
+  createUfcAnalyzer
+} from '../ufc_metadata';
+
+const METADATA = [
+  { ufc_full_name: 'UFC Complete', ufc_number: null, ufc_prefix: null, ufc_title: 'UFC Complete', status: null },
+  {
+    ufc_full_name: 'UFC 3-201-01 Civil Engineering, with Change 3',
+    ufc_number: '3-201-01',
+    ufc_prefix: 'UFC',
+    ufc_title: 'Civil Engineering, with Change 3',
+    pages: '101',
+    status: 'Active',
+    publish_date: '04/01/2018',
+    'archived / rescinded date': null,
+    replaced_by: null,
+    download_link: 'https://www.wbdg.org/FFC/DOD/UFC/ufc_3_201_01_2018_c3.pdf',
+    metadata_link: 'https://www.wbdg.org/dod/ufc/ufc-3-201-01'
+  },
+  { ufc_number: '3-210-06A', ufc_prefix: 'UFC', ufc_title: 'Site Planning', status: 'Archive(s)', publish_date: '01/16/2004', replaced_by: 'Replaced by 3-210-10' },
+  { ufc_number: '3-210-10', ufc_prefix: 'UFC', ufc_title: 'Low Impact Development', status: 'Archive(s)', publish_date: '10/25/2004', replaced_by: 'Replaced by UFC 3-201-01' },
+  { ufc_number: '1-300-05A', ufc_prefix: 'UFC', ufc_title: 'Installation Support', status: 'Inactive', publish_date: '01/16/2004', replaced_by: null },
+  { ufc_number: '3-260-01', ufc_prefix: 'UFC', ufc_title: 'Airfield and Heliport Planning and Design, with Change 1', status: 'Active', publish_date: '02/04/2019' },
+  { ufc_number: '3-260-01', ufc_prefix: 'UFC', ufc_title: 'Airfield and Heliport Planning and Design', status: 'Archive(s)', publish_date: '11/01/2001', replaced_by: 'Replaced by UFC 3-260-01' },
+  { ufc_full_name: 'FC 4-722-01N Navy and Marine Corps Dining Facilities, Replaced by UFC 4-722-01 Design: Dining Facilities', ufc_number: null, ufc_prefix: null, ufc_title: 'Navy and Marine Corps Dining Facilities', status: 'Archive(s)', replaced_by: null }
+];
+
+const records = parseUfcMetadata(METADATA);
+const catalog = new UfcCatalog(records);
+
+describe('UFC metadata', () => {
+  describe('parseUfcMetadata', () => {
+    it('should read numbered entries and skip compilations', () => {
+      expect(records).toHaveLength(7);
+      expect(records[0]).toEqual({
+        designation: 'UFC 3-201-01',
+        prefix: 'UFC',
+        number: '3-201-01',
+        title: 'Civil Engineering, with Change 3',
+        status: 'active',
+        publishDate: '04/01/2018',
+        retiredDate: null,
+        replacedBy: null,
+        pages: 101,
+        downloadLink: 'https://www.wbdg.org/FFC/DOD/UFC/ufc_3_201_01_2018_c3.pdf',
+        metadataLink: 'https://www.wbdg.org/dod/ufc/ufc-3-201-01'
+      });
+    });
+
+    it('should take designation and successor from the full name when fields are empty', () => {
+      expect(records[6]).toMatchObject({ designation: 'FC 4-722-01N', status: 'archived', replacedBy: 'UFC 4-722-01' });
+      expect(records[1].replacedBy).toBe('UFC 3-210-10');
+    });
+  });
+
+  describe('UfcCatalog', () => {
+    it('should prefer the active record of a designation', () => {
+      expect(catalog.getRecords('UFC 3-260-01')).toHaveLength(2);
+      expect(catalog.lookup('ufc  3-260-01')?.status).toBe('active');
+    });
+
+    it('should follow the replaced-by chain to the current successor', () => {
+      expect(catalog.getSuccessor('UFC 3-210-06A')).toBe('UFC 3-201-01');
+      expect(catalog.getSuccessor('UFC 3-260-01')).toBeNull();
+      expect(catalog.getSuccessor('UFC 1-300-05A')).toBeNull();
+    });
+  });
+
+  describe('detectDocumentDesignation', () => {
+    it('should pick the designation repeated in running headers over ones cited in the body', () => {
+      const pages = [
+        'UNIFIED FACILITIES CRITERIA (UFC)\nCIVIL ENGINEERING\nUFC 3-201-01',
+        'UFC 3-201-01\n1 April 2018\nThis UFC supersedes UFC 3-210-10.',
+        'UFC 3-201-01\n1 April 2018\nSee UFC 3-260-01 and UFC 3-260-01.'
+      ];
+      expect(detectDocumentDesignation(pages)).toBe('UFC 3-201-01');
+      expect(detectDocumentDesignation(['No designation here'])).toBeNull();
+    });
+  });
+
+  describe('cited UFC warnings', () => {
+    it('should label replaced, archived and rescinded citations', () => {
+      const text = 'Per UFC 3-210-06A, UFC 1-300-05A, FC 4-722-01N, UFC 3-260-01 and UFC 9-999-99.';
+      expect(findUfcCitations(text, catalog).map(citation => [citation.designation, getUfcCitationLabel(citation)])).toEqual([
+        ['UFC 3-210-06A', 'replaced'],
+        ['UFC 1-300-05A', 'rescinded'],
+        ['FC 4-722-01N', 'replaced'],
+        ['UFC 3-260-01', null],
+        ['UFC 9-999-99', null]
+      ]);
+    });
+
+    it('should name the successor and skip the document itself', () => {
+      const analyzer = createUfcAnalyzer(catalog, 'UFC 1-300-05A');
+      const spans = analyzer.analyzePage('UFC 1-300-05A\nComply with UFC 3-210-10.', 2);
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0]).toMatchObject({ kind: 'ufc', label: 'replaced' });
+      expect(spans[0].detail).toBe('UFC 3-210-10: Low Impact Development\nReplaced by UFC 3-201-01');
+    });
+  });
+});
@@ -0,0 +1,14 @@
+// UFC metadata module exports
+export {
+  parseUfcMetadata,
+  UfcCatalog,
+  findUfcDesignations,
+  detectDocumentDesignation,
+  findUfcCitations,
+  getUfcCitationLabel,
+  formatUfcCitationDetail,
+  createUfcAnalyzer,
+  UFC_KIND,
+  UFC_LABELS
+} from './ufc_metadata';
+export type { UfcStatus, UfcRecord, UfcCitationLabel, UfcCitation } from './ufc_metadata';
@@ -0,0 +1,293 @@
+// UFC publication metadata from ufc_published_metadata.json (WBDG listing)
+// Detects which UFC an open document is from its title page and running headers, and checks
+// UFC numbers cited in the body against their publication status and successors
+
+import { AnnotationSpan } from '../../types/viewport';
+import { DocumentAnalyzer } from '../analysis/analysis';
+
+type UfcStatus = 'active' | 'inactive' | 'archived' | 'reference' | 'unknown';
+
+interface UfcRecord {
+  designation: string;          // "UFC 3-101-01", "FC 4-171-06N"
+  prefix: string;               // "UFC" or "FC"
+  number: string;               // "3-101-01"
+  title: string;
+  status: UfcStatus;
+  publishDate: string | null;   // As listed, MM/DD/YYYY
+  retiredDate: string | null;   // Archived or rescinded date
+  replacedBy: string | null;    // Successor designation, e.g. "UFC 3-201-01"
+  pages: number | null;
+  downloadLink: string | null;
+  metadataLink: string | null;
+}
+
+// Status of a cited UFC that deserves a warning; the annotation label
+type UfcCitationLabel = 'replaced' | 'archived' | 'rescinded';
+
+interface UfcCitation {
+  startIndex: number;
+  endIndex: number;
+  designation: string;
+  record: UfcRecord | null;     // Current record for the designation, null when not listed
+  successor: string | null;     // Last designation in the replaced-by chain
+}
+
+// Annotation kind of cited UFCs that are no longer current
+export const UFC_KIND = 'ufc';
+
+export const UFC_LABELS: Array<{ label: UfcCitationLabel; title: string; color: string }> = [
+  { label: 'replaced', title: 'Replaced by a newer UFC', color: '#ad1457' },
+  { label: 'archived', title: 'Archived', color: '#6d4c41' },
+  { label: 'rescinded', title: 'Rescinded (inactive)', color: '#b71c1c' }
+];
+
+// "UFC 3-101-01", "UFC 4-010-01N", "FC 4-171-06N", "UFC 4-721-11.1"
+const UFC_PATTERN = /(?<![\w-])(U?FC)\s+(\d-\d{3}-\d{2}[A-Z]{0,2}(?:\.\d+)?)(?![\w-])/g;
+
+// Raw WBDG statuses
+const STATUS_NAMES: Record<string, UfcStatus> = {
+  'active': 'active',
+  'inactive': 'inactive',
+  'archive(s)': 'archived',
+  'archive': 'archived',
+  'archived': 'archived',
+  'reference': 'reference'
+};
+
+// Characters at the top of a page text treated as its running header
+const HEADER_LENGTH = 200;
+
+// Longest replaced-by chain followed when naming a successor
+const MAX_SUCCESSORS = 10;
+
+/**
+ * Build UFC records from the parsed metadata JSON array
+ * Entries without a UFC or FC number (e.g. "UFC Complete") are skipped
+ */
+export function parseUfcMetadata(data: unknown): UfcRecord[] {
+  if (!Array.isArray(data)) return [];
+
+  const records: UfcRecord[] = [];
+
+  for (const item of data as Array<Record<string, unknown>>) {
+    if (!item || typeof item !== 'object') continue;
+
+    const fullName = asString(item['ufc_full_name']) || '';
+    const nameMatch = fullName.match(/^(U?FC)\s+(\S+)/);
+    const prefix = asString(item['ufc_prefix']) || nameMatch?.[1] || '';
+    const number = asString(item['ufc_number']) || nameMatch?.[2] || '';
+    if (!prefix || !/^\d-\d{3}-\d{2}/.test(number)) continue;
+
+    const pages = Number(asString(item['pages']));
+
+    records.push({
+      designation: `${prefix} ${number}`,
+      prefix,
+      number,
+      title: asString(item['ufc_title']) || fullName,
+      status: STATUS_NAMES[(asString(item['status']) || '').toLowerCase()] || 'unknown',
+      publishDate: asString(item['publish_date']),
+      retiredDate: asString(item['archived / rescinded date']),
+      replacedBy: parseReplacedBy(asString(item['replaced_by']) || fullName, prefix),
+      pages: Number.isFinite(pages) && pages > 0 ? pages : null,
+      downloadLink: asString(item['download_link']),
+      metadataLink: asString(item['metadata_link'])
+    });
+  }
+
+  return records;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Successor from "Replaced by UFC 3-201-01" or "Replaced by 3-201-01" (same prefix assumed)
+ */
+function parseReplacedBy(text: string, prefix: string): string | null {
+  const match = text.match(/Replaced by\s+(?:(U?FC)\s+)?(\d-\d{3}-\d{2}[A-Z]{0,2}(?:\.\d+)?)/i);
+  return match ? `${match[1] ? match[1].toUpperCase() : prefix} ${match[2]}` : null;
+}
+
+/**
+ * Lookup of UFC records by designation
+ * A designation can have several records (the active edition and archived ones)
+ */
+export class UfcCatalog {
+  private byDesignation = new Map<string, UfcRecord[]>();
+
+  constructor(records: UfcRecord[] = []) {
+    for (const record of records) {
+      const key = normalizeDesignation(record.designation);
+      this.byDesignation.set(key, [...(this.byDesignation.get(key) || []), record]);
+    }
+  }
+
+  /**
+   * Every record listed for a designation
+   */
+  getRecords(designation: string): UfcRecord[] {
+    return this.byDesignation.get(normalizeDesignation(designation)) || [];
+  }
+
+  /**
+   * The record that describes a designation today: the active one, else the most recently published
+   */
+  lookup(designation: string): UfcRecord | null {
+    const records = this.getRecords(designation);
+    if (records.length === 0) return null;
+
+    return records.find(record => record.status === 'active')
+      || [...records].sort((a, b) => parseDate(b.publishDate) - parseDate(a.publishDate))[0];
+  }
+
+  /**
+   * Follow the replaced-by chain of a designation to its current successor, or null if not replaced
+   */
+  getSuccessor(designation: string): string | null {
+    let successor: string | null = null;
+    let current = this.lookup(designation);
+    const seen = new Set([normalizeDesignation(designation)]);
+
+    for (let i = 0; i < MAX_SUCCESSORS && current && current.status !== 'active' && current.replacedBy; i++) {
+      const next = normalizeDesignation(current.replacedBy);
+      if (seen.has(next)) break;
+      seen.add(next);
+
+      successor = current.replacedBy;
+      current = this.lookup(next);
+    }
+
+    return successor;
+  }
+
+  get size(): number {
+    return this.byDesignation.size;
+  }
+}
+
+function normalizeDesignation(designation: string): string {
+  return designation.toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+function parseDate(date: string | null): number {
+  const match = date?.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return match ? Date.UTC(Number(match[3]), Number(match[1]) - 1, Number(match[2])) : 0;
+}
+
+/**
+ * Find UFC and FC designations cited in page text
+ */
+export function findUfcDesignations(text: string): Array<{ startIndex: number; endIndex: number; designation: string }> {
+  const designations: Array<{ startIndex: number; endIndex: number; designation: string }> = [];
+  UFC_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = UFC_PATTERN.exec(text)) !== null) {
+    designations.push({
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      designation: `${match[1]} ${match[2]}`
+    });
+  }
+
+  return designations;
+}
+
+/**
+ * Detect the UFC a document is, from the designation on its title page and in its running headers
+ * Each page whose header carries a designation votes for it; the title page breaks ties
+ */
+export function detectDocumentDesignation(pageTexts: string[]): string | null {
+  const votes = new Map<string, number>();
+
+  pageTexts.forEach((text, i) => {
+    const region = i === 0 ? text : text.substring(0, HEADER_LENGTH);
+    const onPage = new Set(findUfcDesignations(region).map(found => found.designation));
+    onPage.forEach(designation => {
+      votes.set(designation, (votes.get(designation) || 0) + (i === 0 ? 1.5 : 1));
+    });
+  });
+
+  let best: string | null = null;
+  let bestVotes = 0;
+  votes.forEach((count, designation) => {
+    if (count > bestVotes) {
+      best = designation;
+      bestVotes = count;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Resolve UFCs cited in page text against the catalog
+ */
+export function findUfcCitations(text: string, catalog: UfcCatalog): UfcCitation[] {
+  return findUfcDesignations(text).map(found => ({
+    ...found,
+    record: catalog.lookup(found.designation),
+    successor: catalog.getSuccessor(found.designation)
+  }));
+}
+
+/**
+ * Warning label of a cited UFC, or null when it is current or not listed
+ */
+export function getUfcCitationLabel(citation: UfcCitation): UfcCitationLabel | null {
+  const { record, successor } = citation;
+  if (!record || record.status === 'active' || record.status === 'reference') return null;
+  if (successor) return 'replaced';
+  if (record.status === 'archived') return 'archived';
+  if (record.status === 'inactive') return 'rescinded';
+  return null;
+}
+
+/**
+ * Tooltip text for a cited UFC that is no longer current
+ */
+export function formatUfcCitationDetail(citation: UfcCitation): string {
+  const { record, successor } = citation;
+  const label = getUfcCitationLabel(citation);
+  return [
+    record ? `${citation.designation}: ${record.title}` : citation.designation,
+    label === 'replaced' && `Replaced by ${successor}`,
+    label === 'archived' && 'Archived',
+    label === 'rescinded' && 'Rescinded (inactive)',
+    record?.retiredDate && `Since ${record.retiredDate}`
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Analyzer that flags cited UFCs that are archived, rescinded or replaced
+ * The document's own designation (running headers, title page) is skipped
+ */
+export function createUfcAnalyzer(catalog: UfcCatalog, documentDesignation: string | null = null): DocumentAnalyzer {
+  const own = documentDesignation ? normalizeDesignation(documentDesignation) : null;
+
+  return {
+    kind: UFC_KIND,
+    labels: UFC_LABELS,
+    analyzePage: (text): AnnotationSpan[] => {
+      const spans: AnnotationSpan[] = [];
+      for (const citation of findUfcCitations(text, catalog)) {
+        const label = getUfcCitationLabel(citation);
+        if (!label || normalizeDesignation(citation.designation) === own) continue;
+
+        spans.push({
+          startIndex: citation.startIndex,
+          endIndex: citation.endIndex,
+          kind: UFC_KIND,
+          label,
+          detail: formatUfcCitationDetail(citation)
+        });
+      }
+      return spans;
+    }
+  };
+}
+
+// Export types for consumers
+export type { UfcStatus, UfcRecord, UfcCitationLabel, UfcCitation };
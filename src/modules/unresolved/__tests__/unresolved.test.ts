@@ -0,0 +1,105 @@
+// Unit tests for unresolved option brackets and designer notes
+// Tests bracket pairing across lines and pages, note blocks and per-page annotation spans
+
+import { describe, it, expect } from 'vitest';
+import { findUnresolvedItems, getUnresolvedSpans, unresolvedAnalyzer } from '../unresolved';
+
+function summarize(pageTexts: string[]): Array<[string, string, number, number]> {
+  return findUnresolvedItems(pageTexts).map(item => [item.label, item.text, item.startPage, item.endPage]);
+}
+
+describe('Unresolved items', () => {
+  describe('brackets', () => {
+    it('should pair outermost brackets, including nested options and line breaks', () => {
+      expect(summarize(['Provide [ 25 ] [ [50] [75] mm\n] conduit.'])).toEqual([
+        ['bracket', '[ 25 ]', 1, 1],
+        ['bracket', '[ [50] [75] mm ]', 1, 1]
+      ]);
+    });
+
+    it('should follow a bracket onto the next page and split it by page', () => {
+      const pages = ['Paint [ two coats', 'of epoxy ] on steel.'];
+      const [item] = findUnresolvedItems(pages);
+
+      expect(item).toMatchObject({ label: 'bracket', text: '[ two coats of epoxy ]', startPage: 1, endPage: 2 });
+      expect(item.parts).toEqual([
+        { page: 1, startIndex: 6, endIndex: 17 },
+        { page: 2, startIndex: 0, endIndex: 10 }
+      ]);
+    });
+
+    it('should flag brackets without a partner', () => {
+      expect(summarize(['Stray ] and [ open'])).toEqual([
+        ['unmatched', ']', 1, 1],
+        ['unmatched', '[', 1, 1]
+      ]);
+    });
+
+    it('should keep pairing brackets after an unclosed one', () => {
+      expect(summarize(['Slope 1:[ 2 typo here.', 'Provide [ 25 ] mm conduit [ and ] boxes.'])).toEqual([
+        ['unmatched', '[', 1, 1],
+        ['bracket', '[ 25 ]', 2, 2],
+        ['bracket', '[ and ]', 2, 2]
+      ]);
+    });
+  });
+
+  describe('designer notes', () => {
+    it('should find asterisk-framed note blocks across pages', () => {
+      const pages = [
+        '1.1 SUMMARY\n**************************************************************************\nNOTE: Delete this paragraph',
+        'when not required.\n**************************************************************************\n1.2 SUBMITTALS'
+      ];
+      expect(summarize(pages)).toEqual([['designer-note', 'NOTE: Delete this paragraph when not required.', 1, 2]]);
+    });
+
+    it('should not let an unpaired frame row shift the pairs after it', () => {
+      const frame = '*'.repeat(40);
+      const text = [
+        frame, 'Decorative rule above the summary.',
+        frame, 'NOTE: Choose one option.', frame,
+        'Provide galvanized steel.',
+        frame, 'NOTE: Delete when not required.', frame
+      ].join('\n');
+
+      expect(summarize([text])).toEqual([
+        ['designer-note', 'NOTE: Choose one option.', 1, 1],
+        ['designer-note', 'NOTE: Delete when not required.', 1, 1]
+      ]);
+    });
+
+    it('should run an unframed NOTE TO DESIGNER to the next blank line', () => {
+      expect(summarize(['NOTE TO DESIGNER: choose one\nof the options.\n\nThe Contractor shall comply.'])).toEqual([
+        ['designer-note', 'NOTE TO DESIGNER: choose one of the options.', 1, 1]
+      ]);
+    });
+
+    it('should end a note without blank lines at the next heading or the page end', () => {
+      const pages = [
+        '1.1 SUMMARY\nNOTE TO DESIGNER: edit\nthis paragraph.\n1.2 SUBMITTALS\nSubmit data.\nNOTE TO DESIGNER: verify.',
+        'PART 2 PRODUCTS\n2.1 PIPE\nProvide steel pipe.'
+      ];
+
+      expect(summarize(pages)).toEqual([
+        ['designer-note', 'NOTE TO DESIGNER: edit this paragraph.', 1, 1],
+        ['designer-note', 'NOTE TO DESIGNER: verify.', 1, 1]
+      ]);
+    });
+
+    it('should cap the length of a note without an end', () => {
+      const [item] = findUnresolvedItems([`NOTE TO DESIGNER: ${'keep going '.repeat(200)}`]);
+
+      expect(item.parts[0].endIndex).toBe(800);
+    });
+  });
+
+  describe('unresolvedAnalyzer', () => {
+    it('should give each page its part of a spanning item with a shared detail', () => {
+      const spans = unresolvedAnalyzer.analyzeDocument!(['Paint [ two coats', 'of epoxy ].']);
+
+      expect(spans[1]).toEqual([expect.objectContaining({ startIndex: 6, endIndex: 17, kind: 'unresolved', label: 'bracket' })]);
+      expect(spans[2][0].detail).toBe('Unresolved [ option ] (5.16)\n[ two coats of epoxy ]\nPages 1–2');
+      expect(getUnresolvedSpans([])).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,10 @@
+// Unresolved items module exports
+export {
+  findUnresolvedItems,
+  formatUnresolvedDetail,
+  getUnresolvedSpans,
+  unresolvedAnalyzer,
+  UNRESOLVED_KIND,
+  UNRESOLVED_LABELS
+} from './unresolved';
+export type { UnresolvedLabel, UnresolvedItem } from './unresolved';
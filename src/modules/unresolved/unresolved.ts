@@ -0,0 +1,191 @@
+// Unresolved option brackets and designer notes (writing standards checks 5.16 and 5.8)
+// Final project specs must not keep "[ option ]" brackets or "NOTE TO DESIGNER" blocks. Items are
+// found in the text stream of the whole document, so a bracket or note may span lines and pages
+
+import { AnnotationSpan } from '../../types/viewport';
+import { DocumentAnalyzer } from '../analysis/analysis';
+import { joinPageTexts, splitRangeByPage, PageRange } from '../segmenter/segmenter';
+
+type UnresolvedLabel = 'bracket' | 'designer-note' | 'unmatched';
+
+interface UnresolvedItem {
+  label: UnresolvedLabel;
+  text: string;
+  startPage: number;
+  endPage: number;
+  parts: PageRange[];   // One range per page covered
+}
+
+// Annotation kind of unresolved items
+export const UNRESOLVED_KIND = 'unresolved';
+
+export const UNRESOLVED_LABELS: Array<{ label: UnresolvedLabel; title: string; color: string }> = [
+  { label: 'bracket', title: 'Unresolved [ option ] (5.16)', color: '#00838f' },
+  { label: 'designer-note', title: 'Note to designer (5.8)', color: '#5d4037' },
+  { label: 'unmatched', title: 'Unmatched bracket', color: '#e53935' }
+];
+
+// Row of asterisks framing a UFGS note block
+const NOTE_FRAME = /^[ \t]*\*{10,}[ \t]*$/gm;
+
+// Explicit designer note; without a frame it runs to the next blank line or paragraph heading,
+// within its page and at most MAX_NOTE_LENGTH characters
+const NOTE_HEADING = /NOTE\s+TO\s+(?:THE\s+)?DESIGNER/gi;
+
+// Blank line, or a line starting with "PART 2", "1.2 TITLE" or "2-1 Title"
+const NOTE_END = /\n[ \t]*\n|\n[ \t]*(?:PART[ \t]+\d|\d+(?:\.\d+)+\.?[ \t]+\p{Lu}|(?:\d+|[A-Z])-\d+(?:\.\d+)*\.?[ \t]+\p{Lu})/u;
+
+const MAX_NOTE_LENGTH = 800;
+
+// Longest item text shown in details and the checklist
+const MAX_ITEM_TEXT = 120;
+
+/**
+ * Find unresolved brackets and designer notes across the pages of a document
+ * Items are returned in document order; ranges are split at page breaks
+ */
+export function findUnresolvedItems(pageTexts: string[]): UnresolvedItem[] {
+  // Pages are joined with a line break so lines and notes can continue onto the next page
+  const { text: fullText, pageStarts } = joinPageTexts(pageTexts);
+
+  const ranges: Array<{ label: UnresolvedLabel; start: number; end: number }> = [
+    ...findBracketRanges(fullText),
+    ...findNoteRanges(fullText, pageStarts)
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const items: UnresolvedItem[] = [];
+  for (const { label, start, end } of ranges) {
+    const parts = splitRangeByPage(start, end, pageStarts, pageTexts);
+    if (parts.length === 0) continue;
+
+    items.push({
+      label,
+      text: summarizeItem(fullText.substring(start, end)),
+      startPage: parts[0].page,
+      endPage: parts[parts.length - 1].page,
+      parts
+    });
+  }
+  return items;
+}
+
+/**
+ * Outermost bracket pairs, nested options included in their parent; stray brackets are "unmatched"
+ * An unclosed "[" does not count as a parent, so it does not hide the pairs after it
+ */
+function findBracketRanges(text: string): Array<{ label: UnresolvedLabel; start: number; end: number }> {
+  const ranges: Array<{ label: UnresolvedLabel; start: number; end: number }> = [];
+  const pairs: Array<{ start: number; end: number }> = [];
+  const open: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '[') {
+      open.push(i);
+    } else if (text[i] === ']') {
+      const start = open.pop();
+      if (start === undefined) {
+        ranges.push({ label: 'unmatched', start: i, end: i + 1 });
+      } else {
+        pairs.push({ start, end: i + 1 });
+      }
+    }
+  }
+
+  for (const start of open) {
+    ranges.push({ label: 'unmatched', start, end: start + 1 });
+  }
+
+  // Pairs never cross, so in start order a pair starting inside the last outer pair is nested in it
+  let outerEnd = -1;
+  for (const pair of pairs.sort((a, b) => a.start - b.start)) {
+    if (pair.start < outerEnd) continue;
+    ranges.push({ label: 'bracket', ...pair });
+    outerEnd = pair.end;
+  }
+
+  return ranges;
+}
+
+/**
+ * Designer note blocks: asterisk-framed notes, and "NOTE TO DESIGNER" paragraphs outside frames
+ */
+function findNoteRanges(text: string, pageStarts: number[]): Array<{ label: UnresolvedLabel; start: number; end: number }> {
+  const ranges: Array<{ label: UnresolvedLabel; start: number; end: number }> = [];
+
+  // Frames come in pairs: opening row, note text, closing row. A row is an opening row only when
+  // the text up to the next row is a note, so a stray row does not shift the pairs after it
+  const frames = Array.from(text.matchAll(NOTE_FRAME));
+  for (let i = 0; i + 1 < frames.length; i++) {
+    const start = frames[i].index!;
+    const end = frames[i + 1].index! + frames[i + 1][0].length;
+    if (/\bNOTE\b/i.test(text.substring(start, end))) {
+      ranges.push({ label: 'designer-note', start, end });
+      i++;
+    }
+  }
+
+  for (const match of text.matchAll(NOTE_HEADING)) {
+    const start = match.index!;
+    if (ranges.some(range => start >= range.start && start < range.end)) continue;
+
+    // Page text has few blank lines, so the page end and a length cap also end the note
+    const nextPage = pageStarts.find(pageStart => pageStart > start);
+    const limit = Math.min(nextPage === undefined ? text.length : nextPage - 1, start + MAX_NOTE_LENGTH);
+    const end = text.substring(start, limit).search(NOTE_END);
+    ranges.push({ label: 'designer-note', start, end: end === -1 ? limit : start + end });
+  }
+
+  return ranges;
+}
+
+function summarizeItem(text: string): string {
+  const compact = text.replace(/\*{3,}/g, '').replace(/\s+/g, ' ').trim();
+  return compact.length > MAX_ITEM_TEXT ? `${compact.substring(0, MAX_ITEM_TEXT - 1)}…` : compact;
+}
+
+/**
+ * Tooltip text for an item: what it is, its text and where it continues
+ */
+export function formatUnresolvedDetail(item: UnresolvedItem): string {
+  const title = UNRESOLVED_LABELS.find(info => info.label === item.label)?.title || item.label;
+  return [
+    title,
+    item.text,
+    item.endPage !== item.startPage && `Pages ${item.startPage}–${item.endPage}`
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Convert items to annotation spans keyed by page
+ */
+export function getUnresolvedSpans(items: UnresolvedItem[]): Record<number, AnnotationSpan[]> {
+  const spansByPage: Record<number, AnnotationSpan[]> = {};
+
+  for (const item of items) {
+    const detail = formatUnresolvedDetail(item);
+    for (const part of item.parts) {
+      (spansByPage[part.page] = spansByPage[part.page] || []).push({
+        startIndex: part.startIndex,
+        endIndex: part.endIndex,
+        kind: UNRESOLVED_KIND,
+        label: item.label,
+        detail
+      });
+    }
+  }
+
+  return spansByPage;
+}
+
+/**
+ * Analyzer that highlights unresolved brackets and designer notes, following them across pages
+ */
+export const unresolvedAnalyzer: DocumentAnalyzer = {
+  kind: UNRESOLVED_KIND,
+  labels: UNRESOLVED_LABELS,
+  analyzePage: (text) => getUnresolvedSpans(findUnresolvedItems([text]))[1] || [],
+  analyzeDocument: (pageTexts) => getUnresolvedSpans(findUnresolvedItems(pageTexts))
+};
+
+// Export types for consumers
+export type { UnresolvedLabel, UnresolvedItem };
@@ -0,0 +1,39 @@
+// Unit tests for the CSV service
+// Tests quoted fields, escaped quotes, line endings, BOM, comment lines and blank rows
+
+import { describe, it, expect } from 'vitest';
+import csvService from '../csvService';
+
+describe('CSVService', () => {
+  describe('parse', () => {
+    it('should key rows by the trimmed header line', () => {
+      expect(csvService.parse(' ID , Keyword \n1, etc. \n2,and/or')).toEqual([
+        { ID: '1', Keyword: 'etc.' },
+        { ID: '2', Keyword: 'and/or' }
+      ]);
+    });
+
+    it('should read quoted fields with commas, escaped quotes and line breaks', () => {
+      expect(csvService.parse('Keyword,Reason\n"a, b","say ""no""\nagain"\n')).toEqual([
+        { Keyword: 'a, b', Reason: 'say "no"\nagain' }
+      ]);
+    });
+
+    it('should handle CRLF line endings and a leading BOM', () => {
+      expect(csvService.parse('\uFEFFTerm,Reference\r\nContractor,5.13\r\n')).toEqual([
+        { Term: 'Contractor', Reference: '5.13' }
+      ]);
+    });
+
+    it('should skip comment lines before the header and blank lines', () => {
+      expect(csvService.parse('# Disciplines\n  # source: UFGS\nkeyword,discipline\n\npipe,Mechanical\n')).toEqual([
+        { keyword: 'pipe', discipline: 'Mechanical' }
+      ]);
+    });
+
+    it('should fill missing fields with empty strings', () => {
+      expect(csvService.parse('a,b,c\n1')).toEqual([{ a: '1', b: '', c: '' }]);
+      expect(csvService.parse('')).toEqual([]);
+    });
+  });
+});
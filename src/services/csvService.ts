@@ -0,0 +1,99 @@
+// CSV Service: loads and parses the CSV data files used by the app (keyword profiles, reference lists)
+
+export type CsvRow = Record<string, string>;
+
+export class CSVService {
+  // Parse CSV text into rows keyed by the header line
+  // Handles quoted fields, escaped quotes, CRLF line endings, a leading BOM and "#" comment lines before the header
+  parse(text: string): CsvRow[] {
+    const records = this.parseRecords(text.replace(/^\uFEFF/, ''));
+    while (records.length > 0 && records[0][0].trimStart().startsWith('#')) {
+      records.shift();
+    }
+    if (records.length === 0) {
+      return [];
+    }
+
+    const headers = records[0].map(header => header.trim());
+    const rows: CsvRow[] = [];
+
+    for (let i = 1; i < records.length; i++) {
+      const record = records[i];
+      // Skip blank lines
+      if (record.length === 1 && record[0].trim() === '') continue;
+
+      const row: CsvRow = {};
+      headers.forEach((header, index) => {
+        row[header] = (record[index] ?? '').trim();
+      });
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  // Fetch a CSV file (e.g. from public/data/) and parse it
+  async load(url: string): Promise<CsvRow[]> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+    }
+    return this.parse(await response.text());
+  }
+
+  // Read a user-supplied CSV file and parse it
+  async loadFile(file: File): Promise<CsvRow[]> {
+    return this.parse(await file.text());
+  }
+
+  // Split CSV text into records of raw field values
+  private parseRecords(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    // Flush the last record if the file does not end with a newline
+    if (field !== '' || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    return records;
+  }
+}
+
+export default new CSVService();
@@ -0,0 +1,28 @@
+// Export Service: builds export files (CSV) and hands them to the browser as downloads
+
+export class ExportService {
+  // Format rows as CSV; fields with commas, quotes or line breaks are quoted
+  toCsv(rows: Array<Array<string | number>>): string {
+    return rows
+      .map(row => row.map(value => this.escapeField(String(value))).join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  // Save text content as a file download
+  download(fileName: string, content: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  private escapeField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
+
+export default new ExportService();
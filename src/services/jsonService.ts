@@ -0,0 +1,19 @@
+// JSON Service: loads the JSON data files used by the app (UFC publication metadata)
+
+export class JSONService {
+  // Fetch a JSON file (e.g. from public/data/) and parse it
+  async load(url: string): Promise<unknown> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  // Read a user-supplied JSON file and parse it
+  async loadFile(file: File): Promise<unknown> {
+    return JSON.parse(await file.text());
+  }
+}
+
+export default new JSONService();
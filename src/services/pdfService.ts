@@ -48,6 +48,7 @@ interface TextContentItem {
   width?: number;
   height?: number;
   fontName?: string;
+  hasEOL?: boolean;
 }
 
 export class PDFService {
@@ -56,7 +57,12 @@ export class PDFService {
   // Load a PDF document from a File object and return it directly
   async loadDocument(file: File): Promise<PDFDocumentProxy> {
     const arrayBuffer = await file.arrayBuffer();
-    const pdfDoc = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    return this.loadDocumentData(arrayBuffer);
+  }
+
+  // Load a PDF document from raw bytes (used by the search worker, which has no File)
+  async loadDocumentData(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+    const pdfDoc = await pdfjsLib.getDocument({ data }).promise;
     return pdfDoc as PDFDocumentProxy;
   }
 
@@ -113,11 +119,22 @@ export class PDFService {
         x: transform[4],
         y: transform[5],
         width: item.width || 0,
-        height: item.height || 0
+        height: item.height || 0,
+        hasEOL: item.hasEOL || false
       };
     });
   }
 
+  // Get the unrotated size of a page in PDF user units, the space extractText positions are in
+  async getPageSize(pdfDoc: PDFDocumentProxy, pageNum: number): Promise<{ width: number; height: number }> {
+    if (!pdfDoc) {
+      throw new Error('PDF document not provided');
+    }
+    const page = await pdfDoc.getPage(pageNum);
+    const viewport = page.getViewport({ scale: 1.0, rotation: 0 });
+    return { width: viewport.width, height: viewport.height };
+  }
+
   // Render text layer using PDF.js v5.x compatible approach
   async renderTextLayer(
     pdfDoc: PDFDocumentProxy,
@@ -203,6 +220,11 @@ export class PDFService {
       
       container.appendChild(div);
       textDivs.push(div);
+
+      // Mark line ends like PDF.js does, so text extraction can tell lines apart
+      if (item.hasEOL) {
+        container.appendChild(document.createElement('br'));
+      }
     });
     
     // Create a mock render task that resolves immediately
@@ -218,3 +240,6 @@ export class PDFService {
 }
 
 export default new PDFService();
+
+// Export types for consumers
+export type { PDFDocumentProxy, PDFPageProxy };
@@ -0,0 +1,42 @@
+// XML Service: loads and parses the SpecsIntact XML data files used by the app (master reference list)
+
+export class XMLService {
+  // Parse XML text into a document
+  parse(text: string): Document {
+    const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+    const error = doc.getElementsByTagName('parsererror')[0];
+    if (error) {
+      throw new Error(`Invalid XML: ${error.textContent?.trim() || 'parse error'}`);
+    }
+    return doc;
+  }
+
+  // Decode XML bytes in the encoding named by the XML declaration (SpecsIntact files are windows-1252)
+  decode(buffer: ArrayBuffer): string {
+    const head = new TextDecoder('latin1').decode(buffer.slice(0, 200));
+    const encoding = head.match(/^<\?xml[^>]*\bencoding=["']([\w.:-]+)["']/)?.[1] || 'utf-8';
+
+    try {
+      return new TextDecoder(encoding).decode(buffer);
+    } catch {
+      // Unknown encoding label
+      return new TextDecoder('utf-8').decode(buffer);
+    }
+  }
+
+  // Fetch an XML file (e.g. from public/data/) and parse it
+  async load(url: string): Promise<Document> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+    }
+    return this.parse(this.decode(await response.arrayBuffer()));
+  }
+
+  // Read a user-supplied XML file and parse it
+  async loadFile(file: File): Promise<Document> {
+    return this.parse(this.decode(await file.arrayBuffer()));
+  }
+}
+
+export default new XMLService();
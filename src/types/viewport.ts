@@ -13,12 +13,15 @@ export type PdfRect = [number, number, number, number]; // [x, y, w, h] in PDF u
 export type CssRect = [number, number, number, number]; // [left, top, width, height] in CSS pixels
 
 // Match rectangle with global ordering for navigation
+// A match split across spans or lines has one PDF rect per fragment; bboxPdf is their union
 export interface MatchRect {
   page: number;
   termId: string;
   order: number;
   bboxPdf: PdfRect;
+  bboxesPdf: PdfRect[];
   sourceDivId?: string;
+  score?: number;   // similarity of an approximate match (absent = exact)
 }
 
 export interface TextItem {
@@ -27,6 +30,7 @@ export interface TextItem {
   y: number;
   width: number;
   height: number;
+  hasEOL?: boolean;  // item ends a line of text
 }
 
 // Token and span types for text processing
@@ -40,4 +44,48 @@ export interface MatchSpan {
   startIndex: number;
   endIndex: number;
   termId: string;
+  score?: number;   // similarity 0..1 for approximate matches (absent = exact)
+}
+
+// Options controlling how query text is matched against page text
+export interface SearchOptions {
+  wholeWord: boolean;             // match only at word boundaries
+  caseSensitive: boolean;         // disable case folding
+  diacriticInsensitive: boolean;  // treat "é" and "e" as equal
+  regex: boolean;                 // interpret the query as a JavaScript regular expression
+  queryLanguage: boolean;         // interpret the query as a boolean/proximity query (AND, OR, NOT, NEAR/n)
+  fuzzy: boolean;                 // approximate matching that tolerates extraction and OCR errors
+  maxEdits: number;               // edit distance allowed per fuzzy match
+}
+
+// A term paired with the options it is matched with (serializable for the search worker)
+export interface TermQuery {
+  termId: string;
+  text: string;
+  options: SearchOptions;
+}
+
+// Search term with its display category (keyword profile entry or free-text query)
+export interface SearchTerm {
+  termId: string;
+  text: string;
+  category: string;
+  color: string;    // CSS color; empty string uses the default highlight style
+}
+
+// Labeled range of page text found by a document analyzer (e.g. a classified requirement sentence)
+export interface AnnotationSpan {
+  startIndex: number;
+  endIndex: number;
+  kind: string;     // analyzer that produced the span, e.g. 'requirement'
+  label: string;    // category within the analyzer, e.g. 'mandatory'
+  detail?: string;  // shown on hover and when selected, e.g. a lint rule's replacement and reason
+  discipline?: string;  // reviewer discipline, e.g. 'Electrical', from the UFGS section or cited document
+}
+
+// Annotation measured on its page; like MatchRect, one PDF rect per line fragment and their union
+export interface AnnotationRect extends AnnotationSpan {
+  page: number;
+  bboxPdf: PdfRect;
+  bboxesPdf: PdfRect[];
 }
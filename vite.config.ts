@@ -7,6 +7,10 @@ export default defineConfig({
   optimizeDeps: {
     include: ['pdfjs-dist']
   },
+  // The search worker is an ES module worker (it imports PDF.js)
+  worker: {
+    format: 'es'
+  },
   build: {
     // Optimize for production deployment
     target: 'esnext',